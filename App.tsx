@@ -1,45 +1,126 @@
 
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import { Tournament, LogEntry, AppTab } from './types';
+import { Tournament, LogEntry, AppTab, EntryStatus, TournamentChange, ImportRecord, TournamentSource, TournamentQuery, TournamentFacets, TournamentScope, TrashBatch, EditableField, Role, InfographicMetadata, Trash, Principal, Job, ImportResult, InfographicResult, DataChange } from './types';
 import {
   FileText, Table, Globe, Info, Terminal, RefreshCw, Trash2,
   Mail, MapPin, ExternalLink, Filter, Users, Shield, Zap, GraduationCap,
-  ArrowUpDown, ArrowUp, ArrowDown, Image, Loader2, Download, X
+  ArrowUpDown, ArrowUp, ArrowDown, Image, Loader2, Download, X, AlertTriangle, Calendar, Clock, Sparkles, History, Undo2, ScrollText, Search, Archive, Pencil, PencilLine, LogIn, LogOut
 } from 'lucide-react';
 import {
-  fetchTournaments,
-  uploadPdf,
+  listTournaments,
+  getTournamentFacets,
+  getLatestChanges,
+  getTournamentSource,
+  editTournament,
+  uploadCalendar,
   deleteAllTournaments,
-  fetchInfographics,
-  generateInfographic,
+  listImports,
+  rollbackImport,
+  listInfographics,
+  createInfographic,
   deleteInfographic as deleteInfographicApi,
   getInfographicImageUrl,
-  InfographicMetadata
+  getTrash,
+  restoreFromTrash,
+  emptyTrash,
+  signIn,
+  signOut,
+  fetchCurrentUser,
+  listJobs,
+  cancelJob,
+  followJob,
+  followChanges,
+  CLIENT_ID
 } from './services/apiService';
+import { getEntryStatus } from './services/parserService';
 import Logger from './components/Logger';
+import { COUNTY_NAMES, DEFAULT_COUNTIES, LOW_CONFIDENCE_THRESHOLD, ENTRY_STATUS_LABELS } from './constants';
 
 // Extend AppTab to include INFOGRAPHICS
 const INFOGRAPHICS_TAB = 'infographics' as AppTab;
 
+// Rows fetched per request; the rest load on demand
+const TOURNAMENT_PAGE_SIZE = 100;
+// Events an infographic lists (the server's MAX_LISTED_TOURNAMENTS); the rest are only counted
+const INFOGRAPHIC_TOURNAMENTS = 12;
+
+// How long the Undo button stays up after a delete
+const UNDO_TIMEOUT_MS = 15000;
+
+// How long a notice about someone else's change stays up
+const SYNC_NOTICE_TIMEOUT_MS = 6000;
+
+// Season filter entries besides the seasons themselves; "Upcoming" leaves out archived (ended) tournaments
+const UPCOMING_SEASON = 'Upcoming';
+const ALL_SEASONS = 'All';
+
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<AppTab>(AppTab.WELCOME);
+  // Tournaments matching the filters, loaded a page at a time; matchCount counts every match
   const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [matchCount, setMatchCount] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Filter values and counts across everything stored
+  const [facets, setFacets] = useState<TournamentFacets | null>(null);
+  const [stAnnsTournaments, setStAnnsTournaments] = useState<Tournament[]>([]);
+  const [stAnnsTotal, setStAnnsTotal] = useState(0);
+  // Bumped to refetch the list after the stored tournaments change
+  const [reloadKey, setReloadKey] = useState(0);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  // The upload being parsed on the server, with its progress
+  const [uploadJob, setUploadJob] = useState<Job | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isLogOpen, setIsLogOpen] = useState(false);
+  // Changes written by the most recent upload, and whether the list is expanded
+  const [latestChanges, setLatestChanges] = useState<TournamentChange[]>([]);
+  const [showChanges, setShowChanges] = useState(false);
+  const [imports, setImports] = useState<ImportRecord[]>([]);
+  const [trash, setTrash] = useState<Trash | null>(null);
+  // The latest delete, offered for undo until UNDO_TIMEOUT_MS passes
+  const [undo, setUndo] = useState<{ trash: TrashBatch; message: string } | null>(null);
+  // What the latest change from elsewhere did, e.g. "3 tournaments updated"
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  // Tournament whose calendar text is shown; source is undefined while loading
+  const [sourceView, setSourceView] = useState<{ tournament: Tournament; source?: TournamentSource | null } | null>(null);
+  // Tournament whose row is open for hand edits
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // Signed-in user; actions their role can't perform are hidden
+  const [user, setUser] = useState<Principal | null>(null);
+  const [showSignIn, setShowSignIn] = useState(false);
+  const canEdit = hasRole(user, 'editor');
+  const isAdmin = hasRole(user, 'admin');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadCounties, setUploadCounties] = useState<string[] | 'all'>(DEFAULT_COUNTIES);
 
   // Infographic States
   const [infographics, setInfographics] = useState<InfographicMetadata[]>([]);
   const [isGeneratingInfographic, setIsGeneratingInfographic] = useState(false);
+  const [infographicJob, setInfographicJob] = useState<Job | null>(null);
 
   // Filtering States
+  const [selectedSeason, setSelectedSeason] = useState<string>(UPCOMING_SEASON);
   const [selectedMonth, setSelectedMonth] = useState<string>('All');
   const [selectedGender, setSelectedGender] = useState<string>('All');
   const [selectedGrade, setSelectedGrade] = useState<string>('All');
   const [selectedType, setSelectedType] = useState<string>('All');
   const [selectedCategory, setSelectedCategory] = useState<string>('All');
+  const [selectedGenderGroup, setSelectedGenderGroup] = useState<string>('All');
+  const [selectedCounty, setSelectedCounty] = useState<string>('All');
+  const [showNeedsReviewOnly, setShowNeedsReviewOnly] = useState(false);
+  const [dateFrom, setDateFrom] = useState<string>('');
+  const [dateTo, setDateTo] = useState<string>('');
+  const [selectedStatus, setSelectedStatus] = useState<string>('All');
+  // What is typed, and what is searched for once typing pauses
+  const [searchText, setSearchText] = useState('');
+  const [search, setSearch] = useState('');
+
+  // Ticks every minute so entry statuses move on while the page stays open
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
 
   // Sorting States
   type SortColumn = 'ltaCode' | 'title' | 'category' | 'gender' | 'eventType' | 'date' | 'grade' | 'venue';
@@ -51,25 +132,142 @@ const App: React.FC = () => {
     setLogs(prev => [...prev, { timestamp: new Date().toISOString(), message, type }]);
   }, []);
 
-  // Load tournaments from API on mount
-  const loadTournaments = useCallback(async () => {
+  // A past season lists its archived tournaments; the filter values follow the season too
+  const seasonScope = useMemo((): TournamentScope => {
+    if (selectedSeason === UPCOMING_SEASON) return {};
+    if (selectedSeason === ALL_SEASONS) return { archived: 'include' };
+    return { season: selectedSeason };
+  }, [selectedSeason]);
+
+  // Load filter values and the latest changes; the list itself follows the filters
+  const loadSummary = useCallback(async (): Promise<TournamentFacets | null> => {
     try {
-      const data = await fetchTournaments();
-      setTournaments(data);
-      if (data.length > 0) {
-        addLog(`Loaded ${data.length} tournaments from database`, 'success');
-        setActiveTab(AppTab.TOURNAMENTS);
-      }
+      const [data, changes] = await Promise.all([
+        getTournamentFacets(seasonScope).then(response => response.facets),
+        getLatestChanges().then(response => response.changes).catch(() => [] as TournamentChange[]),
+      ]);
+      setFacets(data);
+      setLatestChanges(changes);
+      return data;
     } catch (err: any) {
       addLog(`Failed to load tournaments: ${err.message}`, 'error');
-    } finally {
-      setIsLoading(false);
+      return null;
     }
-  }, [addLog]);
+  }, [addLog, seasonScope]);
+
+  const refreshTournaments = useCallback(() => {
+    loadSummary();
+    setReloadKey(key => key + 1);
+  }, [loadSummary]);
 
+  // Runs again when the season changes; only the first load opens the table
+  const isFirstLoadRef = useRef(true);
   useEffect(() => {
-    loadTournaments();
-  }, [loadTournaments]);
+    loadSummary().then(data => {
+      if (!isFirstLoadRef.current) return;
+      isFirstLoadRef.current = false;
+      if (data && data.total > 0) {
+        addLog(`Loaded ${data.total} tournaments from database`, 'success');
+        setActiveTab(AppTab.TOURNAMENTS);
+      }
+      setIsLoading(false);
+    });
+  }, [loadSummary, addLog]);
+
+  useEffect(() => {
+    fetchCurrentUser()
+      .then(setUser)
+      .catch((err: any) => addLog(`Failed to check sign-in: ${err.message}`, 'error'));
+  }, [addLog]);
+
+  // Throws so the sign-in form can show what went wrong
+  const handleSignIn = async (username: string, password: string) => {
+    const signedIn = await signIn(username, password);
+    setUser(signedIn);
+    setShowSignIn(false);
+    addLog(`Signed in as ${signedIn.name} (${signedIn.role})`, 'success');
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (err: any) {
+      addLog(`Failed to end the session on the server: ${err.message}`, 'warning');
+    }
+    setUser(null);
+    setEditingId(null);
+    addLog('Signed out', 'info');
+  };
+
+  // What a finished upload did, for the log
+  const reportImport = (result: ImportResult) => {
+    const countyLabel = result.counties === 'all' ? 'all counties' : result.counties.map(formatCounty).join(', ');
+
+    refreshTournaments();
+    loadImports();
+    addLog(`Parsed ${result.parsed} tournaments (${countyLabel}). Added ${result.added} new, updated ${result.updated}, ${result.unchanged} unchanged.`, "success");
+    if (result.disappeared > 0) {
+      addLog(`${result.disappeared} stored tournaments are no longer listed in this calendar`, "warning");
+    }
+    // An upload that changed nothing leaves the previous calendar's changes as the latest
+    if (result.changes.length > 0) {
+      setLatestChanges(result.changes);
+      setShowChanges(result.updated > 0 || result.disappeared > 0);
+    }
+    addLog(`Total tournaments in database: ${result.total}`, "info");
+
+    if (result.ai?.error) {
+      addLog(`AI fallback (${result.ai.provider}) failed, kept regex results: ${result.ai.error}`, "warning");
+    } else if (result.ai && result.ai.aiEntries > 0) {
+      addLog(`AI fallback (${result.ai.provider}) re-read ${result.ai.aiEntries} low-confidence entries and filled ${result.ai.aiFields} fields`, "info");
+    }
+
+    if (result.warnings && result.warnings.lowConfidence > 0) {
+      const defaulted = Object.entries(result.warnings.defaultedFields)
+        .sort((a, b) => b[1] - a[1])
+        .map(([field, count]) => `${field} (${count})`)
+        .join(', ');
+      addLog(`${result.warnings.lowConfidence} tournaments parsed with low confidence (average ${Math.round(result.warnings.averageConfidence * 100)}%). Defaulted fields: ${defaulted}`, "warning");
+    }
+
+    if (result.total > 0) {
+      setSelectedMonth('All');
+      setSelectedGender('All');
+      setSelectedGrade('All');
+      setSelectedType('All');
+      setSelectedCategory('All');
+      setSelectedGenderGroup('All');
+      setSelectedCounty('All');
+      setDateFrom('');
+      setDateTo('');
+      setSelectedStatus('All');
+      setSearchText('');
+      setActiveTab(AppTab.TOURNAMENTS);
+    } else {
+      addLog(`No tournaments detected for ${countyLabel}. Check PDF layout or county selection.`, "warning");
+    }
+  };
+
+  // Shows an upload's progress until the server has parsed and saved it
+  const followUpload = async (job: Job) => {
+    setIsProcessing(true);
+    setUploadJob(job);
+    try {
+      const finished = await followJob(job.id, setUploadJob);
+      if (finished.status === 'succeeded') {
+        reportImport(finished.result as ImportResult);
+      } else if (finished.status === 'cancelled') {
+        addLog(`Cancelled parsing ${job.label}`, 'warning');
+      } else {
+        addLog(`Error processing file: ${finished.error}`, 'error');
+      }
+    } catch (err: any) {
+      addLog(`Error processing file: ${err.message}`, 'error');
+    } finally {
+      setUploadJob(null);
+      setIsProcessing(false);
+    }
+  };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -80,22 +278,9 @@ const App: React.FC = () => {
 
     try {
       addLog("Uploading PDF to server for parsing...", "info");
-      const result = await uploadPdf(file);
-
-      setTournaments(result.tournaments);
-      addLog(`Parsed ${result.parsed} Sussex tournaments. Added ${result.added} new, skipped ${result.skipped} existing.`, "success");
-      addLog(`Total tournaments in database: ${result.total}`, "info");
-
-      if (result.tournaments.length > 0) {
-        setSelectedMonth('All');
-        setSelectedGender('All');
-        setSelectedGrade('All');
-        setSelectedType('All');
-        setSelectedCategory('All');
-        setActiveTab(AppTab.TOURNAMENTS);
-      } else {
-        addLog("No Sussex (SUS) tournaments detected. Check PDF layout.", "warning");
-      }
+      const { job } = await uploadCalendar({ pdf: file, counties: uploadCounties });
+      addLog(`Uploaded ${file.name}; the server is parsing it`, 'info');
+      await followUpload(job);
     } catch (err: any) {
       addLog(`Error processing file: ${err.message}`, "error");
     } finally {
@@ -105,23 +290,109 @@ const App: React.FC = () => {
     }
   };
 
+  const handleCancelJob = async (job: Job) => {
+    try {
+      await cancelJob(job.id);
+      addLog(`Cancelling ${job.label}...`, 'info');
+    } catch (err: any) {
+      addLog(`Failed to cancel ${job.label}: ${err.message}`, 'error');
+    }
+  };
+
   const handleClearAll = async () => {
-    if (!confirm('Are you sure you want to delete all tournaments from the database?')) return;
+    if (!confirm('Move all tournaments to the trash?')) return;
 
     try {
-      await deleteAllTournaments();
-      setTournaments([]);
-      addLog('All tournaments deleted from database', 'success');
+      const { trash: trashed } = await deleteAllTournaments();
+      refreshTournaments();
+      setUndo({ trash: trashed, message: `Moved ${trashed.tournaments} tournaments to the trash` });
+      loadTrash();
+      addLog(`Moved ${trashed.tournaments} tournaments to the trash`, 'success');
       setActiveTab(AppTab.WELCOME);
     } catch (err: any) {
       addLog(`Failed to delete tournaments: ${err.message}`, 'error');
     }
   };
 
+  // Load the upload history from API
+  const loadImports = useCallback(async () => {
+    try {
+      setImports((await listImports()).imports);
+    } catch (err: any) {
+      addLog(`Failed to load imports: ${err.message}`, 'error');
+    }
+  }, [addLog]);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setTrash(await getTrash());
+    } catch (err: any) {
+      addLog(`Failed to load trash: ${err.message}`, 'error');
+    }
+  }, [addLog]);
+
+  useEffect(() => {
+    if (activeTab === AppTab.WELCOME) {
+      loadImports();
+      loadTrash();
+    }
+  }, [activeTab, loadImports, loadTrash]);
+
+  useEffect(() => {
+    if (!undo) return;
+    const timer = setTimeout(() => setUndo(null), UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [undo]);
+
+  useEffect(() => {
+    if (!syncNotice) return;
+    const timer = setTimeout(() => setSyncNotice(null), SYNC_NOTICE_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [syncNotice]);
+
+  const handleRollbackImport = async (importRecord: ImportRecord) => {
+    if (!confirm(`Roll back the import of ${importRecord.filename}? Tournaments it added move to the trash and the ones it changed get their previous values back; hand edits stay.`)) return;
+
+    try {
+      // Only the counts come back; the page and the trash (where tournaments the import
+      // brought back return to) are fetched again
+      const result = await rollbackImport(importRecord.id);
+      refreshTournaments();
+      addLog(`Rolled back ${importRecord.filename}: removed ${result.removed}, restored ${result.restored} tournaments`, 'success');
+      loadImports();
+      loadTrash();
+    } catch (err: any) {
+      addLog(`Failed to roll back import: ${err.message}`, 'error');
+    }
+  };
+
+  const handleShowSource = async (tournament: Tournament) => {
+    setSourceView({ tournament });
+    try {
+      const { source } = await getTournamentSource(tournament.id);
+      setSourceView(prev => prev?.tournament.id === tournament.id ? { tournament, source } : prev);
+    } catch (err: any) {
+      setSourceView(null);
+      addLog(`Failed to load source for ${tournament.ltaCode}: ${err.message}`, 'error');
+    }
+  };
+
+  const handleEditTournament = async (tournament: Tournament, edits: Partial<Record<EditableField, string | null>>) => {
+    try {
+      const { tournament: edited } = await editTournament(tournament.id, edits);
+      setTournaments(prev => prev.map(t => t.id === edited.id ? edited : t));
+      setEditingId(null);
+      loadSummary();
+      addLog(`Saved edits to ${tournament.ltaCode}`, 'success');
+    } catch (err: any) {
+      addLog(`Failed to edit ${tournament.ltaCode}: ${err.message}`, 'error');
+    }
+  };
+
   // Load infographics from API
   const loadInfographics = useCallback(async () => {
     try {
-      const data = await fetchInfographics();
+      const { infographics: data } = await listInfographics();
       setInfographics(data);
     } catch (err: any) {
       addLog(`Failed to load infographics: ${err.message}`, 'error');
@@ -137,15 +408,17 @@ const App: React.FC = () => {
 
   // Handle creating infographic
   const handleCreateInfographic = async () => {
-    if (filteredTournaments.length === 0) {
+    if (matchCount === 0) {
       addLog('No tournaments to create infographic from', 'warning');
       return;
     }
 
     setIsGeneratingInfographic(true);
-    addLog(`Creating infographic for ${filteredTournaments.length} tournaments...`, 'info');
+    addLog(`Creating infographic for ${matchCount} tournaments...`, 'info');
 
     try {
+      // The first matches from the server, not the pages loaded so far, and how many there are in all
+      const { tournaments: matching, total } = await listTournaments({ ...tournamentQuery, limit: INFOGRAPHIC_TOURNAMENTS });
       const filters = {
         month: selectedMonth !== 'All' ? selectedMonth : undefined,
         gender: selectedGender !== 'All' ? selectedGender : undefined,
@@ -154,10 +427,8 @@ const App: React.FC = () => {
         ageGroup: selectedCategory !== 'All' ? selectedCategory : undefined,
       };
 
-      const result = await generateInfographic(filteredTournaments, filters);
-      addLog(`Infographic created successfully!`, 'success');
-      setInfographics(prev => [result.infographic, ...prev]);
-      setActiveTab(INFOGRAPHICS_TAB);
+      const { job } = await createInfographic({ tournaments: matching, filters, tournamentCount: total });
+      await followInfographic(job);
     } catch (err: any) {
       addLog(`Failed to create infographic: ${err.message}`, 'error');
     } finally {
@@ -165,19 +436,159 @@ const App: React.FC = () => {
     }
   };
 
-  // Handle deleting infographic
-  const handleDeleteInfographic = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this infographic?')) return;
+  // Waits for the server to generate an infographic, then shows it
+  const followInfographic = async (job: Job) => {
+    setIsGeneratingInfographic(true);
+    setInfographicJob(job);
+    try {
+      const finished = await followJob(job.id, setInfographicJob);
+      if (finished.status === 'succeeded') {
+        addLog(`Infographic created successfully!`, 'success');
+        setInfographics(prev => [(finished.result as InfographicResult).infographic, ...prev]);
+        setActiveTab(INFOGRAPHICS_TAB);
+      } else if (finished.status === 'cancelled') {
+        addLog('Cancelled the infographic', 'warning');
+      } else {
+        addLog(`Failed to create infographic: ${finished.error}`, 'error');
+      }
+    } catch (err: any) {
+      addLog(`Failed to create infographic: ${err.message}`, 'error');
+    } finally {
+      setInfographicJob(null);
+      setIsGeneratingInfographic(false);
+    }
+  };
+
+  // Uploads and infographics still being worked on from before a reload are followed again
+  useEffect(() => {
+    listJobs({ status: ['queued', 'running'] })
+      .then(({ jobs }) => {
+        const upload = jobs.find(job => job.type === 'import');
+        const infographic = jobs.find(job => job.type === 'infographic');
+        if (upload) followUpload(upload);
+        if (infographic) followInfographic(infographic);
+      })
+      .catch(() => {});
+  }, []);
 
+  // Applies a change pushed by the server. Updated and deleted rows are patched in place; where new
+  // ones belong depends on the server's filters and sort, so the list is fetched again for those
+  const applyChange = (change: DataChange) => {
+    if (change.action === 'replaced') {
+      refreshTournaments();
+      loadInfographics();
+      loadImports();
+      loadTrash();
+    } else {
+      const { added, updated, deleted } = change.tournaments;
+      if (added.length > 0) {
+        refreshTournaments();
+      } else if (updated.length > 0 || deleted.length > 0) {
+        // The upcoming list also loses tournaments that have just been archived
+        const gone = (t: Tournament) => deleted.includes(t.id) ||
+          (selectedSeason === UPCOMING_SEASON && !!updated.find(u => u.id === t.id)?.archivedAt);
+        const patch = (rows: Tournament[]) => rows
+          .filter(t => !gone(t))
+          .map(t => updated.find(u => u.id === t.id) ?? t);
+        setMatchCount(count => count - tournaments.filter(gone).length);
+        setTournaments(patch);
+        setStAnnsTournaments(patch);
+        loadSummary();
+      }
+
+      const infographicsAdded = change.infographics.added;
+      const infographicsDeleted = change.infographics.deleted;
+      if (infographicsAdded.length > 0 || infographicsDeleted.length > 0) {
+        setInfographics(prev => [...infographicsAdded.filter(i => !prev.some(p => p.id === i.id)), ...prev]
+          .filter(i => !infographicsDeleted.includes(i.id)));
+      }
+      if (change.action === 'imported') loadImports();
+      if (activeTab === AppTab.WELCOME) loadTrash();
+    }
+
+    // This tab already reported its own changes
+    if (change.clientId !== CLIENT_ID) {
+      const notice = describeChange(change);
+      setSyncNotice(notice);
+      addLog(notice, 'info');
+    }
+  };
+
+  // Changes made elsewhere (another tab, another committee member) show up as they happen.
+  // The stream stays open for the page's lifetime, so it calls the latest applyChange through a ref
+  const applyChangeRef = useRef(applyChange);
+  applyChangeRef.current = applyChange;
+  useEffect(() => followChanges(change => applyChangeRef.current(change)), []);
+
+  // Handle deleting infographic; it goes to the trash, so no confirmation
+  const handleDeleteInfographic = async (id: string) => {
     try {
-      await deleteInfographicApi(id);
+      const { trash: trashed } = await deleteInfographicApi(id);
       setInfographics(prev => prev.filter(i => i.id !== id));
-      addLog('Infographic deleted', 'success');
+      setUndo({ trash: trashed, message: 'Moved the infographic to the trash' });
+      addLog('Infographic moved to the trash', 'success');
     } catch (err: any) {
       addLog(`Failed to delete infographic: ${err.message}`, 'error');
     }
   };
 
+  // Undo a delete: everything it moved to the trash comes back
+  const handleRestoreFromTrash = async (batch: string) => {
+    setUndo(prev => prev?.trash.batch === batch ? null : prev);
+    try {
+      const { restored } = await restoreFromTrash({ batch });
+      if (restored.tournaments > 0) refreshTournaments();
+      if (restored.infographics > 0) loadInfographics();
+      loadTrash();
+      addLog(`Restored ${restored.tournaments} tournaments and ${restored.infographics} infographics from the trash`, 'success');
+    } catch (err: any) {
+      addLog(`Failed to restore from trash: ${err.message}`, 'error');
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm('Permanently delete everything in the trash? This cannot be undone.')) return;
+
+    try {
+      const { purged } = await emptyTrash();
+      setUndo(null);
+      loadTrash();
+      addLog(`Permanently deleted ${purged.tournaments} tournaments and ${purged.infographics} infographics`, 'success');
+    } catch (err: any) {
+      addLog(`Failed to empty trash: ${err.message}`, 'error');
+    }
+  };
+
+  // Toggle a county in the upload selection; "all" replaces any individual picks
+  const toggleUploadCounty = (county: string) => {
+    if (county === 'all') {
+      setUploadCounties(prev => prev === 'all' ? DEFAULT_COUNTIES : 'all');
+      return;
+    }
+    setUploadCounties(prev => {
+      const current = prev === 'all' ? [] : prev;
+      const next = current.includes(county) ? current.filter(c => c !== county) : [...current, county];
+      return next.length > 0 ? next : DEFAULT_COUNTIES;
+    });
+  };
+
+  // Rows where the parser had to guess too many fields
+  const needsReview = (t: Tournament): boolean =>
+    t.diagnostics !== null && t.diagnostics.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+  // Same rules as the server's entryStatus, recomputed against the ticking clock
+  const entryStatusOf = useCallback((t: Tournament): EntryStatus | null => getEntryStatus(t, now), [now]);
+
+  // Fields the hybrid parser took from the AI rather than the regex parser
+  const aiFieldsOf = (t: Tournament): string[] =>
+    Object.entries(t.diagnostics?.engines || {}).filter(([, engine]) => engine !== 'regex').map(([field]) => field);
+
+  // Latest change per tournament, for the row markers
+  const changeById = useMemo(() => new Map(latestChanges.map(c => [c.tournamentId, c])), [latestChanges]);
+
+  // Format county prefix like "SUS" as "Sussex"
+  const formatCounty = (county: string): string => COUNTY_NAMES[county] || county;
+
   // Format month like "Sept 25" from "September 2025"
   const formatMonthShort = (month: string): string => {
     const parts = month.split(' ');
@@ -187,36 +598,30 @@ const App: React.FC = () => {
     return `${monthName} ${year}`;
   };
 
-  const months = useMemo(() => {
-    const m = Array.from(new Set(tournaments.map(t => t.month)));
-    return ['All', ...m.sort((a: any, b: any) => new Date(a).getTime() - new Date(b).getTime())];
-  }, [tournaments]);
+  const seasons = useMemo(() => [UPCOMING_SEASON, ALL_SEASONS, ...(facets?.seasons ?? [])], [facets]);
+  // Month labels come ordered by their earliest event, undated ones last
+  const months = useMemo(() => ['All', ...(facets?.months ?? [])], [facets]);
+  const genders = useMemo(() => ['All', ...(facets?.genders ?? [])], [facets]);
+  const grades = useMemo(() => ['All', ...(facets?.grades ?? [])], [facets]);
+  const eventTypes = useMemo(() => ['All', ...(facets?.eventTypes ?? [])], [facets]);
+  const counties = useMemo(() => ['All', ...(facets?.counties ?? [])], [facets]);
+  const entryStatuses = ['All', ...Object.keys(ENTRY_STATUS_LABELS)];
 
-  const genders = useMemo(() => ['All', ...Array.from(new Set(tournaments.map(t => t.gender)))], [tournaments]);
-  const grades = useMemo(() => ['All', ...Array.from(new Set(tournaments.map(t => t.grade)))].sort(), [tournaments]);
-  const eventTypes = useMemo(() => ['All', ...Array.from(new Set(tournaments.map(t => t.eventType)))], [tournaments]);
-
-  // Special age group filters + actual categories
+  // Grouped age filters first, then the age groups present, youngest to oldest
   const categories = useMemo(() => {
-    const actual = Array.from(new Set(tournaments.map(t => t.category))).sort();
-    // Add special grouped filters at top
-    return ['All', 'Adult', 'Juniors', 'Red/Orange Ball', ...actual];
-  }, [tournaments]);
-
-  // Parse date string like "Sat 06 Sep" to sortable value
-  const parseDateForSort = useCallback((dateStr: string, month: string): number => {
-    const monthMap: Record<string, number> = {
-      'JAN': 0, 'FEB': 1, 'MAR': 2, 'APR': 3, 'MAY': 4, 'JUN': 5,
-      'JUL': 6, 'AUG': 7, 'SEP': 8, 'OCT': 9, 'NOV': 10, 'DEC': 11
-    };
-    const parts = dateStr.split(' ');
-    const day = parseInt(parts[1]) || 1;
-    const monthAbbr = parts[2]?.toUpperCase() || '';
-    const monthNum = monthMap[monthAbbr] ?? 0;
-    const yearMatch = month.match(/\d{4}/);
-    const year = yearMatch ? parseInt(yearMatch[0]) : 2025;
-    return new Date(year, monthNum, day).getTime();
-  }, []);
+    const actual = [...(facets?.ageGroups ?? [])].sort((a, b) => ageGroupRank(a) - ageGroupRank(b));
+    return ['All', ...AGE_FILTER_GROUPS, ...actual];
+  }, [facets]);
+  const genderGroups = useMemo(() => ['All', ...GENDER_GROUP_ORDER.filter(g => facets?.genderGroups.includes(g))], [facets]);
+
+  const storedCount = facets?.total ?? 0;
+  const needsReviewCount = facets?.needsReview ?? 0;
+
+  // Months differ between seasons, so the month filter starts over
+  const handleSeasonChange = (season: string) => {
+    setSelectedSeason(season);
+    setSelectedMonth('All');
+  };
 
   // Handle column sort click
   const handleSort = useCallback((column: SortColumn) => {
@@ -228,65 +633,62 @@ const App: React.FC = () => {
     }
   }, [sortColumn]);
 
-  // Sort function for tournaments
-  const sortTournaments = useCallback((items: Tournament[]): Tournament[] => {
-    return [...items].sort((a, b) => {
-      let comparison = 0;
-
-      switch (sortColumn) {
-        case 'date':
-          comparison = parseDateForSort(a.date, a.month) - parseDateForSort(b.date, b.month);
-          break;
-        case 'grade':
-          const gradeA = parseInt(a.grade.replace(/[^0-9]/g, '')) || 0;
-          const gradeB = parseInt(b.grade.replace(/[^0-9]/g, '')) || 0;
-          comparison = gradeA - gradeB;
-          break;
-        case 'ltaCode':
-        case 'title':
-        case 'category':
-        case 'gender':
-        case 'eventType':
-        case 'venue':
-          comparison = (a[sortColumn] || '').localeCompare(b[sortColumn] || '');
-          break;
-      }
+  // Search is sent once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchText.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchText]);
 
-      return sortDirection === 'asc' ? comparison : -comparison;
-    });
-  }, [sortColumn, sortDirection, parseDateForSort]);
+  // Filters, search and sort as a server query; paging is added per request
+  const tournamentQuery = useMemo((): TournamentQuery => {
+    const selected = (value: string) => value !== 'All' ? value : undefined;
+    return {
+      ...seasonScope,
+      month: selected(selectedMonth),
+      gender: selected(selectedGender),
+      grade: selected(selectedGrade),
+      eventType: selected(selectedType),
+      ageGroup: selected(selectedCategory),
+      genderGroup: selected(selectedGenderGroup),
+      county: selected(selectedCounty),
+      status: selectedStatus !== 'All' ? [selectedStatus as EntryStatus] : undefined,
+      from: dateFrom || undefined,
+      to: dateTo || undefined,
+      needsReview: showNeedsReviewOnly,
+      q: search || undefined,
+      sort: sortColumn,
+      order: sortDirection,
+    };
+  }, [seasonScope, selectedMonth, selectedGender, selectedGrade, selectedType, selectedCategory, selectedGenderGroup, selectedCounty, selectedStatus, dateFrom, dateTo, showNeedsReviewOnly, search, sortColumn, sortDirection]);
 
-  // Helper to check if category matches special filters
-  const matchesCategoryFilter = useCallback((category: string, filter: string): boolean => {
-    if (filter === 'All') return true;
-    if (filter === 'Adult') {
-      // Adult = Open or anything without "U" (Under age)
-      return category.toLowerCase().includes('open') || !category.match(/\d+U/i);
-    }
-    if (filter === 'Juniors') {
-      // Juniors = has "U" (Under) but NOT Red/Orange Ball (8U, 9U, 10U)
-      return category.match(/\d+U/i) !== null && !['8U', '9U', '10U'].some(age => category.includes(age));
-    }
-    if (filter === 'Red/Orange Ball') {
-      // Red/Orange Ball = 8U, 9U, 10U categories
-      return ['8U', '9U', '10U'].some(age => category.includes(age));
-    }
-    // Direct match for actual categories
-    return category === filter;
-  }, []);
+  // Only the newest request may set the list, so fast filter changes can't land out of order
+  const listRequestRef = useRef(0);
+  useEffect(() => {
+    const request = ++listRequestRef.current;
+    listTournaments({ ...tournamentQuery, limit: TOURNAMENT_PAGE_SIZE })
+      .then(page => {
+        if (request !== listRequestRef.current) return;
+        setTournaments(page.tournaments);
+        setMatchCount(page.total);
+      })
+      .catch((err: any) => addLog(`Failed to load tournaments: ${err.message}`, 'error'));
+  }, [tournamentQuery, reloadKey, addLog]);
 
-  // Ensure filteredTournaments updates whenever any state changes, then apply sorting
-  const filteredTournaments = useMemo(() => {
-    const filtered = tournaments.filter(t => {
-      const matchMonth = selectedMonth === 'All' || t.month === selectedMonth;
-      const matchGender = selectedGender === 'All' || t.gender === selectedGender;
-      const matchGrade = selectedGrade === 'All' || t.grade === selectedGrade;
-      const matchType = selectedType === 'All' || t.eventType === selectedType;
-      const matchCategory = matchesCategoryFilter(t.category, selectedCategory);
-      return matchMonth && matchGender && matchGrade && matchType && matchCategory;
-    });
-    return sortTournaments(filtered);
-  }, [tournaments, selectedMonth, selectedGender, selectedGrade, selectedType, selectedCategory, sortTournaments, matchesCategoryFilter]);
+  const handleLoadMore = async () => {
+    const request = listRequestRef.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await listTournaments({ ...tournamentQuery, limit: TOURNAMENT_PAGE_SIZE, offset: tournaments.length });
+      if (request === listRequestRef.current) {
+        setTournaments(prev => [...prev, ...page.tournaments]);
+        setMatchCount(page.total);
+      }
+    } catch (err: any) {
+      addLog(`Failed to load more tournaments: ${err.message}`, 'error');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
 
   // Helper to strip UK postcodes from venue text
   const stripPostcode = (text: string): string => {
@@ -295,18 +697,11 @@ const App: React.FC = () => {
 
   // Build LTA competition link with all required filters
   const getLTALink = (t: Tournament) => {
-    const monthMap: Record<string, string> = {
-      'JAN': '01', 'FEB': '02', 'MAR': '03', 'APR': '04', 'MAY': '05', 'JUN': '06',
-      'JUL': '07', 'AUG': '08', 'SEP': '09', 'OCT': '10', 'NOV': '11', 'DEC': '12'
-    };
-    const parts = t.date.split(' ');
-    const day = parts[1]?.padStart(2, '0');
-    const month = monthMap[parts[2]?.toUpperCase()] || '01';
-    const year = t.month.split(' ')[1];
-    const formattedDate = `${year}-${month}-${day}`;
+    const startDate = t.startDate || '';
+    const endDate = t.endDate || startDate;
     const gradeNum = parseInt(t.grade.replace(/[^0-9]/g, '')) || 5;
 
-    let link = `https://competitions.lta.org.uk/find?DateFilterType=0&StartDate=${formattedDate}&EndDate=${formattedDate}&GradeFilter=${gradeNum}&page=1`;
+    let link = `https://competitions.lta.org.uk/find?DateFilterType=0&StartDate=${startDate}&EndDate=${endDate}&GradeFilter=${gradeNum}&page=1`;
     // Add grading ID list for precise grade filtering
     for (let i = 0; i < 8; i++) {
       const isCurrentGrade = (i + 1) === gradeNum;
@@ -317,22 +712,17 @@ const App: React.FC = () => {
     return link;
   };
 
-  const stAnnsTournaments = useMemo(() => {
-    const isStAnns = (v: string) =>
-      v.toLowerCase().includes("st ann") ||
-      v.toLowerCase().includes("stann");
-
-    const base = tournaments.filter(t => isStAnns(t.venue));
-    const filtered = base.filter(t => {
-      const matchMonth = selectedMonth === 'All' || t.month === selectedMonth;
-      const matchGender = selectedGender === 'All' || t.gender === selectedGender;
-      const matchGrade = selectedGrade === 'All' || t.grade === selectedGrade;
-      const matchType = selectedType === 'All' || t.eventType === selectedType;
-      const matchCategory = matchesCategoryFilter(t.category, selectedCategory);
-      return matchMonth && matchGender && matchGrade && matchType && matchCategory;
-    });
-    return sortTournaments(filtered);
-  }, [tournaments, selectedMonth, selectedGender, selectedGrade, selectedType, selectedCategory, sortTournaments, matchesCategoryFilter]);
+  // The club export uses the same filters, limited to St Ann's; spaces in venues are
+  // ignored server-side, so "stann" matches "St Ann's" and "StAnns". One page is shown, with the total
+  useEffect(() => {
+    if (activeTab !== AppTab.VISUALIZATION) return;
+    listTournaments({ ...tournamentQuery, needsReview: false, venue: 'stann', limit: TOURNAMENT_PAGE_SIZE })
+      .then(page => {
+        setStAnnsTournaments(page.tournaments);
+        setStAnnsTotal(page.total);
+      })
+      .catch((err: any) => addLog(`Failed to load St Ann's tournaments: ${err.message}`, 'error'));
+  }, [activeTab, tournamentQuery, reloadKey, addLog]);
 
   // Helper to generate Google Maps link from venue name
   const getGoogleMapsLink = (venue: string) => {
@@ -353,28 +743,41 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            {tournaments.length > 0 && (
+            {storedCount > 0 && (
               <>
                 <button
-                  onClick={loadTournaments}
+                  onClick={refreshTournaments}
                   className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg hover:bg-emerald-600 transition-colors text-xs font-semibold"
                   title="Refresh tournaments"
                 >
                   <RefreshCw size={14} />
                 </button>
-                <button
-                  onClick={handleClearAll}
-                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg hover:bg-rose-600 transition-colors text-xs font-semibold"
-                  title="Clear all tournaments"
-                >
-                  <Trash2 size={14} />
-                </button>
+                {isAdmin && (
+                  <button
+                    onClick={handleClearAll}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg hover:bg-rose-600 transition-colors text-xs font-semibold"
+                    title="Clear all tournaments"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
               </>
             )}
             <button onClick={() => setIsLogOpen(!isLogOpen)} className="flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-emerald-600 transition-colors text-xs font-semibold uppercase tracking-wider">
               <Terminal size={14} className={logs.some(l => l.type === 'error') ? 'text-rose-300' : 'text-emerald-300'} />
               System logs ({logs.length})
             </button>
+            {user ? (
+              <button onClick={handleSignOut} title="Sign out" className="flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-emerald-600 transition-colors text-xs font-semibold">
+                <LogOut size={14} />
+                {user.name} · {user.role}
+              </button>
+            ) : (
+              <button onClick={() => setShowSignIn(true)} className="flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-emerald-600 transition-colors text-xs font-semibold uppercase tracking-wider">
+                <LogIn size={14} />
+                Sign in
+              </button>
+            )}
           </div>
         </div>
         
@@ -382,8 +785,8 @@ const App: React.FC = () => {
         <div className="bg-emerald-800/50 backdrop-blur-md border-t border-emerald-600/30 overflow-x-auto no-scrollbar">
           <div className="max-w-7xl mx-auto flex">
             <TabButton active={activeTab === AppTab.WELCOME} onClick={() => setActiveTab(AppTab.WELCOME)} icon={<FileText size={16} />} label="1. Upload" />
-            <TabButton active={activeTab === AppTab.TOURNAMENTS} onClick={() => setActiveTab(AppTab.TOURNAMENTS)} icon={<Table size={16} />} label="2. All Events" disabled={tournaments.length === 0} />
-            <TabButton active={activeTab === AppTab.VISUALIZATION} onClick={() => setActiveTab(AppTab.VISUALIZATION)} icon={<Globe size={16} />} label="3. Club Export" disabled={tournaments.length === 0} />
+            <TabButton active={activeTab === AppTab.TOURNAMENTS} onClick={() => setActiveTab(AppTab.TOURNAMENTS)} icon={<Table size={16} />} label="2. All Events" disabled={storedCount === 0} />
+            <TabButton active={activeTab === AppTab.VISUALIZATION} onClick={() => setActiveTab(AppTab.VISUALIZATION)} icon={<Globe size={16} />} label="3. Club Export" disabled={storedCount === 0} />
             <TabButton active={activeTab === INFOGRAPHICS_TAB} onClick={() => setActiveTab(INFOGRAPHICS_TAB)} icon={<Image size={16} />} label="4. Infographics" />
           </div>
         </div>
@@ -398,44 +801,70 @@ const App: React.FC = () => {
                 <p className="text-lg text-slate-600 mb-4 max-w-lg mx-auto leading-relaxed">
                   {isLoading
                     ? 'Loading tournaments from database...'
-                    : tournaments.length > 0
-                    ? `You have ${tournaments.length} tournaments in the database. Upload another PDF to add more.`
+                    : !canEdit
+                    ? `There are ${storedCount} tournaments in the database. Sign in as an editor to upload calendars.`
+                    : storedCount > 0
+                    ? `You have ${storedCount} tournaments in the database. Upload another PDF to add more.`
                     : 'Please upload a PDF of LTA tournaments to populate the Sussex portal.'}
                 </p>
-                {tournaments.length > 0 && (
+                {canEdit && storedCount > 0 && (
                   <p className="text-sm text-emerald-600 mb-6">
-                    New tournaments will be added automatically. Duplicates are skipped.
+                    New tournaments will be added automatically. Changed dates, venues and deadlines are updated.
                   </p>
                 )}
-                <div className="mt-6">
-                  <input
-                    ref={fileInputRef}
-                    type="file"
-                    accept=".pdf"
-                    onChange={handleFileUpload}
-                    disabled={isProcessing || isLoading}
-                    className="hidden"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => fileInputRef.current?.click()}
-                    disabled={isProcessing || isLoading}
-                    className={`w-full p-12 rounded-2xl border-2 border-dashed transition-all flex flex-col items-center gap-6 cursor-pointer ${isProcessing || isLoading ? 'bg-emerald-50 border-emerald-400 cursor-wait' : 'bg-white border-slate-200 hover:border-emerald-500 shadow-sm'}`}
-                  >
-                    <div className={`p-6 rounded-full ${isProcessing || isLoading ? 'bg-emerald-500 text-white animate-bounce' : 'bg-emerald-100 text-emerald-600 transition-colors'}`}><FileText size={48} /></div>
-                    <p className="text-xl font-bold text-slate-700">
-                      {isLoading ? 'Loading...' : isProcessing ? 'Processing PDF...' : 'Click to Upload PDF'}
-                    </p>
-                    {(isProcessing || isLoading) && <div className="w-full max-w-xs bg-slate-200 h-1.5 rounded-full overflow-hidden mt-2"><div className="h-full bg-emerald-500 animate-progress"></div></div>}
-                  </button>
-                </div>
+                {canEdit && (
+                  <>
+                    <div className="mt-6 flex flex-wrap justify-center gap-2">
+                      {Object.entries(COUNTY_NAMES).map(([code, name]) => {
+                        const isSelected = uploadCounties !== 'all' && uploadCounties.includes(code);
+                        return (
+                          <button key={code} type="button" onClick={() => toggleUploadCounty(code)} disabled={isProcessing} className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all ${isSelected ? 'bg-emerald-600 text-white shadow-md' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>
+                            {name}
+                          </button>
+                        );
+                      })}
+                      <button type="button" onClick={() => toggleUploadCounty('all')} disabled={isProcessing} className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all ${uploadCounties === 'all' ? 'bg-emerald-600 text-white shadow-md' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>
+                        All Counties
+                      </button>
+                    </div>
+                    <div className="mt-6">
+                      <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".pdf"
+                        onChange={handleFileUpload}
+                        disabled={isProcessing || isLoading}
+                        className="hidden"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isProcessing || isLoading}
+                        className={`w-full p-12 rounded-2xl border-2 border-dashed transition-all flex flex-col items-center gap-6 cursor-pointer ${isProcessing || isLoading ? 'bg-emerald-50 border-emerald-400 cursor-wait' : 'bg-white border-slate-200 hover:border-emerald-500 shadow-sm'}`}
+                      >
+                        <div className={`p-6 rounded-full ${isProcessing || isLoading ? 'bg-emerald-500 text-white animate-bounce' : 'bg-emerald-100 text-emerald-600 transition-colors'}`}><FileText size={48} /></div>
+                        <p className="text-xl font-bold text-slate-700">
+                          {isLoading ? 'Loading...' : isProcessing ? 'Processing PDF...' : 'Click to Upload PDF'}
+                        </p>
+                        {(isProcessing || isLoading) && !uploadJob && <div className="w-full max-w-xs bg-slate-200 h-1.5 rounded-full overflow-hidden mt-2"><div className="h-full bg-emerald-500 animate-progress"></div></div>}
+                      </button>
+                      {uploadJob && <JobProgress job={uploadJob} onCancel={canEdit ? () => handleCancelJob(uploadJob) : undefined} />}
+                    </div>
+                  </>
+                )}
+                {imports.length > 0 && (
+                  <ImportList imports={imports.slice(0, 5)} onRollback={canEdit ? handleRollbackImport : undefined} disabled={isProcessing} />
+                )}
+                {canEdit && trash && (trash.tournaments.length > 0 || trash.infographics.length > 0) && (
+                  <TrashPanel trash={trash} onRestore={handleRestoreFromTrash} onEmpty={isAdmin ? handleEmptyTrash : undefined} disabled={isProcessing} />
+                )}
               </div>
             </div>
           </div>
         )}
 
         {/* Filters Row */}
-        {activeTab !== AppTab.WELCOME && tournaments.length > 0 && (
+        {activeTab !== AppTab.WELCOME && storedCount > 0 && (
           <div className="mb-8 space-y-4 animate-in fade-in">
             <div className="flex flex-col md:flex-row justify-between items-center gap-4 bg-white p-4 rounded-2xl shadow-sm border border-slate-200">
               <div className="flex items-center gap-2 text-slate-500">
@@ -451,15 +880,22 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+              <FilterSearch label="Search" icon={<Search size={14}/>} value={searchText} onChange={setSearchText} placeholder="Name, venue or organiser" />
+              <FilterSelect label="Season" icon={<Archive size={14}/>} value={selectedSeason} onChange={handleSeasonChange} options={seasons} formatOption={s => s === ALL_SEASONS ? 'All seasons' : s} />
               <FilterSelect label="Gender" icon={<Users size={14}/>} value={selectedGender} onChange={setSelectedGender} options={genders} />
               <FilterSelect label="Grade" icon={<Shield size={14}/>} value={selectedGrade} onChange={setSelectedGrade} options={grades} />
               <FilterSelect label="Event Type" icon={<Zap size={14}/>} value={selectedType} onChange={setSelectedType} options={eventTypes} />
               <FilterSelect label="Age Group" icon={<GraduationCap size={14}/>} value={selectedCategory} onChange={setSelectedCategory} options={categories} />
+              <FilterSelect label="Section" icon={<Users size={14}/>} value={selectedGenderGroup} onChange={setSelectedGenderGroup} options={genderGroups} />
+              <FilterSelect label="County" icon={<MapPin size={14}/>} value={selectedCounty} onChange={setSelectedCounty} options={counties} formatOption={c => c === 'All' ? c : formatCounty(c)} />
+              <FilterSelect label="Entries" icon={<Clock size={14}/>} value={selectedStatus} onChange={setSelectedStatus} options={entryStatuses} formatOption={s => s === 'All' ? s : ENTRY_STATUS_LABELS[s as EntryStatus]} />
+              <FilterDate label="From" icon={<Calendar size={14}/>} value={dateFrom} onChange={setDateFrom} />
+              <FilterDate label="To" icon={<Calendar size={14}/>} value={dateTo} onChange={setDateTo} />
             </div>
 
             <div className="flex items-center gap-3 px-2">
-              <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Showing {filteredTournaments.length} results</span>
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Showing {tournaments.length} of {matchCount} results</span>
               <div className="h-px flex-1 bg-slate-200"></div>
             </div>
           </div>
@@ -471,32 +907,59 @@ const App: React.FC = () => {
             <div className="p-4 bg-gradient-to-r from-emerald-50 to-teal-50 border-b border-emerald-100 flex justify-between items-center">
               <div>
                 <h3 className="font-bold text-slate-800">All Events</h3>
-                <p className="text-sm text-slate-500">{filteredTournaments.length} tournaments displayed</p>
+                <p className="text-sm text-slate-500">{matchCount} tournaments match</p>
               </div>
-              <button
-                onClick={handleCreateInfographic}
-                disabled={isGeneratingInfographic || filteredTournaments.length === 0}
-                className={`flex items-center gap-2 px-4 py-2.5 rounded-xl font-bold text-sm transition-all ${
-                  isGeneratingInfographic
-                    ? 'bg-emerald-100 text-emerald-600 cursor-wait'
-                    : filteredTournaments.length === 0
-                    ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
-                    : 'bg-emerald-600 text-white hover:bg-emerald-700 shadow-lg hover:shadow-xl'
-                }`}
-              >
-                {isGeneratingInfographic ? (
-                  <>
-                    <Loader2 size={16} className="animate-spin" />
-                    Generating...
-                  </>
-                ) : (
-                  <>
-                    <Image size={16} />
-                    Create Infographic
-                  </>
+              <div className="flex items-center gap-2">
+                {needsReviewCount > 0 && (
+                  <button
+                    onClick={() => setShowNeedsReviewOnly(prev => !prev)}
+                    title="Show only rows where the parser defaulted important fields"
+                    className={`flex items-center gap-2 px-3 py-2.5 rounded-xl font-bold text-xs transition-all ${showNeedsReviewOnly ? 'bg-amber-500 text-white shadow-md' : 'bg-amber-100 text-amber-700 hover:bg-amber-200'}`}
+                  >
+                    <AlertTriangle size={14} />
+                    {needsReviewCount} need review
+                  </button>
                 )}
-              </button>
+                {canEdit && (
+                  <button
+                    onClick={handleCreateInfographic}
+                    disabled={isGeneratingInfographic || matchCount === 0}
+                    className={`flex items-center gap-2 px-4 py-2.5 rounded-xl font-bold text-sm transition-all ${
+                      isGeneratingInfographic
+                        ? 'bg-emerald-100 text-emerald-600 cursor-wait'
+                        : matchCount === 0
+                        ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
+                        : 'bg-emerald-600 text-white hover:bg-emerald-700 shadow-lg hover:shadow-xl'
+                    }`}
+                  >
+                    {isGeneratingInfographic ? (
+                      <>
+                        <Loader2 size={16} className="animate-spin" />
+                        {infographicJob?.status === 'queued' ? 'Queued...' : 'Generating...'}
+                      </>
+                    ) : (
+                      <>
+                        <Image size={16} />
+                        Create Infographic
+                      </>
+                    )}
+                  </button>
+                )}
+                {canEdit && infographicJob && (
+                  <button
+                    onClick={() => handleCancelJob(infographicJob)}
+                    disabled={infographicJob.cancelRequested}
+                    className="flex items-center gap-1 px-3 py-2.5 rounded-xl font-bold text-xs bg-slate-100 text-slate-600 hover:bg-rose-100 hover:text-rose-700 transition-all"
+                  >
+                    <X size={14} />
+                    Cancel
+                  </button>
+                )}
+              </div>
             </div>
+            {latestChanges.length > 0 && (
+              <ChangesPanel changes={latestChanges} isOpen={showChanges} onToggle={() => setShowChanges(prev => !prev)} />
+            )}
             <div className="overflow-x-auto">
               <table className="w-full text-left border-collapse">
                 <thead>
@@ -513,66 +976,124 @@ const App: React.FC = () => {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-100 text-sm">
-                  {filteredTournaments.map((t, idx) => (
-                    <tr key={`${t.id}-${idx}`} className="hover:bg-emerald-50/30 transition-colors group">
-                      <td className="px-4 py-4">
-                        <span className="text-[11px] text-emerald-600 font-mono font-bold">{t.ltaCode}</span>
-                      </td>
-                      <td className="px-4 py-4">
-                        <div className="font-bold text-slate-800">{t.title}</div>
-                      </td>
-                      <td className="px-4 py-4">
-                        <span className="px-2 py-1 bg-purple-100 text-purple-700 rounded-md text-[10px] font-bold">{t.category}</span>
-                      </td>
-                      <td className="px-4 py-4">
-                        <span className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase ${t.gender === 'Mixed' ? 'bg-amber-100 text-amber-700' : t.gender === 'Male' ? 'bg-blue-100 text-blue-700' : 'bg-rose-100 text-rose-700'}`}>{t.gender}</span>
-                      </td>
-                      <td className="px-4 py-4 text-center">
-                        <span className="px-2 py-1 bg-slate-100 rounded text-[9px] font-black text-slate-500 uppercase">{t.eventType}</span>
-                      </td>
-                      <td className="px-4 py-4 font-semibold text-slate-700 whitespace-nowrap">{t.date}</td>
-                      <td className="px-4 py-4 text-center font-black text-slate-400">{t.grade}</td>
-                      <td className="px-4 py-4">
-                        <div className="font-semibold text-slate-700">{stripPostcode(t.venue)}</div>
-                      </td>
-                      <td className="px-4 py-4">
-                        <div className="flex items-center justify-center gap-2">
-                          {t.organiserEmail && (
+                  {tournaments.map((t, idx) => (
+                    <React.Fragment key={`${t.id}-${idx}`}>
+                      <tr className={`transition-colors group ${needsReview(t) ? 'bg-amber-50/60 hover:bg-amber-50' : 'hover:bg-emerald-50/30'}`}>
+                        <td className="px-4 py-4">
+                          <div className="flex items-center gap-1.5">
+                            <span className="text-[11px] text-emerald-600 font-mono font-bold">{t.ltaCode}</span>
+                            {t.diagnostics && needsReview(t) && (
+                              <span title={`Low parse confidence (${Math.round(t.diagnostics.confidence * 100)}%). Defaulted: ${t.diagnostics.defaulted.join(', ')}`}>
+                                <AlertTriangle size={12} className="text-amber-500" />
+                              </span>
+                            )}
+                            {aiFieldsOf(t).length > 0 && (
+                              <span title={`Filled by AI: ${aiFieldsOf(t).join(', ')}`}>
+                                <Sparkles size={12} className="text-violet-500" />
+                              </span>
+                            )}
+                            {t.overrides && Object.keys(t.overrides).length > 0 && (
+                              <span title={`Edited by hand:\n${describeOverrides(t)}`}>
+                                <PencilLine size={12} className="text-indigo-500" />
+                              </span>
+                            )}
+                            <ChangeMarker change={changeById.get(t.id)} />
+                          </div>
+                        </td>
+                        <td className="px-4 py-4">
+                          <div className="font-bold text-slate-800">{t.title}</div>
+                        </td>
+                        <td className="px-4 py-4">
+                          <span className="px-2 py-1 bg-purple-100 text-purple-700 rounded-md text-[10px] font-bold">{t.category}</span>
+                        </td>
+                        <td className="px-4 py-4">
+                          <span className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase ${t.gender === 'Mixed' ? 'bg-amber-100 text-amber-700' : t.gender === 'Male' ? 'bg-blue-100 text-blue-700' : 'bg-rose-100 text-rose-700'}`}>{t.gender}</span>
+                        </td>
+                        <td className="px-4 py-4 text-center">
+                          <span className="px-2 py-1 bg-slate-100 rounded text-[9px] font-black text-slate-500 uppercase">{t.eventType}</span>
+                        </td>
+                        <td className="px-4 py-4 font-semibold text-slate-700 whitespace-nowrap">
+                          <div>{t.date}</div>
+                          <EntryStatusBadge status={entryStatusOf(t)} tournament={t} />
+                        </td>
+                        <td className="px-4 py-4 text-center font-black text-slate-400">{t.grade}</td>
+                        <td className="px-4 py-4">
+                          <div className="font-semibold text-slate-700">{stripPostcode(t.venue)}</div>
+                        </td>
+                        <td className="px-4 py-4">
+                          <div className="flex items-center justify-center gap-2">
+                            <button
+                              onClick={() => handleShowSource(t)}
+                              title="Show calendar source"
+                              className="p-2 bg-slate-100 text-slate-500 rounded-lg hover:bg-amber-100 hover:text-amber-600 transition-all"
+                            >
+                              <ScrollText size={14} />
+                            </button>
+                            {canEdit && (
+                              <button
+                                onClick={() => setEditingId(prev => prev === t.id ? null : t.id)}
+                                title="Edit details"
+                                className="p-2 bg-slate-100 text-slate-500 rounded-lg hover:bg-indigo-100 hover:text-indigo-600 transition-all"
+                              >
+                                <Pencil size={14} />
+                              </button>
+                            )}
+                            {t.organiserEmail && (
+                              <a
+                                href={`mailto:${t.organiserEmail}`}
+                                title={`Email: ${t.organiserEmail}`}
+                                className="p-2 bg-slate-100 text-slate-500 rounded-lg hover:bg-emerald-100 hover:text-emerald-600 transition-all"
+                              >
+                                <Mail size={14} />
+                              </a>
+                            )}
                             <a
-                              href={`mailto:${t.organiserEmail}`}
-                              title={`Email: ${t.organiserEmail}`}
-                              className="p-2 bg-slate-100 text-slate-500 rounded-lg hover:bg-emerald-100 hover:text-emerald-600 transition-all"
+                              href={getGoogleMapsLink(t.venue)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              title="View on Google Maps"
+                              className="p-2 bg-slate-100 text-slate-500 rounded-lg hover:bg-blue-100 hover:text-blue-600 transition-all"
                             >
-                              <Mail size={14} />
+                              <MapPin size={14} />
                             </a>
-                          )}
-                          <a
-                            href={getGoogleMapsLink(t.venue)}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            title="View on Google Maps"
-                            className="p-2 bg-slate-100 text-slate-500 rounded-lg hover:bg-blue-100 hover:text-blue-600 transition-all"
-                          >
-                            <MapPin size={14} />
-                          </a>
-                          <a
-                            href={getLTALink(t)}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            title="Enter on LTA"
-                            className="p-2 bg-slate-900 text-white rounded-lg hover:bg-emerald-600 transition-all shadow-md"
-                          >
-                            <ExternalLink size={14} />
-                          </a>
-                        </div>
-                      </td>
-                    </tr>
+                            <a
+                              href={getLTALink(t)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              title="Enter on LTA"
+                              className="p-2 bg-slate-900 text-white rounded-lg hover:bg-emerald-600 transition-all shadow-md"
+                            >
+                              <ExternalLink size={14} />
+                            </a>
+                          </div>
+                        </td>
+                      </tr>
+                      {editingId === t.id && (
+                        <EditTournamentRow
+                          tournament={t}
+                          onSave={edits => handleEditTournament(t, edits)}
+                          onCancel={() => setEditingId(null)}
+                        />
+                      )}
+                    </React.Fragment>
                   ))}
                 </tbody>
               </table>
-              {filteredTournaments.length === 0 && (
+              {tournaments.length === 0 && (
                 <div className="p-20 text-center text-slate-400 font-medium italic">No matches found.</div>
               )}
+              {tournaments.length < matchCount && (
+                <div className="p-4 text-center border-t border-slate-100">
+                  <button
+                    onClick={handleLoadMore}
+                    disabled={isLoadingMore}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold bg-slate-100 text-slate-600 hover:bg-emerald-100 hover:text-emerald-700 transition-all"
+                  >
+                    {isLoadingMore && <Loader2 size={14} className="animate-spin" />}
+                    Show more ({matchCount - tournaments.length} left)
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -581,7 +1102,7 @@ const App: React.FC = () => {
           <div className="bg-white rounded-2xl shadow-xl border border-slate-200 overflow-hidden animate-in fade-in">
             <div className="p-6 bg-emerald-50 border-b border-emerald-100">
               <h3 className="text-xl font-black text-slate-800 tracking-tight">St Ann's Tennis Tournaments</h3>
-              <p className="text-sm text-slate-500">Showing {stAnnsTournaments.length} tournaments at St Ann's Tennis Club</p>
+              <p className="text-sm text-slate-500">Showing {stAnnsTournaments.length < stAnnsTotal ? `${stAnnsTournaments.length} of ${stAnnsTotal}` : stAnnsTournaments.length} tournaments at St Ann's Tennis Club</p>
             </div>
             <div className="overflow-x-auto">
               <table className="w-full text-left border-collapse">
@@ -616,7 +1137,10 @@ const App: React.FC = () => {
                       <td className="px-4 py-4 text-center">
                         <span className="px-2 py-1 bg-slate-100 rounded text-[9px] font-black text-slate-500 uppercase">{t.eventType}</span>
                       </td>
-                      <td className="px-4 py-4 font-semibold text-slate-700 whitespace-nowrap">{t.date}</td>
+                      <td className="px-4 py-4 font-semibold text-slate-700 whitespace-nowrap">
+                        <div>{t.date}</div>
+                        <EntryStatusBadge status={entryStatusOf(t)} tournament={t} />
+                      </td>
                       <td className="px-4 py-4 text-center font-black text-slate-400">{t.grade}</td>
                       <td className="px-4 py-4">
                         <div className="font-semibold text-slate-700">{stripPostcode(t.venue)}</div>
@@ -717,13 +1241,15 @@ const App: React.FC = () => {
                         >
                           <Download size={20} />
                         </a>
-                        <button
-                          onClick={() => handleDeleteInfographic(info.id)}
-                          className="p-3 bg-white text-slate-700 rounded-xl hover:bg-rose-100 hover:text-rose-600 transition-all"
-                          title="Delete"
-                        >
-                          <X size={20} />
-                        </button>
+                        {canEdit && (
+                          <button
+                            onClick={() => handleDeleteInfographic(info.id)}
+                            className="p-3 bg-white text-slate-700 rounded-xl hover:bg-rose-100 hover:text-rose-600 transition-all"
+                            title="Delete"
+                          >
+                            <X size={20} />
+                          </button>
+                        )}
                       </div>
                     </div>
 
@@ -768,18 +1294,47 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {sourceView && (
+        <SourcePanel tournament={sourceView.tournament} source={sourceView.source} onClose={() => setSourceView(null)} />
+      )}
+
+      {showSignIn && (
+        <SignInDialog onSignIn={handleSignIn} onClose={() => setShowSignIn(false)} />
+      )}
+
+      {undo && (
+        <UndoToast message={undo.message} onUndo={() => handleRestoreFromTrash(undo.trash.batch)} onDismiss={() => setUndo(null)} />
+      )}
+
+      {syncNotice && (
+        <SyncNotice message={syncNotice} onDismiss={() => setSyncNotice(null)} />
+      )}
+
       <Logger logs={logs} onClear={() => setLogs([])} isOpen={isLogOpen} onClose={() => setIsLogOpen(false)} />
     </div>
   );
 };
 
+// Grouped entries of the Age Group filter, resolved by the server
+const AGE_FILTER_GROUPS = ['Juniors', 'Adults', 'Seniors', 'Red Ball', 'Orange Ball', 'Green Ball'];
+
+const GENDER_GROUP_ORDER = ['Boys', 'Girls', 'Men', 'Women', 'Mixed'];
+
+// Juniors by age, then Open, then seniors by age
+const ageGroupRank = (ageGroup: string): number => {
+  const age = parseInt(ageGroup, 10);
+  if (ageGroup.endsWith('U')) return age;
+  if (ageGroup === 'Open') return 100;
+  return 100 + age;
+};
+
 const TabButton: React.FC<{ active: boolean; disabled?: boolean; onClick: () => void; icon: React.ReactNode; label: string }> = ({ active, disabled, onClick, icon, label }) => (
   <button disabled={disabled} onClick={onClick} className={`flex items-center gap-2.5 px-8 py-5 font-bold text-xs uppercase tracking-[0.15em] whitespace-nowrap border-b-2 transition-all ${disabled ? 'opacity-30 cursor-not-allowed text-emerald-900 border-transparent' : active ? 'text-white border-white bg-emerald-600/20 shadow-[inset_0_-2px_0_white]' : 'text-emerald-200 border-transparent hover:text-white hover:bg-emerald-700/50'}`}>
     {icon} {label}
   </button>
 );
 
-const FilterSelect: React.FC<{ label: string; icon: React.ReactNode; value: string; onChange: (v: string) => void; options: string[] }> = ({ label, icon, value, onChange, options }) => (
+const FilterSelect: React.FC<{ label: string; icon: React.ReactNode; value: string; onChange: (v: string) => void; options: string[]; formatOption?: (v: string) => string }> = ({ label, icon, value, onChange, options, formatOption }) => (
   <div className="bg-white p-3 rounded-2xl border border-slate-200 shadow-sm flex items-center gap-3">
     <div className="p-2 bg-slate-50 text-slate-400 rounded-lg">{icon}</div>
     <div className="flex-1 min-w-0">
@@ -789,12 +1344,521 @@ const FilterSelect: React.FC<{ label: string; icon: React.ReactNode; value: stri
         onChange={(e) => onChange(e.target.value)}
         className="w-full bg-transparent text-sm font-bold text-slate-700 outline-none cursor-pointer focus:text-emerald-700 truncate"
       >
-        {options.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+        {options.map(opt => <option key={opt} value={opt}>{formatOption ? formatOption(opt) : opt}</option>)}
       </select>
     </div>
   </div>
 );
 
+const FilterSearch: React.FC<{ label: string; icon: React.ReactNode; value: string; onChange: (v: string) => void; placeholder?: string }> = ({ label, icon, value, onChange, placeholder }) => (
+  <div className="bg-white p-3 rounded-2xl border border-slate-200 shadow-sm flex items-center gap-3">
+    <div className="p-2 bg-slate-50 text-slate-400 rounded-lg">{icon}</div>
+    <div className="flex-1 min-w-0">
+      <div className="text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-0.5 truncate">{label}</div>
+      <input
+        type="search"
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full bg-transparent text-sm font-bold text-slate-700 outline-none placeholder:font-normal placeholder:text-slate-300 focus:text-emerald-700"
+      />
+    </div>
+  </div>
+);
+
+const FilterDate: React.FC<{ label: string; icon: React.ReactNode; value: string; onChange: (v: string) => void }> = ({ label, icon, value, onChange }) => (
+  <div className="bg-white p-3 rounded-2xl border border-slate-200 shadow-sm flex items-center gap-3">
+    <div className="p-2 bg-slate-50 text-slate-400 rounded-lg">{icon}</div>
+    <div className="flex-1 min-w-0">
+      <div className="text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-0.5 truncate">{label}</div>
+      <input
+        type="date"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full bg-transparent text-sm font-bold text-slate-700 outline-none cursor-pointer focus:text-emerald-700"
+      />
+    </div>
+  </div>
+);
+
+const ENTRY_STATUS_STYLES: Record<EntryStatus, string> = {
+  open: 'bg-emerald-100 text-emerald-700',
+  closing_soon: 'bg-amber-100 text-amber-700',
+  entries_closed: 'bg-rose-100 text-rose-700',
+  withdrawal_closed: 'bg-slate-100 text-slate-500',
+};
+
+// Deadline timestamps are shown in UK time, as printed in the calendar
+const formatDeadline = (iso: string | null): string =>
+  iso ? new Date(iso).toLocaleString('en-GB', { timeZone: 'Europe/London', dateStyle: 'medium', timeStyle: 'short' }) : 'N/A';
+
+const EntryStatusBadge: React.FC<{ status: EntryStatus | null; tournament: Tournament }> = ({ status, tournament }) => {
+  if (!status) return null;
+  return (
+    <span
+      title={`Closing: ${formatDeadline(tournament.deadlineCDAt)} · Withdrawal: ${formatDeadline(tournament.deadlineWDAt)}`}
+      className={`inline-block mt-1 px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-wide ${ENTRY_STATUS_STYLES[status]}`}
+    >
+      {ENTRY_STATUS_LABELS[status]}
+    </span>
+  );
+};
+
+// Labels for the fields compared on re-import
+const CHANGE_FIELD_LABELS: Record<string, string> = {
+  ltaCode: 'Code', title: 'Name', gender: 'Gender', eventType: 'Type', grade: 'Grade', venue: 'Venue', postcode: 'Postcode',
+  county: 'County', date: 'Date', month: 'Month', category: 'Age group', organiserEmail: 'Organiser',
+  deadlineCD: 'Closing deadline', deadlineWD: 'Withdrawal deadline',
+};
+
+const describeFieldChanges = (change: TournamentChange): string =>
+  change.changes.map(c => `${CHANGE_FIELD_LABELS[c.field] || c.field}: ${c.from || '—'} → ${c.to || '—'}`).join('\n');
+
+// Fields that can be edited by hand, in form order
+const EDITABLE_FIELDS: EditableField[] = [
+  'title', 'category', 'gender', 'eventType', 'grade', 'date', 'venue', 'postcode', 'organiserEmail', 'deadlineCD', 'deadlineWD',
+];
+
+const describeOverrides = (tournament: Tournament): string =>
+  Object.entries(tournament.overrides ?? {})
+    .map(([field, o]) => `${CHANGE_FIELD_LABELS[field] || field} (calendar: ${o.parsed || '—'})`)
+    .join('\n');
+
+const EditTournamentRow: React.FC<{
+  tournament: Tournament;
+  onSave: (edits: Partial<Record<EditableField, string | null>>) => void;
+  onCancel: () => void;
+}> = ({ tournament, onSave, onCancel }) => {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(EDITABLE_FIELDS.map(field => [field, tournament[field] ?? '']))
+  );
+  const changed = EDITABLE_FIELDS.filter(field => values[field].trim() !== (tournament[field] ?? ''));
+
+  return (
+    <tr className="bg-indigo-50/40">
+      <td colSpan={9} className="px-4 py-4">
+        <form
+          onSubmit={e => {
+            e.preventDefault();
+            onSave(Object.fromEntries(changed.map(field => [field, values[field]])));
+          }}
+          className="grid grid-cols-2 md:grid-cols-4 gap-3"
+        >
+          {EDITABLE_FIELDS.map(field => {
+            const override = tournament.overrides?.[field];
+            return (
+              <label key={field} className="flex flex-col gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <span className="flex items-center gap-2">
+                  {CHANGE_FIELD_LABELS[field] || field}
+                  {override && (
+                    <>
+                      <span title={`Calendar: ${override.parsed || '—'}`} className="px-1.5 rounded bg-indigo-100 text-indigo-700 text-[9px]">Edited</span>
+                      <button
+                        type="button"
+                        onClick={() => onSave({ [field]: null })}
+                        title={`Revert to the calendar value: ${override.parsed || '—'}`}
+                        className="flex items-center gap-0.5 text-slate-400 hover:text-indigo-600 transition-colors normal-case tracking-normal"
+                      >
+                        <Undo2 size={10} />
+                        Revert
+                      </button>
+                    </>
+                  )}
+                </span>
+                <input
+                  value={values[field]}
+                  onChange={e => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+                  className="px-2 py-1.5 rounded-lg border border-slate-200 bg-white text-sm font-semibold text-slate-700 normal-case tracking-normal focus:outline-none focus:border-indigo-400"
+                />
+              </label>
+            );
+          })}
+          <div className="col-span-full flex items-center justify-end gap-2">
+            <button type="button" onClick={onCancel} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 transition-all">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={changed.length === 0}
+              className="px-3 py-1.5 rounded-lg text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40 transition-all"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </td>
+    </tr>
+  );
+};
+
+const ChangeMarker: React.FC<{ change?: TournamentChange }> = ({ change }) => {
+  if (!change || change.changeType === 'disappeared') return null;
+  if (change.changeType === 'added') {
+    return <span title="New in the latest calendar" className="px-1.5 rounded bg-sky-100 text-sky-700 text-[9px] font-black uppercase">New</span>;
+  }
+  return (
+    <span title={`Changed in the latest calendar:\n${describeFieldChanges(change)}`}>
+      <History size={12} className="text-sky-600" />
+    </span>
+  );
+};
+
+const ChangesPanel: React.FC<{ changes: TournamentChange[]; isOpen: boolean; onToggle: () => void }> = ({ changes, isOpen, onToggle }) => {
+  const updated = changes.filter(c => c.changeType === 'updated');
+  const added = changes.filter(c => c.changeType === 'added');
+  const disappeared = changes.filter(c => c.changeType === 'disappeared');
+  const importedAt = new Date(changes[0].importedAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+
+  return (
+    <div className="border-b border-sky-100 bg-sky-50/60">
+      <button onClick={onToggle} className="w-full px-4 py-3 flex items-center gap-2 text-left text-sm text-sky-800">
+        <History size={16} />
+        <span className="font-bold">Changes since the last calendar</span>
+        <span className="text-sky-600">
+          {added.length} new · {updated.length} updated · {disappeared.length} no longer listed · {importedAt}
+        </span>
+        <span className="ml-auto text-xs font-bold uppercase tracking-widest">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3 text-xs text-slate-700 max-h-80 overflow-y-auto">
+          {updated.map(change => (
+            <div key={change.id}>
+              <div className="font-bold"><span className="font-mono text-emerald-600">{change.ltaCode}</span> {change.title}</div>
+              <ul className="ml-4 list-disc">
+                {change.changes.map(c => (
+                  <li key={c.field}>
+                    {CHANGE_FIELD_LABELS[c.field] || c.field}: <span className="line-through text-slate-400">{c.from || '—'}</span> → <span className="font-bold">{c.to || '—'}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          {disappeared.length > 0 && (
+            <div>
+              <div className="font-bold text-rose-700">No longer listed</div>
+              <ul className="ml-4 list-disc">
+                {disappeared.map(change => (
+                  <li key={change.id}><span className="font-mono">{change.ltaCode}</span> {change.title}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {added.length > 0 && (
+            <div>
+              <div className="font-bold text-sky-700">New</div>
+              <ul className="ml-4 list-disc">
+                {added.map(change => (
+                  <li key={change.id}><span className="font-mono">{change.ltaCode}</span> {change.title}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ImportList: React.FC<{ imports: ImportRecord[]; onRollback?: (importRecord: ImportRecord) => void; disabled: boolean }> = ({ imports, onRollback, disabled }) => {
+  // Only the newest import still in effect can be rolled back
+  const latestActive = imports.find(i => !i.rolledBackAt);
+  return (
+    <div className="mt-8 text-left">
+      <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Recent imports</h3>
+      <ul className="divide-y divide-slate-100 border border-slate-100 rounded-xl text-sm">
+        {imports.map(i => (
+          <li key={i.id} className={`flex items-center gap-3 px-4 py-2 ${i.rolledBackAt ? 'text-slate-400' : 'text-slate-700'}`}>
+            <div className="flex-1 min-w-0">
+              <div className={`font-bold truncate ${i.rolledBackAt ? 'line-through' : ''}`}>{i.filename}</div>
+              <div className="text-xs text-slate-400">
+                {new Date(i.importedAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })} · {i.pageCount} pages · {i.added} new · {i.updated} updated
+                {i.rolledBackAt && ' · rolled back'}
+              </div>
+            </div>
+            {onRollback && i === latestActive && (
+              <button
+                onClick={() => onRollback(i)}
+                disabled={disabled}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-100 text-slate-600 hover:bg-rose-100 hover:text-rose-700 transition-all"
+              >
+                <Undo2 size={12} />
+                Roll back
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+// A background job's stage and progress, e.g. "Extracting page 12 of 80"
+const JobProgress: React.FC<{ job: Job; onCancel?: () => void }> = ({ job, onCancel }) => {
+  const percent = job.progress && job.progress.total > 0 ? Math.round(job.progress.current / job.progress.total * 100) : null;
+  return (
+    <div className="mt-4 flex items-center gap-3 text-left">
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-bold text-slate-700 truncate">
+          {job.cancelRequested ? 'Cancelling...' : job.status === 'queued' ? `Waiting for earlier jobs: ${job.label}` : job.message ?? `Starting on ${job.label}`}
+        </div>
+        <div className="w-full bg-slate-200 h-1.5 rounded-full overflow-hidden mt-2">
+          {percent === null
+            ? <div className="h-full bg-emerald-500 animate-progress"></div>
+            : <div className="h-full bg-emerald-500 transition-all" style={{ width: `${percent}%` }}></div>}
+        </div>
+      </div>
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          disabled={job.cancelRequested}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-100 text-slate-600 hover:bg-rose-100 hover:text-rose-700 transition-all"
+        >
+          <X size={12} />
+          Cancel
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Deleted items grouped by the delete that removed them, most recent first
+const TrashPanel: React.FC<{ trash: Trash; onRestore: (batch: string) => void; onEmpty?: () => void; disabled: boolean }> = ({ trash, onRestore, onEmpty, disabled }) => {
+  const batches = new Map<string, { deletedAt: string; tournaments: Tournament[]; infographics: InfographicMetadata[] }>();
+  const batchOf = (item: { deleteBatch?: string | null; deletedAt?: string | null }) => {
+    const key = item.deleteBatch ?? '';
+    if (!batches.has(key)) batches.set(key, { deletedAt: item.deletedAt ?? '', tournaments: [], infographics: [] });
+    return batches.get(key)!;
+  };
+  trash.tournaments.forEach(t => batchOf(t).tournaments.push(t));
+  trash.infographics.forEach(i => batchOf(i).infographics.push(i));
+  const sorted = [...batches.entries()].sort(([, a], [, b]) => b.deletedAt.localeCompare(a.deletedAt));
+
+  const describe = ({ tournaments, infographics }: { tournaments: Tournament[]; infographics: InfographicMetadata[] }) => {
+    const parts: string[] = [];
+    if (tournaments.length === 1) parts.push(`${tournaments[0].ltaCode} ${tournaments[0].title}`);
+    else if (tournaments.length > 1) parts.push(`${tournaments.length} tournaments`);
+    if (infographics.length > 0) parts.push(infographics.length === 1 ? 'Infographic' : `${infographics.length} infographics`);
+    return parts.join(' and ');
+  };
+
+  return (
+    <div className="mt-8 text-left">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Trash · purged after {trash.retentionDays} days</h3>
+        {onEmpty && (
+          <button onClick={onEmpty} disabled={disabled} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-rose-600 transition-colors">
+            Empty trash
+          </button>
+        )}
+      </div>
+      <ul className="divide-y divide-slate-100 border border-slate-100 rounded-xl text-sm">
+        {sorted.map(([batch, group]) => (
+          <li key={batch} className="flex items-center gap-3 px-4 py-2 text-slate-700">
+            <div className="flex-1 min-w-0">
+              <div className="font-bold truncate">{describe(group)}</div>
+              <div className="text-xs text-slate-400">
+                Deleted {new Date(group.deletedAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}
+              </div>
+            </div>
+            <button
+              onClick={() => onRestore(batch)}
+              disabled={disabled}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-100 text-slate-600 hover:bg-emerald-100 hover:text-emerald-700 transition-all"
+            >
+              <Undo2 size={12} />
+              Restore
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const ROLE_RANK: Record<Role, number> = { viewer: 0, editor: 1, admin: 2 };
+
+// Same ranking as the server: admins can do what editors can, editors what viewers can
+const hasRole = (user: Principal | null, role: Role): boolean => !!user && ROLE_RANK[user.role] >= ROLE_RANK[role];
+
+const SignInDialog: React.FC<{ onSignIn: (username: string, password: string) => Promise<void>; onClose: () => void }> = ({ onSignIn, onClose }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSignIn(username, password);
+    } catch (err: any) {
+      setError(err.message);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <form onSubmit={submit} className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center gap-3">
+          <LogIn size={18} className="text-emerald-600" />
+          <div className="flex-1 font-bold text-slate-800">Sign in</div>
+          <button type="button" onClick={onClose} title="Close" className="p-2 rounded-lg text-slate-400 hover:bg-slate-100">
+            <X size={16} />
+          </button>
+        </div>
+        <div className="p-6 space-y-4">
+          <label className="flex flex-col gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            Username
+            <input
+              value={username}
+              onChange={e => setUsername(e.target.value)}
+              autoComplete="username"
+              autoFocus
+              className="px-3 py-2 rounded-lg border border-slate-200 text-sm font-semibold text-slate-700 normal-case tracking-normal focus:outline-none focus:border-emerald-400"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            Password
+            <input
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              autoComplete="current-password"
+              className="px-3 py-2 rounded-lg border border-slate-200 text-sm font-semibold text-slate-700 normal-case tracking-normal focus:outline-none focus:border-emerald-400"
+            />
+          </label>
+          {error && <div className="text-sm text-rose-600">{error}</div>}
+          <button
+            type="submit"
+            disabled={isSubmitting || !username || !password}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl font-bold text-sm bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-40 transition-all"
+          >
+            {isSubmitting && <Loader2 size={14} className="animate-spin" />}
+            Sign in
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+const UndoToast: React.FC<{ message: string; onUndo: () => void; onDismiss: () => void }> = ({ message, onUndo, onDismiss }) => (
+  <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 px-5 py-3 rounded-xl bg-slate-900 text-white text-sm shadow-2xl">
+    <span>{message}</span>
+    <button onClick={onUndo} className="flex items-center gap-1 font-bold text-emerald-300 hover:text-emerald-200 transition-colors">
+      <Undo2 size={14} />
+      Undo
+    </button>
+    <button onClick={onDismiss} className="text-slate-400 hover:text-white transition-colors" aria-label="Dismiss">
+      <X size={14} />
+    </button>
+  </div>
+);
+
+const SyncNotice: React.FC<{ message: string; onDismiss: () => void }> = ({ message, onDismiss }) => (
+  <div className="fixed top-20 right-4 z-40 flex items-center gap-3 px-4 py-2.5 rounded-xl bg-white border border-emerald-200 text-sm text-slate-700 shadow-lg">
+    <RefreshCw size={14} className="text-emerald-600" />
+    <span>{message}</span>
+    <button onClick={onDismiss} className="text-slate-400 hover:text-slate-700 transition-colors" aria-label="Dismiss">
+      <X size={14} />
+    </button>
+  </div>
+);
+
+// A pushed change in words: "3 tournaments updated", "Imported calendar.pdf: 12 tournaments added (by Sam)"
+const describeChange = (change: DataChange): string => {
+  if (change.action === 'replaced') return 'The data was replaced; showing the latest';
+
+  const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+  const parts = [
+    ...(['added', 'updated', 'deleted'] as const)
+      .filter(kind => change.tournaments[kind].length > 0)
+      .map(kind => `${count(change.tournaments[kind].length, 'tournament')} ${kind}`),
+    ...(['added', 'deleted'] as const)
+      .filter(kind => change.infographics[kind].length > 0)
+      .map(kind => `${count(change.infographics[kind].length, 'infographic')} ${kind}`),
+  ];
+  const summary = change.import
+    ? `${change.import.rolledBackAt ? 'Rolled back' : 'Imported'} ${change.import.filename}: ${parts.join(', ')}`
+    : parts.join(', ');
+  return change.by ? `${summary} (by ${change.by})` : summary;
+};
+
+// Highlight colours in priority order: where spans overlap (a postcode inside the venue) the first one wins
+const SOURCE_FIELD_STYLES: [field: string, className: string][] = [
+  ['ltaCode', 'bg-emerald-200'], ['postcode', 'bg-teal-200'], ['organiserEmail', 'bg-slate-200'],
+  ['deadlineCD', 'bg-rose-200'], ['deadlineWD', 'bg-orange-200'], ['date', 'bg-amber-200'],
+  ['gender', 'bg-blue-200'], ['eventType', 'bg-indigo-200'], ['grade', 'bg-violet-200'],
+  ['title', 'bg-lime-200'], ['venue', 'bg-sky-200'],
+];
+
+const highlightSource = (source: TournamentSource): { text: string; field: string | null }[] => {
+  const fieldAt = (index: number) =>
+    SOURCE_FIELD_STYLES.find(([field]) => source.fields[field] && index >= source.fields[field].start && index < source.fields[field].end)?.[0] ?? null;
+
+  const segments: { text: string; field: string | null }[] = [];
+  for (let i = 0; i < source.text.length; i++) {
+    const field = fieldAt(i);
+    const last = segments[segments.length - 1];
+    if (last && last.field === field) {
+      last.text += source.text[i];
+    } else {
+      segments.push({ text: source.text[i], field });
+    }
+  }
+  return segments;
+};
+
+const SourcePanel: React.FC<{ tournament: Tournament; source?: TournamentSource | null; onClose: () => void }> = ({ tournament, source, onClose }) => {
+  const styles = new Map(SOURCE_FIELD_STYLES);
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center gap-3">
+          <ScrollText size={18} className="text-amber-600" />
+          <div className="flex-1 min-w-0">
+            <div className="font-bold text-slate-800 truncate"><span className="font-mono text-emerald-600">{tournament.ltaCode}</span> {tournament.title}</div>
+            {source && (
+              <div className="text-xs text-slate-400">
+                {source.page ? `Page ${source.page}` : 'Page unknown'} · characters {source.start}–{source.end} of the extracted text
+              </div>
+            )}
+          </div>
+          <button onClick={onClose} title="Close" className="p-2 rounded-lg text-slate-400 hover:bg-slate-100">
+            <X size={16} />
+          </button>
+        </div>
+        <div className="p-6">
+          {source === undefined && (
+            <div className="flex items-center gap-2 text-sm text-slate-400"><Loader2 size={14} className="animate-spin" /> Loading source…</div>
+          )}
+          {source === null && (
+            <div className="text-sm text-slate-500 italic">No source recorded. This tournament was stored before sources were kept; re-import the calendar to record it.</div>
+          )}
+          {source && (
+            <>
+              <pre className="whitespace-pre-wrap break-words font-mono text-xs leading-relaxed text-slate-700 bg-slate-50 rounded-xl p-4 max-h-80 overflow-y-auto">
+                {highlightSource(source).map((segment, i) => segment.field ? (
+                  <mark key={i} title={CHANGE_FIELD_LABELS[segment.field] || segment.field} className={`${styles.get(segment.field)} text-slate-900 rounded-sm`}>{segment.text}</mark>
+                ) : (
+                  <span key={i}>{segment.text}</span>
+                ))}
+              </pre>
+              <div className="mt-3 flex flex-wrap gap-2 text-[10px] font-bold text-slate-600">
+                {SOURCE_FIELD_STYLES.filter(([field]) => source.fields[field]).map(([field, className]) => (
+                  <span key={field} className={`px-2 py-0.5 rounded ${className}`}>{CHANGE_FIELD_LABELS[field] || field}</span>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const SortableHeader: React.FC<{
   label: string;
   column: string;
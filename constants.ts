@@ -1,8 +1,30 @@
+import { EntryStatus } from "./types";
+
 
 export const CLUB_NAME = "St Ann's Wells Tennis Club";
 export const CLUB_LOCATION = "Brighton & Hove";
 export const STANN_POSTCODE = "BN3 1RP";
 
+// LTA county prefixes used in tournament codes (e.g. SUS-25-0455)
+export const COUNTY_NAMES: Record<string, string> = {
+  SUS: "Sussex",
+  SUR: "Surrey",
+  KEN: "Kent",
+  HAM: "Hampshire & IoW",
+};
+
+export const DEFAULT_COUNTIES = ["SUS"];
+
+// Matches the server parser: rows below this confidence need a manual check
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export const ENTRY_STATUS_LABELS: Record<EntryStatus, string> = {
+  open: "Open",
+  closing_soon: "Closing soon",
+  entries_closed: "Entries closed",
+  withdrawal_closed: "Withdrawal closed",
+};
+
 export const MOCK_VENUES: Record<string, { lat: number; lng: number }> = {
   "Henfield Tennis Club": { lat: 50.9324, lng: -0.2758 },
   "St Ann's Wells Tennis Club": { lat: 50.8305, lng: -0.1554 },
@@ -0,0 +1,960 @@
+import { s, Schema, Infer, JsonSchema, toJsonSchema } from './schema.js';
+import { DIAGNOSED_FIELDS } from './parser.js';
+
+/**
+ * The API contract: every model the server sends or accepts and every route,
+ * in one place. db.ts takes its types from the models, index.ts validates
+ * requests (and, outside production, responses) against the routes, the
+ * server publishes them as an OpenAPI document, and clientGenerator.ts writes
+ * the frontend's typed client from them.
+ */
+
+// ============ MODELS ============
+
+export const ENTRY_STATUSES = ['open', 'closing_soon', 'entries_closed', 'withdrawal_closed'] as const;
+export const ARCHIVE_FILTERS = ['exclude', 'include', 'only'] as const;
+export const TOURNAMENT_SORTS = ['date', 'ltaCode', 'title', 'category', 'gender', 'eventType', 'grade', 'venue'] as const;
+export const ROLES = ['admin', 'editor', 'viewer'] as const;
+export const EXTRACTION_MODES = ['layout', 'text', 'hybrid'] as const;
+export const JOB_TYPES = ['import', 'infographic'] as const;
+export const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'] as const;
+export const JOB_STAGES = ['extracting', 'parsing', 'ai', 'saving', 'generating'] as const;
+export const DATA_CHANGE_ACTIONS = ['added', 'updated', 'deleted', 'imported', 'replaced'] as const;
+
+export const MIN_PASSWORD_LENGTH = 10;
+export const MAX_PAGE_SIZE = 500;
+export const MAX_JOB_PAGE_SIZE = 100;
+
+const isoDate = s.string({ pattern: /^\d{4}-\d{2}-\d{2}$/, message: 'must be an ISO date (YYYY-MM-DD)' });
+const nullableString = () => s.nullable(s.string());
+const optionalNullableString = () => s.optional(s.nullable(s.string()));
+
+export const EntryStatusSchema = s.ref('EntryStatus', s.describe(
+  'Entry window at request time, derived from the deadlines: CD closes entries, WD closes withdrawals',
+  s.enum(ENTRY_STATUSES)
+));
+export const GenderGroupSchema = s.ref('GenderGroup', s.enum(['Boys', 'Girls', 'Men', 'Women', 'Mixed']));
+export const BallColourSchema = s.ref('BallColour', s.enum(['red', 'orange', 'green']));
+export const EditableFieldSchema = s.ref('EditableField', s.describe(
+  'Fields the diagnostics score, which are also the ones AI extraction and hand edits can set',
+  s.enum(DIAGNOSED_FIELDS)
+));
+export const RoleSchema = s.ref('Role', s.describe(
+  'Viewers can read, editors can also change tournaments and infographics, admins can do everything',
+  s.enum(ROLES)
+));
+export const ArchiveFilterSchema = s.ref('ArchiveFilter', s.describe(
+  'Archived (ended) tournaments are left out unless included, or listed on their own with "only"',
+  s.enum(ARCHIVE_FILTERS)
+));
+export const TournamentSortSchema = s.ref('TournamentSort', s.enum(TOURNAMENT_SORTS));
+export const ChangeTypeSchema = s.ref('ChangeType', s.enum(['added', 'updated', 'disappeared']));
+
+export const ParseDiagnosticsSchema = s.ref('ParseDiagnostics', s.describe(
+  'Which fields the parser found and which it had to fill with a placeholder',
+  s.object({
+    confidence: s.describe('Weighted share of fields that were extracted, from 0 to 1', s.number({ minimum: 0, maximum: 1 })),
+    extracted: s.array(s.string()),
+    defaulted: s.array(s.string()),
+    engines: s.describe(
+      'Which engine produced each extracted field ("regex" or the AI provider\'s name); only set by the hybrid pipeline',
+      s.optional(s.record(s.string()))
+    ),
+  })
+));
+
+const categoryGroupProperties = {
+  ageGroup: s.describe('"8U".."18U", "Open" or "35+".."75+"; null when the section is unknown', nullableString()),
+  genderGroup: s.nullable(GenderGroupSchema),
+  ballColour: s.describe('Only for the red/orange/green ball age groups (8U-10U)', s.nullable(BallColourSchema)),
+};
+
+export const CategoryGroupsSchema = s.ref('CategoryGroups', s.describe(
+  'Structured form of a category label like "12U Boys" or "45+ Women"',
+  s.object(categoryGroupProperties)
+));
+
+export const SourceSpanSchema = s.ref('SourceSpan', s.describe(
+  'Character range within a source snippet',
+  s.object({ start: s.integer(), end: s.integer() })
+));
+
+export const TournamentSourceSchema = s.ref('TournamentSource', s.describe(
+  'Where a parsed tournament came from in the text extracted from the PDF',
+  s.object({
+    page: s.describe('1-based PDF page the entry starts on; null when the text carried no page information', s.nullable(s.integer({ minimum: 1 }))),
+    text: s.describe('The entry\'s raw text, exactly as extracted', s.string()),
+    start: s.describe('Offsets of `text` in the full extracted text the parser read', s.integer()),
+    end: s.integer(),
+    fields: s.describe('Where each extracted field\'s value appears in `text`', s.record(SourceSpanSchema)),
+  })
+));
+
+export const FieldOverrideSchema = s.ref('FieldOverride', s.describe(
+  'A field edited by hand; `parsed` is what the latest import read, shown when reverting',
+  s.object({ value: s.string(), parsed: s.string(), editedAt: s.string() })
+));
+
+export const FieldOverridesSchema = s.ref('FieldOverrides', s.partialRecord(EditableFieldSchema, FieldOverrideSchema));
+
+export const TournamentSchema = s.ref('Tournament', s.object({
+  id: s.string(),
+  title: s.string(),
+  gender: s.string(),
+  eventType: s.string(),
+  grade: s.string(),
+  venue: s.string(),
+  postcode: s.string(),
+  ltaCode: s.string(),
+  county: s.string(),
+  date: s.string(),
+  month: s.string(),
+  startDate: s.describe('ISO dates (YYYY-MM-DD), null when the calendar gives no date', nullableString()),
+  endDate: nullableString(),
+  season: s.describe('LTA season from the code, e.g. "2025/26"; null when the code has no year', nullableString()),
+  category: s.string(),
+  ...categoryGroupProperties,
+  organiserEmail: s.string(),
+  deadlineCD: s.string(),
+  deadlineWD: s.string(),
+  deadlineCDAt: s.describe('UTC ISO timestamps of the UK-local deadlines, null for "N/A" or unreadable values', nullableString()),
+  deadlineWDAt: nullableString(),
+  entryStatus: s.describe('Added when tournaments are served; null when no deadline is known', s.optional(s.nullable(EntryStatusSchema))),
+  diagnostics: s.describe('Null for rows stored before diagnostics were recorded', s.nullable(ParseDiagnosticsSchema)),
+  importId: s.describe(
+    'Import that created or last changed the stored row; not set on freshly parsed tournaments',
+    s.optional(s.nullable(s.integer()))
+  ),
+  source: s.describe(
+    'Raw text the tournament was parsed from; left out of list responses',
+    s.optional(s.nullable(TournamentSourceSchema))
+  ),
+  overrides: s.describe(
+    'Hand-edited fields; the other fields hold the edited values, and re-imports keep them',
+    s.optional(s.nullable(FieldOverridesSchema))
+  ),
+  archivedAt: s.describe(
+    'Set once the tournament has ended; archived tournaments are left out of lists unless asked for',
+    optionalNullableString()
+  ),
+  deletedAt: s.describe(
+    'Set while the tournament is in the trash; deleteBatch is shared by everything one delete removed',
+    optionalNullableString()
+  ),
+  deleteBatch: optionalNullableString(),
+  createdAt: s.describe('When the row was stored and last written; not set on freshly parsed tournaments', s.optional(s.string())),
+  updatedAt: s.optional(s.string()),
+}));
+
+export const FieldChangeSchema = s.ref('FieldChange', s.object({
+  field: s.string(),
+  from: nullableString(),
+  to: nullableString(),
+}));
+
+export const TournamentChangeSchema = s.ref('TournamentChange', s.describe(
+  'One entry in a tournament\'s history, written when an upload adds, changes or no longer lists it',
+  s.object({
+    id: s.integer(),
+    tournamentId: s.string(),
+    ltaCode: s.string(),
+    title: s.string(),
+    changeType: ChangeTypeSchema,
+    changes: s.describe('Only set for updates', s.array(FieldChangeSchema)),
+    importedAt: s.string(),
+    importId: s.nullable(s.integer()),
+  })
+));
+
+const countiesSchema = s.union(
+  [s.literal('all'), s.array(s.string({ pattern: /^[A-Za-z]{3}$/ }))],
+  'must be 3-letter LTA prefixes like "SUS,SUR", or "all"'
+);
+
+export const ImportRecordSchema = s.ref('ImportRecord', s.describe(
+  'An uploaded PDF and what it did to the stored tournaments',
+  s.object({
+    id: s.integer(),
+    filename: s.string(),
+    sha256: s.describe('SHA-256 of the uploaded file, used to reject identical re-uploads', s.string()),
+    importedAt: s.string(),
+    pageCount: s.integer(),
+    mode: s.string(),
+    counties: s.union([s.literal('all'), s.array(s.string())]),
+    parsed: s.integer(),
+    added: s.integer(),
+    updated: s.integer(),
+    unchanged: s.integer(),
+    disappeared: s.integer(),
+    rolledBackAt: s.describe('Set once the import was rolled back', nullableString()),
+  })
+));
+
+export const ParseWarningsSchema = s.ref('ParseWarnings', s.object({
+  averageConfidence: s.number(),
+  lowConfidence: s.integer(),
+  lowConfidenceIds: s.array(s.string()),
+  defaultedFields: s.describe('How many tournaments had each field defaulted', s.record(s.integer())),
+}));
+
+export const AiExtractionSummarySchema = s.ref('AiExtractionSummary', s.describe(
+  'What the hybrid pipeline\'s AI step did during an upload',
+  s.object({
+    provider: s.describe('Provider used, null when no provider is configured', nullableString()),
+    aiEntries: s.describe('Entries sent to the provider and fields it filled in', s.integer()),
+    aiFields: s.integer(),
+    error: s.describe('Set when the provider failed; the regex results are kept', s.optional(s.string())),
+  })
+));
+
+export const InfographicFiltersSchema = s.ref('InfographicFilters', s.object({
+  month: s.optional(s.string()),
+  gender: s.optional(s.string()),
+  grade: s.optional(s.string()),
+  eventType: s.optional(s.string()),
+  ageGroup: s.optional(s.string()),
+}));
+
+export const InfographicMetadataSchema = s.ref('InfographicMetadata', s.describe(
+  'A generated infographic image and what it showed',
+  s.object({
+    id: s.string(),
+    filename: s.string(),
+    prompt: s.string(),
+    filters: InfographicFiltersSchema,
+    tournamentCount: s.integer(),
+    tournamentIds: s.describe(
+      'Tournaments listed on the image, in order; empty for infographics from before links were kept',
+      s.array(s.string())
+    ),
+    createdAt: s.string(),
+    deletedAt: s.describe('Set while the infographic is in the trash', optionalNullableString()),
+    deleteBatch: optionalNullableString(),
+  })
+));
+
+export const TrashBatchSchema = s.ref('TrashBatch', s.describe(
+  'What one delete moved to the trash; restoring `batch` undoes it',
+  s.object({
+    batch: s.string(),
+    deletedAt: s.string(),
+    tournaments: s.integer(),
+    infographics: s.integer(),
+  })
+));
+
+export const TournamentFacetsSchema = s.ref('TournamentFacets', s.describe(
+  'Values present in the stored tournaments, for filter dropdowns. Everything but total, archived and seasons is limited to the requested scope',
+  s.object({
+    total: s.describe('All stored tournaments, archived ones included', s.integer()),
+    archived: s.integer(),
+    seasons: s.describe('Newest first', s.array(s.string())),
+    needsReview: s.integer(),
+    months: s.describe('Ordered by their earliest event; undated labels last', s.array(s.string())),
+    genders: s.array(s.string()),
+    grades: s.array(s.string()),
+    eventTypes: s.array(s.string()),
+    counties: s.array(s.string()),
+    ageGroups: s.array(s.string()),
+    genderGroups: s.array(s.string()),
+  })
+));
+
+export const UserSchema = s.ref('User', s.object({
+  id: s.integer(),
+  username: s.string(),
+  role: RoleSchema,
+  createdAt: s.string(),
+}));
+
+export const ApiKeySchema = s.ref('ApiKey', s.describe(
+  'Only the key\'s hash is stored; `prefix` is its start, to tell keys apart',
+  s.object({
+    id: s.integer(),
+    name: s.string(),
+    role: RoleSchema,
+    prefix: s.string(),
+    createdAt: s.string(),
+    lastUsedAt: nullableString(),
+    revokedAt: nullableString(),
+  })
+));
+
+export const PrincipalSchema = s.ref('Principal', s.describe(
+  'Who made a request, and how they proved it',
+  s.object({
+    name: s.string(),
+    role: RoleSchema,
+    via: s.enum(['session', 'apiKey', 'adminToken']),
+  })
+));
+
+export const SnapshotInfoSchema = s.ref('SnapshotInfo', s.object({
+  name: s.string(),
+  size: s.integer(),
+  createdAt: s.string(),
+}));
+
+const restoreResultProperties = {
+  backupCreatedAt: s.string(),
+  schemaVersion: s.describe('Schema version of the backup, before it was migrated to this build\'s', s.integer()),
+  counts: s.object({ tournaments: s.integer(), imports: s.integer(), infographics: s.integer() }),
+  images: s.integer(),
+  safetySnapshot: s.describe('Snapshot of the data the restore replaced', s.string()),
+};
+
+export const RestoreResultSchema = s.ref('RestoreResult', s.object(restoreResultProperties));
+
+export const JobTypeSchema = s.ref('JobType', s.enum(JOB_TYPES));
+export const JobStatusSchema = s.ref('JobStatus', s.describe(
+  'succeeded, failed and cancelled jobs are finished and never change again',
+  s.enum(JOB_STATUSES)
+));
+export const JobStageSchema = s.ref('JobStage', s.enum(JOB_STAGES));
+
+export const ImportResultSchema = s.ref('ImportResult', s.describe(
+  'What a calendar upload did to the stored tournaments',
+  s.object({
+    parsed: s.integer(),
+    counties: s.union([s.literal('all'), s.array(s.string())]),
+    import: ImportRecordSchema,
+    added: s.integer(),
+    updated: s.integer(),
+    unchanged: s.integer(),
+    disappeared: s.integer(),
+    importedAt: s.string(),
+    changes: s.array(TournamentChangeSchema),
+    warnings: ParseWarningsSchema,
+    ai: s.describe('Only set in hybrid mode', s.optional(AiExtractionSummarySchema)),
+    total: s.describe('Tournaments stored after the upload', s.integer()),
+  })
+));
+
+export const InfographicResultSchema = s.ref('InfographicResult', s.object({
+  infographic: InfographicMetadataSchema,
+  imageUrl: s.string(),
+}));
+
+export const JobSchema = s.ref('Job', s.describe(
+  'A calendar upload or infographic being worked on in the background. Jobs run one at a time, oldest first; one interrupted by a restart runs again from the start',
+  s.object({
+    id: s.string(),
+    type: JobTypeSchema,
+    label: s.describe('What the job works on: the PDF\'s filename, or the infographic\'s tournaments', s.string()),
+    status: JobStatusSchema,
+    stage: s.describe('What a running job is doing', s.nullable(JobStageSchema)),
+    progress: s.describe(
+      'How far the stage has got, e.g. page 12 of 80',
+      s.nullable(s.object({ current: s.integer(), total: s.integer() }))
+    ),
+    message: s.describe('The stage and progress in words', nullableString()),
+    result: s.describe(
+      'Set once the job succeeded: an ImportResult for imports, an InfographicResult for infographics',
+      s.nullable(s.union([ImportResultSchema, InfographicResultSchema]))
+    ),
+    error: s.describe('Why the job failed', nullableString()),
+    cancelRequested: s.boolean(),
+    attempts: s.describe('Times the job was started', s.integer()),
+    createdAt: s.string(),
+    startedAt: nullableString(),
+    finishedAt: nullableString(),
+  })
+));
+
+export const DataChangeActionSchema = s.ref('DataChangeAction', s.describe(
+  '"imported" is a calendar upload or its rollback; "replaced" means a backup was restored or the stream missed changes, so everything should be fetched again',
+  s.enum(DATA_CHANGE_ACTIONS)
+));
+
+export const DataChangeSchema = s.ref('DataChange', s.describe(
+  'A change to the stored tournaments or infographics, pushed to every open tab',
+  s.object({
+    id: s.describe('Event id; the browser sends the last one as Last-Event-ID when it reconnects, and gets what it missed', s.string()),
+    action: DataChangeActionSchema,
+    tournaments: s.object({
+      added: s.describe('New or restored tournaments, as the list serves them', s.array(TournamentSchema)),
+      updated: s.array(TournamentSchema),
+      deleted: s.describe('Ids of tournaments moved to the trash or removed by a rollback', s.array(s.string())),
+    }),
+    infographics: s.object({
+      added: s.array(InfographicMetadataSchema),
+      deleted: s.array(s.string()),
+    }),
+    import: s.describe('The upload behind an "imported" change', s.optional(ImportRecordSchema)),
+    by: s.describe('Who made the change; null for the server\'s own, like archiving', nullableString()),
+    clientId: s.describe('X-Client-Id of the tab that made the change, so it can tell its own changes apart', nullableString()),
+    at: s.string(),
+  })
+));
+
+export const RequestIssueSchema = s.ref('RequestIssue', s.describe(
+  'One problem with a request, e.g. { in: "query", path: "limit", message: "must be at most 500" }',
+  s.object({
+    in: s.enum(['params', 'query', 'body']),
+    path: s.string(),
+    message: s.string(),
+  })
+));
+
+export const ErrorResponseSchema = s.ref('ErrorResponse', s.object({
+  success: s.literal(false),
+  error: s.string(),
+  issues: s.describe('Set on 400s for requests that don\'t match the contract', s.optional(s.array(RequestIssueSchema))),
+  import: s.describe('The earlier import of the same file, when an upload is refused as a duplicate', s.optional(ImportRecordSchema)),
+  job: s.describe('The queued upload of the same file, when an upload is refused as a duplicate', s.optional(JobSchema)),
+}));
+
+// Every model, in the order the OpenAPI document and the generated client list them
+export const models: Schema[] = [
+  EntryStatusSchema, GenderGroupSchema, BallColourSchema, EditableFieldSchema, RoleSchema, ArchiveFilterSchema,
+  TournamentSortSchema, ChangeTypeSchema, ParseDiagnosticsSchema, CategoryGroupsSchema, SourceSpanSchema,
+  TournamentSourceSchema, FieldOverrideSchema, FieldOverridesSchema, TournamentSchema, FieldChangeSchema,
+  TournamentChangeSchema, ImportRecordSchema, ParseWarningsSchema, AiExtractionSummarySchema, InfographicFiltersSchema,
+  InfographicMetadataSchema, TrashBatchSchema, TournamentFacetsSchema, UserSchema, ApiKeySchema, PrincipalSchema,
+  SnapshotInfoSchema, RestoreResultSchema, JobTypeSchema, JobStatusSchema, JobStageSchema, ImportResultSchema,
+  InfographicResultSchema, JobSchema, DataChangeActionSchema, DataChangeSchema, RequestIssueSchema, ErrorResponseSchema,
+];
+
+export type RequestIssue = Infer<typeof RequestIssueSchema>;
+export type ErrorResponse = Infer<typeof ErrorResponseSchema>;
+
+// ============ ROUTES ============
+
+export interface RouteContract {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  // Express-style path, with :name parameters
+  path: string;
+  summary: string;
+  // Least role that may call the route; open to everyone when unset
+  role?: Infer<typeof RoleSchema>;
+  params?: Schema<any>;
+  query?: Schema<any>;
+  body?: Schema<any>;
+  // Multipart form fields, files included
+  form?: Schema<any>;
+  response: Schema<any>;
+  // Success status, when it isn't 200
+  status?: number;
+  // Content type of a file download or event stream; the generated client leaves these routes out
+  download?: string;
+}
+
+type Shape = Record<string, Schema<any>>;
+const ok = <P extends Shape>(properties: P) => s.object({ success: s.literal(true), ...properties });
+const param = (name: string, value: Schema<any> = s.string({ minLength: 1 })) => s.object({ [name]: value });
+
+const scopeProperties = {
+  season: s.describe(
+    'Season like "2025/26"; archived tournaments are included unless `archived` says otherwise',
+    s.optional(s.string({ pattern: /^\d{4}\/\d{2}$/, message: 'must look like 2025/26' }))
+  ),
+  archived: s.describe('Defaults to "exclude", or "include" when a season is given', s.optional(ArchiveFilterSchema)),
+};
+
+const tournamentQuerySchema = s.object({
+  ...scopeProperties,
+  from: s.describe('ISO bounds on the event dates', s.optional(isoDate)),
+  to: s.optional(isoDate),
+  month: s.optional(s.string()),
+  gender: s.optional(s.string()),
+  grade: s.optional(s.string()),
+  eventType: s.optional(s.string()),
+  category: s.describe('Exact category label, e.g. "12U Boys"', s.optional(s.string())),
+  ageGroup: s.describe(
+    'An age group like "14U", or Juniors, Adults, Seniors, Red Ball, Orange Ball or Green Ball',
+    s.optional(s.string())
+  ),
+  genderGroup: s.optional(s.string()),
+  county: s.optional(s.string()),
+  venue: s.describe('Case-insensitive part of the venue, spaces ignored ("st ann" matches "St Anns")', s.optional(s.string())),
+  q: s.describe(
+    'Free text over title, venue and organiser email; every word must match the start of a word',
+    s.optional(s.string())
+  ),
+  status: s.describe('Entry statuses now, comma-separated; tournaments without deadlines never match', s.optional(s.array(EntryStatusSchema))),
+  needsReview: s.describe('Only low-confidence or defaulted tournaments', s.optional(s.boolean())),
+  sort: s.optional(TournamentSortSchema),
+  order: s.optional(s.enum(['asc', 'desc'])),
+  limit: s.optional(s.integer({ minimum: 1, maximum: MAX_PAGE_SIZE })),
+  offset: s.optional(s.integer({ minimum: 0 })),
+}, { unknownKeys: 'strip' });
+
+const trashResponse = ok({ message: s.string(), trash: TrashBatchSchema });
+
+export const routes = {
+  getApiInfo: {
+    method: 'get',
+    path: '/',
+    summary: 'What the server is, with every endpoint',
+    response: s.object({
+      name: s.string(),
+      status: s.string(),
+      tournamentCount: s.integer(),
+      endpoints: s.record(s.string()),
+      auth: s.string(),
+      openapi: s.string(),
+      note: s.string(),
+    }),
+  },
+  getHealth: {
+    method: 'get',
+    path: '/health',
+    summary: 'Health check',
+    response: s.object({ status: s.literal('ok'), tournamentCount: s.integer() }),
+  },
+  getOpenApiDocument: {
+    method: 'get',
+    path: '/api/openapi.json',
+    summary: 'This contract as an OpenAPI 3.1 document',
+    response: s.unknown(),
+    download: 'application/json',
+  },
+  listTournaments: {
+    method: 'get',
+    path: '/api/tournaments',
+    summary: 'List tournaments matching the filters, sorted and paged; `total` counts every match. Ended tournaments are archived and left out unless archived=include|only; a season lists archived ones too',
+    query: tournamentQuerySchema,
+    response: ok({
+      count: s.integer(),
+      total: s.integer(),
+      offset: s.integer(),
+      tournaments: s.array(TournamentSchema),
+    }),
+  },
+  getTournamentFacets: {
+    method: 'get',
+    path: '/api/tournaments/facets',
+    summary: 'Distinct months, genders, grades, event types, counties, age groups and sections for the same season/archived switches, plus all seasons and total, archived and needs-review counts',
+    query: s.object(scopeProperties, { unknownKeys: 'strip' }),
+    response: ok({ facets: TournamentFacetsSchema }),
+  },
+  uploadCalendar: {
+    method: 'post',
+    path: '/api/tournaments/upload',
+    summary: 'Queue a calendar PDF for parsing and return its job; new tournaments are added, changed ones updated and both recorded in the change history. 400 when the file is not a PDF, 413 when it is over UPLOAD_MAX_MB, 409 when the same file is still imported or queued',
+    role: 'editor',
+    form: s.object({
+      pdf: s.file(),
+      counties: s.describe('Comma-separated LTA county prefixes ("SUS,SUR") or "all"; Sussex (SUS) when left out', s.optional(countiesSchema)),
+      mode: s.describe(
+        '"layout" rebuilds table cells from text positions, "text" uses keyword chunking, "hybrid" adds AI extraction for low-confidence entries (the default when an AI provider is configured)',
+        s.optional(s.enum(EXTRACTION_MODES))
+      ),
+    }),
+    response: ok({ job: JobSchema }),
+    status: 202,
+  },
+  extractTournaments: {
+    method: 'post',
+    path: '/api/extract',
+    summary: 'AI extraction of calendar text, cached by text hash. Nothing is saved; the extracted tournaments are returned',
+    role: 'editor',
+    body: s.object({
+      text: s.string({ pattern: /\S/, message: 'must not be empty' }),
+      counties: s.describe('LTA county prefixes to keep; all counties when left out', s.optional(countiesSchema)),
+    }),
+    response: ok({
+      provider: s.string(),
+      cached: s.boolean(),
+      count: s.integer(),
+      tournaments: s.array(TournamentSchema),
+    }),
+  },
+  getLatestChanges: {
+    method: 'get',
+    path: '/api/tournaments/changes',
+    summary: 'Changes written by the most recent upload that changed anything',
+    response: ok({ importedAt: nullableString(), count: s.integer(), changes: s.array(TournamentChangeSchema) }),
+  },
+  getTournamentSource: {
+    method: 'get',
+    path: '/api/tournaments/:id/source',
+    summary: 'Raw calendar text of a tournament (page, offsets, field positions); source is null for rows stored before sources were kept',
+    params: param('id'),
+    response: ok({ tournament: TournamentSchema, source: s.nullable(TournamentSourceSchema) }),
+  },
+  getTournamentHistory: {
+    method: 'get',
+    path: '/api/tournaments/:id/history',
+    summary: 'Change history of a tournament, newest first',
+    params: param('id'),
+    response: ok({ count: s.integer(), history: s.array(TournamentChangeSchema) }),
+  },
+  editTournament: {
+    method: 'patch',
+    path: '/api/tournaments/:id',
+    summary: 'Edit fields by hand, JSON body { field: value }; null reverts a field to its parsed value. Edits survive re-imports',
+    role: 'editor',
+    params: param('id'),
+    body: s.partialRecord(EditableFieldSchema, s.nullable(s.string()), { minProperties: 1 }),
+    response: ok({ tournament: TournamentSchema }),
+  },
+  deleteTournament: {
+    method: 'delete',
+    path: '/api/tournaments/:id',
+    summary: 'Move a tournament to the trash; returns the batch that restores it',
+    role: 'editor',
+    params: param('id'),
+    response: trashResponse,
+  },
+  deleteAllTournaments: {
+    method: 'delete',
+    path: '/api/tournaments',
+    summary: 'Move all tournaments to the trash as one batch (a snapshot is taken first)',
+    role: 'admin',
+    response: trashResponse,
+  },
+  listImports: {
+    method: 'get',
+    path: '/api/imports',
+    summary: 'Uploaded PDFs with their counts, newest first',
+    response: ok({ count: s.integer(), imports: s.array(ImportRecordSchema) }),
+  },
+  getImport: {
+    method: 'get',
+    path: '/api/imports/:id',
+    summary: 'An import with the tournaments it created or last changed and its change history',
+    params: param('id', s.integer({ minimum: 1 })),
+    response: ok({
+      import: ImportRecordSchema,
+      count: s.integer(),
+      tournaments: s.array(TournamentSchema),
+      changes: s.array(TournamentChangeSchema),
+    }),
+  },
+  rollbackImport: {
+    method: 'post',
+    path: '/api/imports/:id/rollback',
+    summary: 'Undo the latest import: move what it added to the trash and restore the parsed values it changed; hand edits stay',
+    role: 'editor',
+    params: param('id', s.integer({ minimum: 1 })),
+    response: ok({
+      removed: s.integer(),
+      restored: s.integer(),
+      import: ImportRecordSchema,
+      trash: s.describe('The batch the removed tournaments went to, for undoing from the trash', TrashBatchSchema),
+    }),
+  },
+  listInfographics: {
+    method: 'get',
+    path: '/api/infographics',
+    summary: 'Generated infographics, newest first',
+    response: ok({ count: s.integer(), infographics: s.array(InfographicMetadataSchema) }),
+  },
+  getInfographic: {
+    method: 'get',
+    path: '/api/infographics/:id',
+    summary: 'An infographic with the tournaments it listed that are still stored',
+    params: param('id'),
+    response: ok({ infographic: InfographicMetadataSchema, tournaments: s.array(TournamentSchema) }),
+  },
+  getInfographicImage: {
+    method: 'get',
+    path: '/api/infographics/image/:filename',
+    summary: 'An infographic image',
+    params: param('filename'),
+    response: s.unknown(),
+    download: 'image/png',
+  },
+  createInfographic: {
+    method: 'post',
+    path: '/api/infographics',
+    summary: 'Queue an infographic for the given tournaments and return its job',
+    role: 'editor',
+    body: s.object({
+      tournaments: s.array(TournamentSchema, { minItems: 1 }),
+      filters: s.describe('The filters the tournaments were chosen with, shown on the image', s.optional(InfographicFiltersSchema)),
+      tournamentCount: s.describe(
+        'How many tournaments matched, when only the first of them are sent; defaults to the number sent',
+        s.optional(s.integer({ minimum: 1 }))
+      ),
+    }),
+    response: ok({ job: JobSchema }),
+    status: 202,
+  },
+  deleteInfographic: {
+    method: 'delete',
+    path: '/api/infographics/:id',
+    summary: 'Move an infographic to the trash; returns the batch that restores it',
+    role: 'editor',
+    params: param('id'),
+    response: trashResponse,
+  },
+  getTrash: {
+    method: 'get',
+    path: '/api/trash',
+    summary: 'Deleted tournaments and infographics, most recent first, with the retention in days',
+    response: ok({
+      retentionDays: s.describe('Days until deleted items are purged', s.number()),
+      tournaments: s.array(TournamentSchema),
+      infographics: s.array(InfographicMetadataSchema),
+    }),
+  },
+  restoreFromTrash: {
+    method: 'post',
+    path: '/api/trash/restore',
+    summary: 'Restore from the trash: a whole delete by batch, or single items by id',
+    role: 'editor',
+    body: s.object({
+      batch: s.optional(s.string({ minLength: 1 })),
+      tournamentIds: s.optional(s.array(s.string())),
+      infographicIds: s.optional(s.array(s.string())),
+    }),
+    response: ok({ restored: s.object({ tournaments: s.integer(), infographics: s.integer() }) }),
+  },
+  emptyTrash: {
+    method: 'delete',
+    path: '/api/trash',
+    summary: 'Empty the trash permanently, including infographic images',
+    role: 'admin',
+    response: ok({ purged: s.object({ tournaments: s.integer(), infographics: s.integer() }) }),
+  },
+  listJobs: {
+    method: 'get',
+    path: '/api/jobs',
+    summary: 'Recent uploads and infographics queued in the background, newest first',
+    query: s.object({
+      status: s.describe('Job statuses, comma-separated', s.optional(s.array(JobStatusSchema))),
+      type: s.optional(JobTypeSchema),
+      limit: s.optional(s.integer({ minimum: 1, maximum: MAX_JOB_PAGE_SIZE })),
+    }),
+    response: ok({ jobs: s.array(JobSchema) }),
+  },
+  getJob: {
+    method: 'get',
+    path: '/api/jobs/:id',
+    summary: 'A job\'s status, progress and, once it succeeded, result',
+    params: param('id'),
+    response: ok({ job: JobSchema }),
+  },
+  followJob: {
+    method: 'get',
+    path: '/api/jobs/:id/events',
+    summary: 'Server-sent events: a `job` event with the whole Job now and whenever it changes. The stream ends once the job is finished',
+    params: param('id'),
+    response: JobSchema,
+    download: 'text/event-stream',
+  },
+  cancelJob: {
+    method: 'post',
+    path: '/api/jobs/:id/cancel',
+    summary: 'Cancel a job. A queued job is cancelled at once, a running one at its next page or request; 409 when it is already finished',
+    role: 'editor',
+    params: param('id'),
+    response: ok({ job: JobSchema }),
+  },
+  followChanges: {
+    method: 'get',
+    path: '/api/changes',
+    summary: 'Server-sent events: a `change` event with a DataChange whenever tournaments or infographics are added, updated, deleted or imported. Reconnecting with Last-Event-ID resumes after that change',
+    response: DataChangeSchema,
+    download: 'text/event-stream',
+  },
+  downloadBackup: {
+    method: 'get',
+    path: '/api/admin/backup',
+    summary: 'Download a backup archive of the database and infographic images',
+    role: 'admin',
+    response: s.unknown(),
+    download: 'application/gzip',
+  },
+  restoreBackup: {
+    method: 'post',
+    path: '/api/admin/restore',
+    summary: 'Restore a backup archive; the current data is snapshotted first',
+    role: 'admin',
+    form: s.object({ backup: s.file() }),
+    response: ok(restoreResultProperties),
+  },
+  listSnapshots: {
+    method: 'get',
+    path: '/api/admin/snapshots',
+    summary: 'Local snapshots, newest first',
+    role: 'admin',
+    response: ok({ snapshots: s.array(SnapshotInfoSchema) }),
+  },
+  createSnapshot: {
+    method: 'post',
+    path: '/api/admin/snapshots',
+    summary: 'Take a snapshot now',
+    role: 'admin',
+    response: ok({ snapshot: SnapshotInfoSchema }),
+  },
+  downloadSnapshot: {
+    method: 'get',
+    path: '/api/admin/snapshots/:name',
+    summary: 'Download a snapshot',
+    role: 'admin',
+    params: param('name'),
+    response: s.unknown(),
+    download: 'application/gzip',
+  },
+  restoreSnapshot: {
+    method: 'post',
+    path: '/api/admin/snapshots/:name/restore',
+    summary: 'Restore a snapshot',
+    role: 'admin',
+    params: param('name'),
+    response: ok(restoreResultProperties),
+  },
+  login: {
+    method: 'post',
+    path: '/api/auth/login',
+    summary: 'Sign in; returns a session token to send as Authorization: Bearer <token>. 429 after repeated wrong passwords',
+    body: s.object({ username: s.string({ minLength: 1 }), password: s.string({ minLength: 1 }) }),
+    response: ok({ token: s.string(), expiresAt: s.string(), user: UserSchema }),
+  },
+  logout: {
+    method: 'post',
+    path: '/api/auth/logout',
+    summary: 'End the current session',
+    response: ok({}),
+  },
+  getCurrentUser: {
+    method: 'get',
+    path: '/api/auth/me',
+    summary: 'The signed-in user or API key and its role; null when anonymous',
+    response: ok({ user: s.nullable(PrincipalSchema) }),
+  },
+  listUsers: {
+    method: 'get',
+    path: '/api/admin/users',
+    summary: 'List users',
+    role: 'admin',
+    response: ok({ users: s.array(UserSchema) }),
+  },
+  createUser: {
+    method: 'post',
+    path: '/api/admin/users',
+    summary: 'Create a user; 409 when the username is taken',
+    role: 'admin',
+    body: s.object({
+      username: s.string({ pattern: /^[\w.@-]{1,64}$/, message: 'may only use letters, digits and . _ @ - (up to 64)' }),
+      password: s.string({ minLength: MIN_PASSWORD_LENGTH }),
+      role: RoleSchema,
+    }),
+    response: ok({ user: UserSchema }),
+    status: 201,
+  },
+  updateUser: {
+    method: 'patch',
+    path: '/api/admin/users/:username',
+    summary: 'Change a user\'s role or password; a new password signs them out everywhere',
+    role: 'admin',
+    params: param('username'),
+    body: s.object({
+      role: s.optional(RoleSchema),
+      password: s.optional(s.string({ minLength: MIN_PASSWORD_LENGTH })),
+    }, { minProperties: 1 }),
+    response: ok({ user: UserSchema }),
+  },
+  deleteUser: {
+    method: 'delete',
+    path: '/api/admin/users/:username',
+    summary: 'Delete a user and their sessions',
+    role: 'admin',
+    params: param('username'),
+    response: ok({}),
+  },
+  listApiKeys: {
+    method: 'get',
+    path: '/api/admin/api-keys',
+    summary: 'List API keys (without the keys themselves)',
+    role: 'admin',
+    response: ok({ apiKeys: s.array(ApiKeySchema) }),
+  },
+  createApiKey: {
+    method: 'post',
+    path: '/api/admin/api-keys',
+    summary: 'Create an API key for scripts; the key is only returned once',
+    role: 'admin',
+    body: s.object({
+      name: s.string({ pattern: /\S/, maxLength: 100, message: 'must not be empty' }),
+      role: RoleSchema,
+    }),
+    response: ok({ apiKey: ApiKeySchema, key: s.string() }),
+    status: 201,
+  },
+  revokeApiKey: {
+    method: 'delete',
+    path: '/api/admin/api-keys/:id',
+    summary: 'Revoke an API key',
+    role: 'admin',
+    params: param('id', s.integer({ minimum: 1 })),
+    response: ok({}),
+  },
+} satisfies Record<string, RouteContract>;
+
+export type OperationId = keyof typeof routes;
+
+// ============ OPENAPI ============
+
+/**
+ * The routes as an OpenAPI 3.1 document. Query parameters that take lists are
+ * comma-separated (style form, explode false), matching how they are parsed.
+ */
+export function openApiDocument(): JsonSchema {
+  const components: Record<string, JsonSchema> = {};
+  const json = (target: Schema) => ({ 'application/json': { schema: toJsonSchema(target, components) } });
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const model of models) toJsonSchema(model, components);
+
+  for (const [operationId, route] of Object.entries(routes) as [OperationId, RouteContract][]) {
+    const parameters = [
+      ...parametersOf(route.params, 'path', components),
+      ...parametersOf(route.query, 'query', components),
+    ];
+    const success = route.download === 'text/event-stream'
+      ? { description: 'Server-sent events', content: { [route.download]: { schema: toJsonSchema(route.response, components) } } }
+      : route.download
+      ? { description: 'The file', content: { [route.download]: { schema: { type: 'string', format: 'binary' } } } }
+      : { description: 'Success', content: json(route.response) };
+
+    paths[route.path.replace(/:(\w+)/g, '{$1}')] ??= {};
+    paths[route.path.replace(/:(\w+)/g, '{$1}')][route.method] = {
+      operationId,
+      summary: route.summary,
+      tags: [route.path.split('/')[2] || 'server'],
+      ...(route.role && { security: [{ bearer: [] }], 'x-required-role': route.role }),
+      ...(parameters.length > 0 && { parameters }),
+      ...(route.body && { requestBody: { required: true, content: json(route.body) } }),
+      ...(route.form && {
+        requestBody: { required: true, content: { 'multipart/form-data': { schema: toJsonSchema(route.form, components) } } },
+      }),
+      responses: {
+        [route.status ?? 200]: success,
+        default: { description: 'Error', content: json(ErrorResponseSchema) },
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'LTA Parser API',
+      version: '1.0.0',
+      description: 'Reads are public. Changes need Authorization: Bearer <session token or API key> with the editor role; admin endpoints need admin',
+    },
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: { bearer: { type: 'http', scheme: 'bearer' } },
+    },
+  };
+}
+
+function parametersOf(target: Schema | undefined, location: 'path' | 'query', components: Record<string, JsonSchema>) {
+  if (!target || target.def.kind !== 'object') return [];
+  return Object.entries(target.def.properties).map(([name, property]) => {
+    const { description, ...schema } = toJsonSchema(property, components);
+    const inner = property.def.kind === 'optional' ? property.def.inner : property;
+    return {
+      name,
+      in: location,
+      required: location === 'path' || property.def.kind !== 'optional',
+      ...(description !== undefined && { description }),
+      schema,
+      ...(inner.def.kind === 'array' && { style: 'form', explode: false }),
+    };
+  });
+}
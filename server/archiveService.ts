@@ -0,0 +1,38 @@
+import { archiveEndedTournaments } from './db.js';
+import { publishChange } from './syncService.js';
+
+const ARCHIVE_INTERVAL_MS = 3600000;
+
+/**
+ * Archives ended tournaments, logging only when something changed. Open tabs
+ * are told too: archived rows come as updates (lists that leave them out drop
+ * them) and unarchived ones as additions.
+ */
+export function archiveEnded(now: Date = new Date()): { archived: number; unarchived: number } {
+  const { archived, unarchived } = archiveEndedTournaments(now);
+  if (archived.length > 0 || unarchived.length > 0) {
+    console.log(`Archived ${archived.length} ended tournaments, unarchived ${unarchived.length}`);
+    publishChange({ action: 'updated', tournaments: { added: unarchived, updated: archived } }, undefined, now);
+  }
+  return { archived: archived.length, unarchived: unarchived.length };
+}
+
+/**
+ * Archives ended tournaments now and then hourly, so they drop out of the
+ * default list the day after they finish. Returns the timer, which doesn't keep
+ * the process alive.
+ */
+export function startArchiveSchedule(): NodeJS.Timeout {
+  const run = () => {
+    try {
+      archiveEnded();
+    } catch (error) {
+      console.error('Archiving ended tournaments failed:', error);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, ARCHIVE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
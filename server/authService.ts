@@ -0,0 +1,197 @@
+import crypto from 'crypto';
+import {
+  createUser,
+  countUsers,
+  getUserLogin,
+  createSession,
+  getSessionUser,
+  deleteSession,
+  deleteExpiredSessions,
+  createApiKey,
+  useApiKey,
+  ApiKey,
+  Role,
+  User
+} from './db.js';
+import { Infer } from './schema.js';
+import { PrincipalSchema, MIN_PASSWORD_LENGTH } from './apiSchema.js';
+
+// How long a sign-in lasts
+export const SESSION_TTL_DAYS = sessionTtlDays();
+
+// Failed sign-ins allowed per client and username within the window before that pair is locked for the rest of it
+const MAX_FAILED_LOGINS = 5;
+// Failed sign-ins allowed for a username from all clients together, for guesses spread over many addresses
+const MAX_FAILED_LOGINS_PER_USERNAME = 20;
+const FAILED_LOGIN_WINDOW_MS = 15 * 60000;
+// Pairs tracked at once; guesses at many usernames can't grow the map past this
+const MAX_TRACKED_LOGINS = 10000;
+
+const ROLE_RANK: Record<Role, number> = { viewer: 0, editor: 1, admin: 2 };
+const API_KEY_PREFIX = 'ltak_';
+
+function sessionTtlDays(): number {
+  const days = parseFloat(process.env.SESSION_TTL_DAYS || '');
+  return days > 0 ? days : 14;
+}
+
+// Too many wrong passwords from the client for the username; retryAfter is in seconds
+export class LoginThrottledError extends Error {
+  constructor(public retryAfter: number) {
+    super('Too many failed sign-ins; try again later');
+  }
+}
+
+// Recent failures by client address and lower-cased username, and by username
+// alone under the client '*', kept in memory, oldest first
+const failedLogins = new Map<string, { count: number; since: number }>();
+
+// Seconds until `key` may try again, or null when it isn't locked
+function lockedFor(key: string, limit: number, now: number): number | null {
+  const failed = failedLogins.get(key);
+  if (failed && now - failed.since >= FAILED_LOGIN_WINDOW_MS) {
+    failedLogins.delete(key);
+  } else if (failed && failed.count >= limit) {
+    return Math.ceil((failed.since + FAILED_LOGIN_WINDOW_MS - now) / 1000);
+  }
+  return null;
+}
+
+function recordFailedLogin(key: string, now: number): void {
+  const current = failedLogins.get(key);
+  if (!current && failedLogins.size >= MAX_TRACKED_LOGINS) {
+    for (const [tracked, failed] of failedLogins) {
+      if (now - failed.since >= FAILED_LOGIN_WINDOW_MS) failedLogins.delete(tracked);
+    }
+    // Still full within the window: the oldest pair is forgotten early
+    if (failedLogins.size >= MAX_TRACKED_LOGINS) {
+      failedLogins.delete(failedLogins.keys().next().value!);
+    }
+  }
+  failedLogins.set(key, { count: (current?.count ?? 0) + 1, since: current?.since ?? now });
+}
+
+// Who made a request, and how they proved it
+export type Principal = Infer<typeof PrincipalSchema>;
+
+export function hasRole(principal: Principal | null | undefined, required: Role): boolean {
+  return !!principal && ROLE_RANK[principal.role] >= ROLE_RANK[required];
+}
+
+// Session tokens and API keys are random enough that a plain SHA-256 is safe to store
+function tokenHash(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function sameSecret(a: string, b: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b));
+}
+
+// "scrypt$<salt>$<hash>", both hex
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  return crypto.timingSafeEqual(crypto.scryptSync(password, Buffer.from(salt, 'hex'), expected.length), expected);
+}
+
+// Checked when an unknown username signs in, so the response takes as long as a wrong password
+const DUMMY_PASSWORD_HASH = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+/**
+ * Signs a user in. Returns the session token, which is only ever shown here,
+ * or null when the username or password is wrong. Throws LoginThrottledError
+ * after MAX_FAILED_LOGINS failures for the username from `client` (the
+ * caller's address), so guesses from elsewhere don't lock the user out, or
+ * after MAX_FAILED_LOGINS_PER_USERNAME from any address, so guesses spread
+ * over many addresses still run out.
+ */
+export function login(
+  username: string,
+  password: string,
+  client: string = '',
+  now: Date = new Date()
+): { token: string; expiresAt: string; user: User } | null {
+  const key = `${client} ${username.toLowerCase()}`;
+  const usernameKey = `* ${username.toLowerCase()}`;
+  const retryAfter = lockedFor(key, MAX_FAILED_LOGINS, now.getTime())
+    ?? lockedFor(usernameKey, MAX_FAILED_LOGINS_PER_USERNAME, now.getTime());
+  if (retryAfter !== null) {
+    throw new LoginThrottledError(retryAfter);
+  }
+
+  const stored = getUserLogin(username);
+  const valid = verifyPassword(password, stored?.passwordHash ?? DUMMY_PASSWORD_HASH);
+  if (!stored || !valid) {
+    recordFailedLogin(key, now.getTime());
+    recordFailedLogin(usernameKey, now.getTime());
+    return null;
+  }
+
+  failedLogins.delete(key);
+  deleteExpiredSessions(now);
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_DAYS * 86400000).toISOString();
+  createSession(tokenHash(token), stored.id, expiresAt, now);
+  const { passwordHash, ...user } = stored;
+  return { token, expiresAt, user };
+}
+
+export function logout(token: string): boolean {
+  return deleteSession(tokenHash(token));
+}
+
+// The new key is returned once; only its hash is kept
+export function issueApiKey(name: string, role: Role): { apiKey: ApiKey; key: string } {
+  const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+  const apiKey = createApiKey(name, role, tokenHash(key), key.slice(0, API_KEY_PREFIX.length + 6));
+  return { apiKey, key };
+}
+
+/**
+ * Resolves a bearer token: ADMIN_TOKEN (kept for backup scripts) is an admin,
+ * API keys have their own role, anything else is looked up as a session.
+ * Null when the token matches nothing or has expired.
+ */
+export function authenticate(token: string, now: Date = new Date()): Principal | null {
+  if (!token) return null;
+
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (adminToken && sameSecret(token, adminToken)) {
+    return { name: 'ADMIN_TOKEN', role: 'admin', via: 'adminToken' };
+  }
+  if (token.startsWith(API_KEY_PREFIX)) {
+    const apiKey = useApiKey(tokenHash(token), now);
+    return apiKey ? { name: apiKey.name, role: apiKey.role, via: 'apiKey' } : null;
+  }
+  const user = getSessionUser(tokenHash(token), now);
+  return user ? { name: user.username, role: user.role, via: 'session' } : null;
+}
+
+/**
+ * Creates the first admin from ADMIN_USERNAME and ADMIN_PASSWORD when there are
+ * no users yet. Returns the username, or null when nothing was created.
+ */
+export function ensureInitialAdmin(): string | null {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (countUsers() > 0) return null;
+  if (!username || !password) {
+    console.warn('No users yet: set ADMIN_USERNAME and ADMIN_PASSWORD to create the first admin. Changes need a signed-in editor or admin');
+    return null;
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    console.warn(`ADMIN_PASSWORD must be at least ${MIN_PASSWORD_LENGTH} characters; no admin was created`);
+    return null;
+  }
+  createUser(username, hashPassword(password), 'admin');
+  console.log(`Created admin user ${username}`);
+  return username;
+}
@@ -0,0 +1,319 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import db from './db.js';
+import { migrate, getSchemaStatus, LATEST_SCHEMA_VERSION } from './migrations.js';
+import { IMAGES_DIR } from './infographicService.js';
+import { tarEntry, tarFileEntry, extractTar, TAR_END } from './tar.js';
+import { Infer } from './schema.js';
+import { RestoreResultSchema, SnapshotInfoSchema } from './apiSchema.js';
+
+const DATA_DIR = process.env.DATA_DIR || './data';
+// Local snapshots; on fly.io this is on the same volume, so download backups for off-site copies
+export const BACKUP_DIR = process.env.BACKUP_DIR || path.join(DATA_DIR, 'backups');
+
+const BACKUP_FORMAT = 'lta-parser-backup';
+const BACKUP_FORMAT_VERSION = 1;
+const MANIFEST_ENTRY = 'manifest.json';
+const DATABASE_ENTRY = 'tournaments.db';
+const IMAGE_PREFIX = 'infographics/';
+const SNAPSHOT_NAME = /^snapshot-[\w-]+\.tar\.gz$/;
+
+export interface BackupManifest {
+  format: string;
+  version: number;
+  createdAt: string;
+  schemaVersion: number;
+  counts: RestoreResult['counts'];
+  // Infographic image filenames stored under infographics/
+  images: string[];
+}
+
+export type RestoreResult = Infer<typeof RestoreResultSchema>;
+export type SnapshotInfo = Infer<typeof SnapshotInfoSchema>;
+
+// An archive that is unreadable, incomplete or from an incompatible build
+export class BackupError extends Error {}
+
+function countRows(database: Database.Database, table: string): number {
+  return (database.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+}
+
+/**
+ * Writes a gzipped tar archive of the database and the infographic images to
+ * `file`. The database comes from SQLite's online backup, so it is consistent
+ * even while requests are writing; images are read afterwards for the
+ * infographics in that copy.
+ */
+export async function writeBackup(file: string): Promise<BackupManifest> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lta-backup-'));
+  try {
+    const dbCopy = path.join(workDir, DATABASE_ENTRY);
+    await db.backup(dbCopy);
+
+    // A single self-contained file, without WAL sidecars
+    const copy = new Database(dbCopy);
+    copy.pragma('journal_mode = DELETE');
+    const filenames = (copy.prepare('SELECT filename FROM infographics ORDER BY createdAt').all() as { filename: string }[])
+      .map(row => row.filename);
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      schemaVersion: getSchemaStatus(copy).current,
+      counts: {
+        tournaments: countRows(copy, 'tournaments'),
+        imports: countRows(copy, 'imports'),
+        infographics: filenames.length,
+      },
+      // An image deleted since the copy was taken is left out
+      images: filenames.filter(name => fs.existsSync(path.join(IMAGES_DIR, name))),
+    };
+    copy.close();
+
+    // The database and images are streamed from disk, so none of them is held in memory
+    async function* entries(): AsyncGenerator<Buffer> {
+      yield* tarEntry(MANIFEST_ENTRY, Buffer.from(JSON.stringify(manifest, null, 2)));
+      yield* tarFileEntry(DATABASE_ENTRY, dbCopy);
+      for (const name of manifest.images) {
+        yield* tarFileEntry(IMAGE_PREFIX + name, path.join(IMAGES_DIR, name));
+      }
+      yield TAR_END;
+    }
+
+    // Written under a temporary name so a crash never leaves a half-written archive behind
+    const partial = `${file}.partial`;
+    await pipeline(Readable.from(entries()), zlib.createGzip(), fs.createWriteStream(partial));
+    fs.renameSync(partial, file);
+    return manifest;
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+// Where an archive entry is extracted to in `workDir`; null for entries a backup doesn't have
+function extractedPath(workDir: string, name: string): string | null {
+  if (name === MANIFEST_ENTRY || name === DATABASE_ENTRY) {
+    return path.join(workDir, name);
+  }
+  const image = name.startsWith(IMAGE_PREFIX) ? name.slice(IMAGE_PREFIX.length) : '';
+  // Image names come from the archive, so they must not reach outside its folder
+  if (image && path.basename(image) === image && image !== '..') {
+    return path.join(workDir, IMAGE_PREFIX, image);
+  }
+  return null;
+}
+
+/**
+ * Streams the archive at `file` through gunzip into `workDir`, so neither it
+ * nor the database in it is ever held in memory, then checks it is complete.
+ */
+async function readArchive(file: string, workDir: string): Promise<BackupManifest> {
+  fs.mkdirSync(path.join(workDir, IMAGE_PREFIX));
+  let extracted: Set<string>;
+  try {
+    const names = await pipeline(
+      fs.createReadStream(file),
+      zlib.createGunzip(),
+      (chunks: AsyncIterable<Buffer>) => extractTar(chunks, name => extractedPath(workDir, name))
+    );
+    extracted = new Set(names);
+  } catch (error: any) {
+    throw new BackupError(`Not a readable backup archive: ${error.message}`);
+  }
+
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(fs.readFileSync(path.join(workDir, MANIFEST_ENTRY), 'utf8'));
+  } catch {
+    throw new BackupError(`The archive has no valid ${MANIFEST_ENTRY}`);
+  }
+  if (manifest.format !== BACKUP_FORMAT || manifest.version !== BACKUP_FORMAT_VERSION) {
+    throw new BackupError(`Unsupported backup format ${manifest.format} v${manifest.version}`);
+  }
+  if (!extracted.has(DATABASE_ENTRY)) {
+    throw new BackupError(`The archive has no ${DATABASE_ENTRY}`);
+  }
+  const missing = (manifest.images ?? []).filter(name => !extracted.has(IMAGE_PREFIX + name));
+  if (missing.length > 0) {
+    throw new BackupError(`The archive is missing ${missing.length} infographic images, e.g. ${missing[0]}`);
+  }
+  return manifest;
+}
+
+// Accounts stay as they are, so a restore can't lock out the admin running it,
+// and so do jobs, whose files belong to this server
+const KEPT_TABLES = ['users', 'sessions', 'api_keys', 'jobs'];
+
+// Copy every data table except schema_version, the kept tables and full-text search tables, which triggers refill
+function dataTables(): string[] {
+  const tables = db.prepare(
+    "SELECT name, sql FROM main.sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != 'schema_version'"
+  ).all() as { name: string; sql: string }[];
+  const virtual = tables.filter(t => /^CREATE VIRTUAL TABLE/i.test(t.sql)).map(t => t.name);
+  return tables
+    .map(t => t.name)
+    .filter(name => !KEPT_TABLES.includes(name))
+    .filter(name => !virtual.some(v => name === v || name.startsWith(`${v}_`)));
+}
+
+/**
+ * Replaces all tournaments, imports, change history, caches and infographics
+ * with those in the archive at `file`. The archive is checked first: it must be
+ * complete, pass SQLite's integrity check and not come from a newer schema
+ * version; older versions are migrated. The current data is snapshotted before anything changes,
+ * the tables are swapped in one transaction, and the images, staged beforehand,
+ * replace the live folder once it commits.
+ */
+export async function restoreBackup(file: string): Promise<RestoreResult> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lta-restore-'));
+  try {
+    const manifest = await readArchive(file, workDir);
+    const restoredFile = path.join(workDir, DATABASE_ENTRY);
+
+    let restored: Database.Database;
+    let schemaVersion: number;
+    try {
+      restored = new Database(restoredFile);
+      const integrity = restored.pragma('integrity_check', { simple: true });
+      if (integrity !== 'ok') throw new Error(`integrity check failed: ${integrity}`);
+      schemaVersion = getSchemaStatus(restored).current;
+    } catch (error: any) {
+      throw new BackupError(`The archived database is unusable: ${error.message}`);
+    }
+    try {
+      if (schemaVersion !== manifest.schemaVersion) {
+        throw new BackupError(`The archived database is at schema version ${schemaVersion} but the manifest says ${manifest.schemaVersion}`);
+      }
+      if (schemaVersion > LATEST_SCHEMA_VERSION) {
+        throw new BackupError(`The backup is at schema version ${schemaVersion}, newer than this build supports (${LATEST_SCHEMA_VERSION})`);
+      }
+      if (schemaVersion === 0) {
+        throw new BackupError('The archived database has no schema version');
+      }
+      migrate(restored);
+    } finally {
+      restored.close();
+    }
+
+    // Images are copied next to the live folder before anything changes, so all
+    // that is left after the commit is to rename it into place
+    const images = new Set(manifest.images);
+    const staging = `${IMAGES_DIR}.restoring`;
+    fs.rmSync(staging, { recursive: true, force: true });
+    fs.mkdirSync(staging);
+    for (const name of images) {
+      fs.copyFileSync(path.join(workDir, IMAGE_PREFIX, name), path.join(staging, name));
+    }
+
+    const safetySnapshot = await createSnapshot('before-restore');
+
+    const tables = dataTables();
+    db.prepare('ATTACH DATABASE ? AS restored').run(restoredFile);
+    try {
+      db.transaction(() => {
+        // Tables reference each other (tournaments -> imports); check once the copy is complete
+        db.pragma('defer_foreign_keys = ON');
+        for (const table of tables) {
+          const columns = (db.prepare(`PRAGMA main.table_info(${table})`).all() as { name: string }[])
+            .map(c => c.name)
+            .join(', ');
+          db.exec(`DELETE FROM main.${table}`);
+          db.exec(`INSERT INTO main.${table} (${columns}) SELECT ${columns} FROM restored.${table}`);
+        }
+      })();
+    } finally {
+      db.exec('DETACH DATABASE restored');
+    }
+
+    // Images follow the restored infographics: the staged folder replaces the live one
+    const replaced = `${IMAGES_DIR}.replaced`;
+    fs.rmSync(replaced, { recursive: true, force: true });
+    fs.renameSync(IMAGES_DIR, replaced);
+    fs.renameSync(staging, IMAGES_DIR);
+    fs.rmSync(replaced, { recursive: true, force: true });
+
+    return {
+      backupCreatedAt: manifest.createdAt,
+      schemaVersion,
+      counts: manifest.counts,
+      images: images.size,
+      safetySnapshot: safetySnapshot.name,
+    };
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    // Left over when the restore failed before the swap
+    fs.rmSync(`${IMAGES_DIR}.restoring`, { recursive: true, force: true });
+  }
+}
+
+// ============ SNAPSHOTS ============
+
+// Newest first
+export function listSnapshots(): SnapshotInfo[] {
+  if (!fs.existsSync(BACKUP_DIR)) return [];
+  return fs.readdirSync(BACKUP_DIR)
+    .filter(name => SNAPSHOT_NAME.test(name))
+    .map(name => {
+      const stat = fs.statSync(path.join(BACKUP_DIR, name));
+      return { name, size: stat.size, createdAt: stat.mtime.toISOString() };
+    })
+    .sort((a, b) => b.name.localeCompare(a.name));
+}
+
+// Null for names that aren't snapshots in BACKUP_DIR, so request paths can't escape it
+export function getSnapshotPath(name: string): string | null {
+  const file = path.join(BACKUP_DIR, name);
+  return SNAPSHOT_NAME.test(name) && fs.existsSync(file) ? file : null;
+}
+
+// Keeps the newest `keep` snapshots; returns the names removed
+export function pruneSnapshots(keep: number = snapshotRetention()): string[] {
+  const removed = listSnapshots().slice(keep).map(s => s.name);
+  for (const name of removed) {
+    fs.rmSync(path.join(BACKUP_DIR, name), { force: true });
+  }
+  return removed;
+}
+
+/**
+ * Writes a backup into BACKUP_DIR, then prunes to the retention count. `reason`
+ * ends up in the name, e.g. snapshot-2025-09-01T02-00-00-000Z-scheduled.tar.gz.
+ */
+export async function createSnapshot(reason: string = 'manual'): Promise<SnapshotInfo> {
+  fs.mkdirSync(BACKUP_DIR, { recursive: true });
+  const name = `snapshot-${new Date().toISOString().replace(/[:.]/g, '-')}-${reason.replace(/[^\w-]/g, '_')}.tar.gz`;
+  const file = path.join(BACKUP_DIR, name);
+  await writeBackup(file);
+  pruneSnapshots();
+
+  const stat = fs.statSync(file);
+  return { name, size: stat.size, createdAt: stat.mtime.toISOString() };
+}
+
+function snapshotRetention(): number {
+  const keep = parseInt(process.env.BACKUP_RETENTION || '', 10);
+  return keep > 0 ? keep : 14;
+}
+
+/**
+ * Takes a snapshot every BACKUP_INTERVAL_HOURS hours. Off unless the variable
+ * is set; returns the timer, which doesn't keep the process alive.
+ */
+export function startSnapshotSchedule(): NodeJS.Timeout | null {
+  const hours = parseFloat(process.env.BACKUP_INTERVAL_HOURS || '');
+  if (!(hours > 0)) return null;
+
+  console.log(`Taking snapshots every ${hours} hours into ${BACKUP_DIR}, keeping ${snapshotRetention()}`);
+  const timer = setInterval(() => {
+    createSnapshot('scheduled')
+      .then(snapshot => console.log(`Snapshot written: ${snapshot.name}`))
+      .catch(error => console.error('Scheduled snapshot failed:', error));
+  }, hours * 3600000);
+  timer.unref();
+  return timer;
+}
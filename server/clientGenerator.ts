@@ -0,0 +1,195 @@
+import { Schema, SchemaDef } from './schema.js';
+import { models, routes, RouteContract } from './apiSchema.js';
+
+/**
+ * Writes the frontend's typed API client (services/apiClient.ts) from the
+ * contract in apiSchema.ts: a type for every model, the params, query, body
+ * and response of every route, and one function per route. File downloads are
+ * left out; the frontend links to them instead.
+ */
+
+export const CLIENT_FILE = 'services/apiClient.ts';
+
+const HEADER = `// Generated from server/apiSchema.ts by \`npm run generate:client\`; don't edit by hand.
+// tests/apiContract.test.ts fails when it is out of date.
+`;
+
+// Hand-written part of the client, copied in as is
+const RUNTIME = `// ============ CLIENT ============
+
+// Thrown for every failed request; \`issues\` says what was wrong with a rejected (400) one
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public issues: RequestIssue[] = []) {
+    super(message);
+  }
+}
+
+let baseUrl = '';
+let getToken: () => string | null = () => null;
+let extraHeaders: Record<string, string> = {};
+
+// Where the API is, where to find the token sent as Authorization: Bearer, and headers for every request
+export function configureClient(options: { baseUrl?: string; token?: () => string | null; headers?: Record<string, string> }): void {
+  if (options.baseUrl !== undefined) baseUrl = options.baseUrl;
+  if (options.token) getToken = options.token;
+  if (options.headers) extraHeaders = options.headers;
+}
+
+type Fields = object;
+
+// Lists go comma-separated, which is how the server reads query strings and forms
+const textValue = (value: unknown) => Array.isArray(value) ? value.join(',') : String(value);
+
+async function request<T>(method: string, path: string, init: { query?: Fields; body?: unknown; form?: Fields } = {}): Promise<T> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(init.query ?? {})) {
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+    search.set(key, textValue(value));
+  }
+
+  const headers: Record<string, string> = { ...extraHeaders };
+  const token = getToken();
+  if (token) headers.Authorization = 'Bearer ' + token;
+
+  let body: BodyInit | undefined;
+  if (init.form) {
+    const form = new FormData();
+    for (const [key, value] of Object.entries(init.form)) {
+      if (value === undefined) continue;
+      if (value instanceof Blob) form.append(key, value, value instanceof File ? value.name : key);
+      else form.append(key, textValue(value));
+    }
+    body = form;
+  } else if (init.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+    body = JSON.stringify(init.body);
+  }
+
+  const query = search.toString();
+  const response = await fetch(baseUrl + path + (query ? '?' + query : ''), { method, headers, body });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data || data.success === false) {
+    throw new ApiError(data?.error || method + ' ' + path + ' failed with status ' + response.status, response.status, data?.issues);
+  }
+  return data as T;
+}
+`;
+
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+const pascalCase = (name: string) => name[0].toUpperCase() + name.slice(1);
+
+// The TypeScript type for a schema; named models are referred to by name
+function typeOf(target: Schema, indent = ''): string {
+  const def: SchemaDef = target.def;
+  switch (def.kind) {
+    case 'string':
+      return def.enum ? def.enum.map(quote).join(' | ') : 'string';
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'literal':
+      return typeof def.value === 'string' ? quote(def.value) : String(def.value);
+    case 'array': {
+      const items = typeOf(def.items, indent);
+      return /[ |]/.test(items) && !items.startsWith('{') ? `(${items})[]` : `${items}[]`;
+    }
+    case 'object':
+      return objectType(def.properties, indent);
+    case 'record':
+      return def.keys
+        ? `Partial<Record<${typeOf(def.keys, indent)}, ${typeOf(def.values, indent)}>>`
+        : `Record<string, ${typeOf(def.values, indent)}>`;
+    case 'nullable':
+      return `${typeOf(def.inner, indent)} | null`;
+    case 'optional':
+      return typeOf(def.inner, indent);
+    case 'union':
+      return def.options.map(option => typeOf(option, indent)).join(' | ');
+    case 'ref':
+      return def.name;
+    case 'file':
+      return 'Blob';
+    case 'unknown':
+      return 'unknown';
+  }
+}
+
+function comment(description: string | undefined, indent: string): string {
+  return description ? `${indent}// ${description}\n` : '';
+}
+
+function objectType(properties: Record<string, Schema>, indent: string): string {
+  const inner = indent + '  ';
+  const lines = Object.entries(properties).map(([key, property]) => {
+    const optional = property.def.kind === 'optional' ? '?' : '';
+    return `${comment(property.description, inner)}${inner}${key}${optional}: ${typeOf(property, inner)};\n`;
+  });
+  return lines.length > 0 ? `{\n${lines.join('')}${indent}}` : '{}';
+}
+
+// `export interface` for objects, `export type` for everything else
+function declaration(name: string, target: Schema, description = target.description): string {
+  const body = target.def.kind === 'object'
+    ? `export interface ${name} ${objectType(target.def.properties, '')}`
+    : `export type ${name} = ${typeOf(target)};`;
+  return `${comment(description, '')}${body}\n`;
+}
+
+// Required unless every field may be left out
+function isRequired(target: Schema): boolean {
+  const { def } = target;
+  if (def.kind === 'object') return Object.values(def.properties).some(property => property.def.kind !== 'optional') || (def.minProperties ?? 0) > 0;
+  return def.kind !== 'record' || (def.minProperties ?? 0) > 0;
+}
+
+function operation(operationId: string, route: RouteContract): { types: string[]; fn: string } {
+  const name = pascalCase(operationId);
+  const types: string[] = [];
+  const args: string[] = [];
+  const init: string[] = [];
+
+  const pathParams = route.params?.def.kind === 'object' ? route.params.def.properties : {};
+  for (const [param, target] of Object.entries(pathParams)) {
+    args.push(`${param}: ${typeOf(target)}`);
+  }
+  const path = route.path.split(/(:\w+)/).filter(Boolean)
+    .map(part => part.startsWith(':') ? `encodeURIComponent(${part.slice(1)})` : quote(part))
+    .join(' + ');
+
+  for (const [kind, target] of [['body', route.body], ['form', route.form], ['query', route.query]] as const) {
+    if (!target) continue;
+    const typeName = `${name}${pascalCase(kind)}`;
+    types.push(declaration(typeName, target));
+    args.push(isRequired(target) ? `${kind}: ${typeName}` : `${kind}: ${typeName} = {}`);
+    init.push(kind);
+  }
+
+  types.push(declaration(`${name}Response`, route.response));
+  const options = init.length > 0 ? `, { ${init.join(', ')} }` : '';
+  const fn = `${comment(route.summary, '')}export function ${operationId}(${args.join(', ')}): Promise<${name}Response> {\n`
+    + `  return request(${quote(route.method.toUpperCase())}, ${path}${options});\n}\n`;
+  return { types, fn };
+}
+
+export function generateClient(): string {
+  const modelTypes = models.map(model => {
+    if (model.def.kind !== 'ref') throw new Error('Models must be named with s.ref');
+    return declaration(model.def.name, model.def.target, model.description ?? model.def.target.description);
+  });
+
+  const operations = (Object.entries(routes) as [string, RouteContract][])
+    .filter(([, route]) => !route.download)
+    .map(([operationId, route]) => operation(operationId, route));
+
+  return [
+    HEADER,
+    '// ============ MODELS ============\n',
+    ...modelTypes,
+    '// ============ REQUESTS AND RESPONSES ============\n',
+    ...operations.flatMap(op => op.types),
+    RUNTIME,
+    '// ============ OPERATIONS ============\n',
+    ...operations.map(op => op.fn),
+  ].join('\n');
+}
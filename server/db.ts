@@ -1,6 +1,42 @@
-import Database, { Database as DatabaseInstance } from 'better-sqlite3';
+import { Database as DatabaseInstance } from 'better-sqlite3';
+import crypto from 'crypto';
 import path from 'path';
 import fs from 'fs';
+import { openDatabase, migrate } from './migrations.js';
+import { CLOSING_SOON_HOURS, LOW_CONFIDENCE_THRESHOLD, DiagnosedField, seasonOf, applyFieldOverrides } from './parser.js';
+import { Infer } from './schema.js';
+import {
+  EntryStatusSchema,
+  ParseDiagnosticsSchema,
+  GenderGroupSchema,
+  BallColourSchema,
+  CategoryGroupsSchema,
+  SourceSpanSchema,
+  TournamentSourceSchema,
+  FieldOverrideSchema,
+  FieldOverridesSchema,
+  TournamentSchema,
+  ChangeTypeSchema,
+  FieldChangeSchema,
+  TournamentChangeSchema,
+  ImportRecordSchema,
+  InfographicMetadataSchema,
+  TrashBatchSchema,
+  TournamentFacetsSchema,
+  RoleSchema,
+  UserSchema,
+  ApiKeySchema,
+  ArchiveFilterSchema,
+  TournamentSortSchema,
+  JobTypeSchema,
+  JobStatusSchema,
+  JobStageSchema,
+  JobSchema,
+  ImportResultSchema,
+  InfographicResultSchema,
+  DataChangeActionSchema,
+  DataChangeSchema
+} from './apiSchema.js';
 
 // Use data directory for persistence on fly.io
 const DATA_DIR = process.env.DATA_DIR || './data';
@@ -9,72 +45,533 @@ if (!fs.existsSync(DATA_DIR)) {
 }
 
 const dbPath = path.join(DATA_DIR, 'tournaments.db');
-const db: DatabaseInstance = new Database(dbPath);
-
-// Enable WAL mode for better concurrent access
-db.pragma('journal_mode = WAL');
-
-// Create tournaments table if it doesn't exist
-db.exec(`
-  CREATE TABLE IF NOT EXISTS tournaments (
-    id TEXT PRIMARY KEY,
-    title TEXT NOT NULL,
-    gender TEXT NOT NULL,
-    eventType TEXT NOT NULL,
-    grade TEXT NOT NULL,
-    venue TEXT NOT NULL,
-    postcode TEXT,
-    ltaCode TEXT NOT NULL,
-    date TEXT NOT NULL,
-    month TEXT NOT NULL,
-    category TEXT NOT NULL,
-    organiserEmail TEXT,
-    deadlineCD TEXT,
-    deadlineWD TEXT,
-    createdAt TEXT DEFAULT (datetime('now')),
-    updatedAt TEXT DEFAULT (datetime('now'))
-  )
-`);
-
-// Create index on ltaCode for faster lookups
-db.exec(`CREATE INDEX IF NOT EXISTS idx_ltaCode ON tournaments(ltaCode)`);
-
-export interface Tournament {
-  id: string;
-  title: string;
-  gender: string;
-  eventType: string;
-  grade: string;
-  venue: string;
-  postcode: string;
-  ltaCode: string;
-  date: string;
-  month: string;
-  category: string;
-  organiserEmail: string;
-  deadlineCD: string;
-  deadlineWD: string;
+const db: DatabaseInstance = openDatabase(dbPath);
+
+// Schema changes ship as numbered migrations in migrations.ts; the server
+// refuses to start if one fails
+migrate(db, { log: message => console.log(message) });
+
+// The shapes the API serves are defined once, in apiSchema.ts
+export type EntryStatus = Infer<typeof EntryStatusSchema>;
+export type ParseDiagnostics = Infer<typeof ParseDiagnosticsSchema>;
+export type GenderGroup = Infer<typeof GenderGroupSchema>;
+export type BallColour = Infer<typeof BallColourSchema>;
+export type CategoryGroups = Infer<typeof CategoryGroupsSchema>;
+export type SourceSpan = Infer<typeof SourceSpanSchema>;
+export type TournamentSource = Infer<typeof TournamentSourceSchema>;
+export type FieldOverride = Infer<typeof FieldOverrideSchema>;
+export type FieldOverrides = Infer<typeof FieldOverridesSchema>;
+export type ChangeType = Infer<typeof ChangeTypeSchema>;
+export type FieldChange = Infer<typeof FieldChangeSchema>;
+export type TournamentChange = Infer<typeof TournamentChangeSchema>;
+export type ImportRecord = Infer<typeof ImportRecordSchema>;
+export type InfographicMetadata = Infer<typeof InfographicMetadataSchema>;
+export type TrashBatch = Infer<typeof TrashBatchSchema>;
+export type TournamentFacets = Infer<typeof TournamentFacetsSchema>;
+export type Role = Infer<typeof RoleSchema>;
+export type User = Infer<typeof UserSchema>;
+export type ApiKey = Infer<typeof ApiKeySchema>;
+export type ArchiveFilter = Infer<typeof ArchiveFilterSchema>;
+export type TournamentSort = Infer<typeof TournamentSortSchema>;
+export type JobType = Infer<typeof JobTypeSchema>;
+export type JobStatus = Infer<typeof JobStatusSchema>;
+export type JobStage = Infer<typeof JobStageSchema>;
+export type Job = Infer<typeof JobSchema>;
+export type ImportResult = Infer<typeof ImportResultSchema>;
+export type InfographicResult = Infer<typeof InfographicResultSchema>;
+export type DataChangeAction = Infer<typeof DataChangeActionSchema>;
+export type DataChange = Infer<typeof DataChangeSchema>;
+
+export interface Tournament extends Infer<typeof TournamentSchema> {
+  // The tournament as last parsed, before its overrides; only kept for edited ones and never served
+  parsed?: Tournament | null;
+}
+
+export interface TrashContents {
+  tournaments: Tournament[];
+  infographics: InfographicMetadata[];
+}
+
+// What to take back out of the trash: a whole batch, or items by id
+export interface TrashSelection {
+  batch?: string;
+  tournamentIds?: string[];
+  infographicIds?: string[];
+}
+
+export interface NewImport {
+  filename: string;
+  sha256: string;
+  pageCount: number;
+  mode: string;
+  // Null when the upload covered all counties
+  counties: string[] | null;
+}
+
+// What an upload did to the stored tournaments
+export interface ImportSummary {
+  importedAt: string;
+  added: number;
+  updated: number;
+  unchanged: number;
+  disappeared: number;
+  changes: TournamentChange[];
+}
+
+// Fields compared on re-import. Derived fields (ISO dates, deadline timestamps,
+// category groups) are rewritten with them but not listed as separate changes
+const COMPARED_FIELDS = [
+  'title', 'gender', 'eventType', 'grade', 'venue', 'postcode', 'county', 'date', 'month',
+  'category', 'organiserEmail', 'deadlineCD', 'deadlineWD',
+] as const satisfies readonly (keyof Tournament)[];
+
+// Raw row shape - diagnostics, source, overrides and parsed are stored as JSON text
+type TournamentRow = Omit<Tournament, 'diagnostics' | 'source' | 'overrides' | 'parsed'> & {
+  diagnostics: string | null;
+  source: string | null;
+  overrides: string | null;
+  parsed: string | null;
+};
+
+function rowToTournament(row: TournamentRow): Tournament {
+  return {
+    ...row,
+    diagnostics: row.diagnostics ? JSON.parse(row.diagnostics) : null,
+    source: row.source ? JSON.parse(row.source) : null,
+    overrides: row.overrides ? JSON.parse(row.overrides) : null,
+    parsed: row.parsed ? JSON.parse(row.parsed) : null,
+  };
+}
+
+// Lists leave out the source snippets, which are fetched one tournament at a time
+function rowToListedTournament({ source, parsed, ...row }: TournamentRow): Tournament {
+  return {
+    ...row,
+    diagnostics: row.diagnostics ? JSON.parse(row.diagnostics) : null,
+    overrides: row.overrides ? JSON.parse(row.overrides) : null,
+  };
+}
+
+function tournamentToRow(tournament: Tournament): TournamentRow {
+  return {
+    ...tournament,
+    diagnostics: tournament.diagnostics ? JSON.stringify(tournament.diagnostics) : null,
+    // Rows saved in a change's `previous` before seasons were kept have none
+    season: tournament.season ?? seasonOf(tournament.ltaCode),
+    importId: tournament.importId ?? null,
+    source: tournament.source ? JSON.stringify(tournament.source) : null,
+    overrides: tournament.overrides ? JSON.stringify(tournament.overrides) : null,
+    parsed: tournament.parsed ? JSON.stringify(tournament.parsed) : null,
+  };
+}
+
+/**
+ * The stored form of a parsed tournament: hand-edited fields keep their edits
+ * (with derived fields following, as in applyFieldOverrides) and the parsed
+ * tournament is kept alongside for reverting. Edits the calendar now agrees
+ * with are dropped.
+ */
+function withOverrides(parsed: Tournament, overrides: FieldOverrides | null | undefined): Tournament {
+  const kept: FieldOverrides = {};
+  for (const [field, override] of Object.entries(overrides ?? {}) as [DiagnosedField, FieldOverride][]) {
+    if (override.value !== parsed[field]) {
+      kept[field] = { ...override, parsed: parsed[field] };
+    }
+  }
+  const { source, importId, overrides: _overrides, parsed: _parsed, ...snapshot } = parsed;
+  if (Object.keys(kept).length === 0) {
+    return { ...snapshot, source, importId, overrides: null, parsed: null };
+  }
+
+  const values = Object.fromEntries(Object.entries(kept).map(([field, override]) => [field, override.value]));
+  return { ...applyFieldOverrides(parsed, values), id: parsed.id, source, importId, overrides: kept, parsed: snapshot };
 }
 
 // Prepared statements for better performance
 const insertStmt = db.prepare(`
   INSERT OR IGNORE INTO tournaments
-  (id, title, gender, eventType, grade, venue, postcode, ltaCode, date, month, category, organiserEmail, deadlineCD, deadlineWD)
-  VALUES (@id, @title, @gender, @eventType, @grade, @venue, @postcode, @ltaCode, @date, @month, @category, @organiserEmail, @deadlineCD, @deadlineWD)
+  (id, title, gender, eventType, grade, venue, postcode, ltaCode, county, date, month, startDate, endDate, season, category, ageGroup, genderGroup, ballColour, organiserEmail, deadlineCD, deadlineWD, deadlineCDAt, deadlineWDAt, diagnostics, importId, source, overrides, parsed)
+  VALUES (@id, @title, @gender, @eventType, @grade, @venue, @postcode, @ltaCode, @county, @date, @month, @startDate, @endDate, @season, @category, @ageGroup, @genderGroup, @ballColour, @organiserEmail, @deadlineCD, @deadlineWD, @deadlineCDAt, @deadlineWDAt, @diagnostics, @importId, @source, @overrides, @parsed)
+`);
+
+// Undated tournaments sort last; from/to are optional ISO bounds on the event dates
+const getAllStmt = db.prepare(`
+  SELECT * FROM tournaments
+  WHERE deletedAt IS NULL
+    AND (@from IS NULL OR COALESCE(endDate, startDate) >= @from)
+    AND (@to IS NULL OR startDate <= @to)
+  ORDER BY startDate IS NULL, startDate ASC, ltaCode ASC
+`);
+const updateStmt = db.prepare(`
+  UPDATE tournaments SET
+    title = @title, gender = @gender, eventType = @eventType, grade = @grade, venue = @venue, postcode = @postcode,
+    ltaCode = @ltaCode, county = @county, date = @date, month = @month, startDate = @startDate, endDate = @endDate,
+    season = @season, category = @category, ageGroup = @ageGroup, genderGroup = @genderGroup, ballColour = @ballColour,
+    organiserEmail = @organiserEmail, deadlineCD = @deadlineCD, deadlineWD = @deadlineWD,
+    deadlineCDAt = @deadlineCDAt, deadlineWDAt = @deadlineWDAt, diagnostics = @diagnostics, importId = @importId,
+    source = @source, overrides = @overrides, parsed = @parsed, updatedAt = datetime('now')
+  WHERE id = @id
+`);
+const getByIdStmt = db.prepare('SELECT * FROM tournaments WHERE id = ? AND deletedAt IS NULL');
+const getTrashedByIdStmt = db.prepare('SELECT * FROM tournaments WHERE id = ? AND deletedAt IS NOT NULL');
+const getByIdsStmt = db.prepare(`
+  SELECT * FROM tournaments WHERE id IN (SELECT value FROM json_each(?)) AND deletedAt IS NULL
+  ORDER BY startDate IS NULL, startDate ASC, ltaCode ASC, id ASC
+`);
+const getBatchTournamentIdsStmt = db.prepare('SELECT id FROM tournaments WHERE deleteBatch = ? AND deletedAt IS NOT NULL');
+const trashStmt = db.prepare('UPDATE tournaments SET deletedAt = ?, deleteBatch = ? WHERE id = ? AND deletedAt IS NULL');
+const trashAllStmt = db.prepare('UPDATE tournaments SET deletedAt = ?, deleteBatch = ? WHERE deletedAt IS NULL');
+const countStmt = db.prepare('SELECT COUNT(*) as count FROM tournaments WHERE deletedAt IS NULL');
+const insertChangeStmt = db.prepare(`
+  INSERT INTO tournament_changes (tournamentId, ltaCode, title, changeType, changes, importedAt, importId, previous)
+  VALUES (@tournamentId, @ltaCode, @title, @changeType, @changes, @importedAt, @importId, @previous)
 `);
+const getImportChangesStmt = db.prepare('SELECT * FROM tournament_changes WHERE importId = ? ORDER BY id');
+const getImportRestoredIdsStmt = db.prepare(`
+  SELECT tournamentId FROM tournament_changes
+  WHERE importId = ? AND changeType = 'updated' AND json_extract(previous, '$.deletedAt') IS NOT NULL
+  ORDER BY id
+`);
+const deleteImportChangesStmt = db.prepare('DELETE FROM tournament_changes WHERE importId = ?');
+const trashImportedTournamentStmt = db.prepare(
+  'UPDATE tournaments SET deletedAt = ?, deleteBatch = ? WHERE id = ? AND importId = ? AND deletedAt IS NULL'
+);
+const insertImportStmt = db.prepare(`
+  INSERT INTO imports (filename, sha256, importedAt, pageCount, mode, counties)
+  VALUES (@filename, @sha256, @importedAt, @pageCount, @mode, @counties)
+`);
+const updateImportCountsStmt = db.prepare(`
+  UPDATE imports SET importedAt = @importedAt, parsed = @parsed, added = @added, updated = @updated,
+    unchanged = @unchanged, disappeared = @disappeared
+  WHERE id = @id
+`);
+const getImportsStmt = db.prepare('SELECT * FROM imports ORDER BY id DESC');
+const getImportByIdStmt = db.prepare('SELECT * FROM imports WHERE id = ?');
+const getActiveImportByShaStmt = db.prepare('SELECT * FROM imports WHERE sha256 = ? AND rolledBackAt IS NULL ORDER BY id DESC');
+const getLatestActiveImportStmt = db.prepare('SELECT * FROM imports WHERE rolledBackAt IS NULL ORDER BY id DESC LIMIT 1');
+const getImportTournamentsStmt = db.prepare('SELECT * FROM tournaments WHERE importId = ? AND deletedAt IS NULL ORDER BY startDate IS NULL, startDate ASC, ltaCode ASC');
+const markRolledBackStmt = db.prepare("UPDATE imports SET rolledBackAt = ? WHERE id = ?");
+const getHistoryStmt = db.prepare('SELECT * FROM tournament_changes WHERE tournamentId = ? ORDER BY id DESC');
+const getLatestChangesStmt = db.prepare(`
+  SELECT * FROM tournament_changes
+  WHERE importedAt = (SELECT MAX(importedAt) FROM tournament_changes)
+  ORDER BY id
+`);
+const facetSeasonsStmt = db.prepare(
+  'SELECT DISTINCT season FROM tournaments WHERE deletedAt IS NULL AND season IS NOT NULL ORDER BY season DESC'
+);
+const countArchivedStmt = db.prepare('SELECT COUNT(*) AS count FROM tournaments WHERE deletedAt IS NULL AND archivedAt IS NOT NULL');
+const archiveEndedStmt = db.prepare(`
+  UPDATE tournaments SET archivedAt = @now
+  WHERE archivedAt IS NULL AND COALESCE(endDate, startDate) < @today
+  RETURNING id
+`);
+// A re-import or rollback can move a tournament's dates forward again
+const unarchiveStmt = db.prepare(`
+  UPDATE tournaments SET archivedAt = NULL
+  WHERE archivedAt IS NOT NULL AND (startDate IS NULL OR COALESCE(endDate, startDate) >= @today)
+  RETURNING id
+`);
+const insertInfographicStmt = db.prepare(`
+  INSERT OR IGNORE INTO infographics (id, filename, prompt, filters, tournamentCount, createdAt)
+  VALUES (@id, @filename, @prompt, @filters, @tournamentCount, @createdAt)
+`);
+const insertInfographicTournamentStmt = db.prepare(
+  'INSERT OR IGNORE INTO infographic_tournaments (infographicId, tournamentId, position) VALUES (?, ?, ?)'
+);
+const getInfographicsStmt = db.prepare('SELECT * FROM infographics WHERE deletedAt IS NULL ORDER BY createdAt DESC, id DESC');
+const getInfographicByIdStmt = db.prepare('SELECT * FROM infographics WHERE id = ? AND deletedAt IS NULL');
+const trashInfographicStmt = db.prepare('UPDATE infographics SET deletedAt = ?, deleteBatch = ? WHERE id = ? AND deletedAt IS NULL');
+const getInfographicTournamentIdsStmt = db.prepare(
+  'SELECT tournamentId FROM infographic_tournaments WHERE infographicId = ? ORDER BY position'
+);
+const deleteInfographicTournamentsStmt = db.prepare('DELETE FROM infographic_tournaments WHERE infographicId = ?');
+const deleteInfographicStmt = db.prepare('DELETE FROM infographics WHERE id = ?');
+const getTrashedTournamentsStmt = db.prepare('SELECT * FROM tournaments WHERE deletedAt IS NOT NULL ORDER BY deletedAt DESC, ltaCode ASC');
+const getTrashedInfographicsStmt = db.prepare('SELECT * FROM infographics WHERE deletedAt IS NOT NULL ORDER BY deletedAt DESC, createdAt DESC');
+const restoreBatchStmt = db.prepare(`
+  UPDATE tournaments SET deletedAt = NULL, deleteBatch = NULL WHERE deleteBatch = ? AND deletedAt IS NOT NULL
+`);
+const restoreTournamentStmt = db.prepare('UPDATE tournaments SET deletedAt = NULL, deleteBatch = NULL WHERE id = ? AND deletedAt IS NOT NULL');
+const restoreInfographicBatchStmt = db.prepare(`
+  UPDATE infographics SET deletedAt = NULL, deleteBatch = NULL WHERE deleteBatch = ? AND deletedAt IS NOT NULL
+`);
+const restoreInfographicStmt = db.prepare('UPDATE infographics SET deletedAt = NULL, deleteBatch = NULL WHERE id = ? AND deletedAt IS NOT NULL');
+const purgeTournamentsStmt = db.prepare('DELETE FROM tournaments WHERE deletedAt IS NOT NULL AND deletedAt <= ?');
+const getExpiredInfographicsStmt = db.prepare('SELECT * FROM infographics WHERE deletedAt IS NOT NULL AND deletedAt <= ?');
+const getCachedExtractionStmt = db.prepare('SELECT records FROM extraction_cache WHERE hash = ? AND provider = ?');
+const saveCachedExtractionStmt = db.prepare('INSERT OR REPLACE INTO extraction_cache (hash, provider, records) VALUES (?, ?, ?)');
+const insertUserStmt = db.prepare('INSERT INTO users (username, passwordHash, role) VALUES (?, ?, ?)');
+const getUsersStmt = db.prepare('SELECT id, username, role, createdAt FROM users ORDER BY username');
+const getUserByIdStmt = db.prepare('SELECT id, username, role, createdAt FROM users WHERE id = ?');
+const getUserLoginStmt = db.prepare('SELECT * FROM users WHERE username = ?');
+const countUsersStmt = db.prepare('SELECT COUNT(*) AS count FROM users');
+const updateUserRoleStmt = db.prepare('UPDATE users SET role = ? WHERE username = ?');
+const updateUserPasswordStmt = db.prepare('UPDATE users SET passwordHash = ? WHERE username = ?');
+const deleteUserStmt = db.prepare('DELETE FROM users WHERE username = ?');
+const insertSessionStmt = db.prepare('INSERT INTO sessions (tokenHash, userId, createdAt, expiresAt) VALUES (?, ?, ?, ?)');
+const getSessionUserStmt = db.prepare(`
+  SELECT users.id, users.username, users.role, users.createdAt FROM sessions
+  JOIN users ON users.id = sessions.userId
+  WHERE sessions.tokenHash = ? AND sessions.expiresAt > ?
+`);
+const deleteSessionStmt = db.prepare('DELETE FROM sessions WHERE tokenHash = ?');
+const deleteUserSessionsStmt = db.prepare('DELETE FROM sessions WHERE userId = (SELECT id FROM users WHERE username = ?)');
+const deleteExpiredSessionsStmt = db.prepare('DELETE FROM sessions WHERE expiresAt <= ?');
+const insertApiKeyStmt = db.prepare(
+  'INSERT INTO api_keys (name, role, keyHash, prefix, createdAt) VALUES (?, ?, ?, ?, ?)'
+);
+const apiKeyColumns = 'id, name, role, prefix, createdAt, lastUsedAt, revokedAt';
+const getApiKeysStmt = db.prepare(`SELECT ${apiKeyColumns} FROM api_keys ORDER BY revokedAt IS NOT NULL, createdAt DESC, id DESC`);
+const getApiKeyByIdStmt = db.prepare(`SELECT ${apiKeyColumns} FROM api_keys WHERE id = ?`);
+const getApiKeyByHashStmt = db.prepare(`SELECT ${apiKeyColumns} FROM api_keys WHERE keyHash = ? AND revokedAt IS NULL`);
+const touchApiKeyStmt = db.prepare('UPDATE api_keys SET lastUsedAt = ? WHERE id = ?');
+const revokeApiKeyStmt = db.prepare('UPDATE api_keys SET revokedAt = ? WHERE id = ? AND revokedAt IS NULL');
+const insertJobStmt = db.prepare(`
+  INSERT INTO jobs (id, type, label, input, status, createdAt) VALUES (@id, @type, @label, @input, 'queued', @createdAt)
+`);
+const getJobByIdStmt = db.prepare('SELECT * FROM jobs WHERE id = ?');
+const getJobsStmt = db.prepare(`
+  SELECT * FROM jobs
+  WHERE (@type IS NULL OR type = @type)
+    AND (@statuses IS NULL OR status IN (SELECT value FROM json_each(@statuses)))
+  ORDER BY createdAt DESC, rowid DESC
+  LIMIT @limit
+`);
+const getJobInputStmt = db.prepare('SELECT input FROM jobs WHERE id = ?');
+const getNextQueuedJobStmt = db.prepare("SELECT id FROM jobs WHERE status = 'queued' ORDER BY createdAt, rowid LIMIT 1");
+const startJobStmt = db.prepare(`
+  UPDATE jobs SET status = 'running', startedAt = ?, attempts = attempts + 1,
+    stage = NULL, progressCurrent = NULL, progressTotal = NULL, message = NULL
+  WHERE id = ?
+`);
+const updateJobProgressStmt = db.prepare(`
+  UPDATE jobs SET stage = @stage, progressCurrent = @current, progressTotal = @total, message = @message
+  WHERE id = @id AND status = 'running'
+`);
+const finishJobStmt = db.prepare(`
+  UPDATE jobs SET status = @status, result = @result, error = @error, finishedAt = @finishedAt,
+    stage = NULL, progressCurrent = NULL, progressTotal = NULL, message = NULL
+  WHERE id = @id
+`);
+const cancelQueuedJobStmt = db.prepare(`
+  UPDATE jobs SET status = 'cancelled', cancelRequested = 1, finishedAt = ? WHERE id = ? AND status = 'queued'
+`);
+const requestJobCancelStmt = db.prepare("UPDATE jobs SET cancelRequested = 1 WHERE id = ? AND status = 'running'");
+const cancelInterruptedJobsStmt = db.prepare(`
+  UPDATE jobs SET status = 'cancelled', finishedAt = ? WHERE status = 'running' AND cancelRequested = 1
+`);
+const requeueInterruptedJobsStmt = db.prepare(`
+  UPDATE jobs SET status = 'queued', stage = NULL, progressCurrent = NULL, progressTotal = NULL, message = NULL
+  WHERE status = 'running'
+`);
+const getActiveImportJobByShaStmt = db.prepare(`
+  SELECT * FROM jobs WHERE type = 'import' AND status IN ('queued', 'running') AND json_extract(input, '$.sha256') = ?
+`);
+const getExpiredJobIdsStmt = db.prepare(`
+  SELECT id FROM jobs WHERE status IN ('succeeded', 'failed', 'cancelled') AND finishedAt <= ?
+`);
+const deleteJobStmt = db.prepare('DELETE FROM jobs WHERE id = ?');
+
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
 
-const getAllStmt = db.prepare('SELECT * FROM tournaments ORDER BY date ASC');
-const getByIdStmt = db.prepare('SELECT * FROM tournaments WHERE id = ?');
-const deleteStmt = db.prepare('DELETE FROM tournaments WHERE id = ?');
-const deleteAllStmt = db.prepare('DELETE FROM tournaments');
-const countStmt = db.prepare('SELECT COUNT(*) as count FROM tournaments');
+export function getAllTournaments(range: DateRange = {}): Tournament[] {
+  const rows = getAllStmt.all({ from: range.from ?? null, to: range.to ?? null }) as TournamentRow[];
+  return rows.map(rowToListedTournament);
+}
+
+// Filters, order and page for the tournament list; every filter is optional
+export interface TournamentQuery extends DateRange {
+  // Season like "2025/26"
+  season?: string;
+  // Defaults to "exclude", or "include" when a season is given
+  archived?: ArchiveFilter;
+  month?: string;
+  gender?: string;
+  grade?: string;
+  eventType?: string;
+  // Exact category label, e.g. "12U Boys"
+  category?: string;
+  // An age group like "14U" or one of AGE_GROUP_FILTERS
+  ageGroup?: string;
+  genderGroup?: string;
+  county?: string;
+  // Case-insensitive part of the venue, spaces ignored ("st ann" matches "St Anns" and "StAnn's")
+  venue?: string;
+  // Free text over title, venue and organiser email; every word must match the start of a word
+  search?: string;
+  // Entry statuses at `now`; tournaments without deadlines never match
+  status?: EntryStatus[];
+  needsReview?: boolean;
+  sort?: TournamentSort;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+// Which tournaments a list or the facets cover
+export type TournamentScope = Pick<TournamentQuery, 'season' | 'archived'>;
 
-export function getAllTournaments(): Tournament[] {
-  return getAllStmt.all() as Tournament[];
+export interface TournamentPage {
+  tournaments: Tournament[];
+  // Matches before limit and offset
+  total: number;
+}
+
+// Grouped age filters, accepted in place of a single age group
+export const AGE_GROUP_FILTERS: Record<string, string> = {
+  'Juniors': "ageGroup LIKE '%U' AND ballColour IS NULL",
+  'Adults': "(ageGroup = 'Open' OR ageGroup LIKE '%+')",
+  'Seniors': "ageGroup LIKE '%+'",
+  'Red Ball': "ballColour = 'red'",
+  'Orange Ball': "ballColour = 'orange'",
+  'Green Ball': "ballColour = 'green'",
+};
+
+// Same rules as getEntryStatus in parser.ts; ISO timestamps compare as strings
+const ENTRY_STATUS_SQL = `CASE
+  WHEN deadlineWDAt IS NOT NULL AND deadlineWDAt <= @now THEN 'withdrawal_closed'
+  WHEN deadlineCDAt IS NULL THEN NULL
+  WHEN deadlineCDAt <= @now THEN 'entries_closed'
+  WHEN deadlineCDAt <= @closingSoon THEN 'closing_soon'
+  ELSE 'open'
+END`;
+
+const SORT_SQL: Record<TournamentSort, string> = {
+  date: 'startDate',
+  ltaCode: 'ltaCode',
+  title: 'title COLLATE NOCASE',
+  category: 'category COLLATE NOCASE',
+  gender: 'gender',
+  eventType: 'eventType',
+  // "Grade 3" sorts by its number
+  grade: "CAST(substr(grade, instr(grade, ' ') + 1) AS INTEGER)",
+  venue: 'venue COLLATE NOCASE',
+};
+
+// Each word becomes a quoted prefix term, so user input can't break the FTS5 query syntax
+function toFtsQuery(search: string): string | null {
+  const words = search.match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map(word => `"${word}"*`).join(' ') : null;
+}
+
+// Trashed tournaments never match; archived ones only as the scope asks
+function scopeConditions(scope: TournamentScope, params: Record<string, string | number>): string[] {
+  const conditions = ['deletedAt IS NULL'];
+  const archived = scope.archived ?? (scope.season ? 'include' : 'exclude');
+  if (archived === 'exclude') conditions.push('archivedAt IS NULL');
+  if (archived === 'only') conditions.push('archivedAt IS NOT NULL');
+  if (scope.season) {
+    conditions.push('season = @season');
+    params.season = scope.season;
+  }
+  return conditions;
+}
+
+export function queryTournaments(query: TournamentQuery, now: Date = new Date()): TournamentPage {
+  const params: Record<string, string | number> = {};
+  const conditions = scopeConditions(query, params);
+  const equals = (column: keyof TournamentQuery & keyof Tournament) => {
+    const value = query[column];
+    if (typeof value === 'string') {
+      conditions.push(`${column} = @${column}`);
+      params[column] = value;
+    }
+  };
+
+  if (query.from) {
+    conditions.push('COALESCE(endDate, startDate) >= @from');
+    params.from = query.from;
+  }
+  if (query.to) {
+    conditions.push('startDate <= @to');
+    params.to = query.to;
+  }
+  (['month', 'gender', 'grade', 'eventType', 'category', 'genderGroup', 'county'] as const).forEach(equals);
+  if (query.ageGroup) {
+    if (AGE_GROUP_FILTERS[query.ageGroup]) {
+      conditions.push(AGE_GROUP_FILTERS[query.ageGroup]);
+    } else {
+      equals('ageGroup');
+    }
+  }
+  if (query.venue) {
+    conditions.push("replace(lower(venue), ' ', '') LIKE @venue ESCAPE '\\'");
+    params.venue = `%${query.venue.toLowerCase().replace(/\s+/g, '').replace(/[\\%_]/g, c => `\\${c}`)}%`;
+  }
+  const fts = query.search ? toFtsQuery(query.search) : null;
+  if (fts) {
+    conditions.push('id IN (SELECT id FROM tournaments_fts WHERE tournaments_fts MATCH @search)');
+    params.search = fts;
+  }
+  if (query.status && query.status.length > 0) {
+    conditions.push(`(${ENTRY_STATUS_SQL}) IN (${query.status.map((_, i) => `@status${i}`).join(', ')})`);
+    query.status.forEach((status, i) => { params[`status${i}`] = status; });
+    params.now = now.toISOString();
+    params.closingSoon = new Date(now.getTime() + CLOSING_SOON_HOURS * 3600000).toISOString();
+  }
+  if (query.needsReview) {
+    conditions.push("json_extract(diagnostics, '$.confidence') < @reviewBelow");
+    params.reviewBelow = LOW_CONFIDENCE_THRESHOLD;
+  }
+
+  const where = `WHERE ${conditions.join(' AND ')}`;
+  const direction = query.order === 'desc' ? 'DESC' : 'ASC';
+  // Undated tournaments sort last either way; ties fall back to the default date order
+  const sort = query.sort ?? 'date';
+  const orderBy = `ORDER BY ${sort === 'date' ? 'startDate IS NULL, ' : ''}${SORT_SQL[sort]} ${direction}, startDate IS NULL, startDate ASC, ltaCode ASC, id ASC`;
+  const page = query.limit !== undefined ? `LIMIT ${query.limit} OFFSET ${query.offset ?? 0}` : query.offset ? `LIMIT -1 OFFSET ${query.offset}` : '';
+
+  const rows = db.prepare(`SELECT * FROM tournaments ${where} ${orderBy} ${page}`).all(params) as TournamentRow[];
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM tournaments ${where}`).get(params) as { total: number };
+  return { tournaments: rows.map(rowToListedTournament), total };
+}
+
+export function getTournamentFacets(scope: TournamentScope = {}): TournamentFacets {
+  const params: Record<string, string | number> = {};
+  const where = `WHERE ${scopeConditions(scope, params).join(' AND ')}`;
+  const distinct = (column: string) =>
+    (db.prepare(`SELECT DISTINCT ${column} AS value FROM tournaments ${where} AND ${column} IS NOT NULL ORDER BY ${column}`).all(params) as { value: string }[])
+      .map(row => row.value);
+  const needsReview = db.prepare(
+    `SELECT COUNT(*) AS count FROM tournaments ${where} AND json_extract(diagnostics, '$.confidence') < @reviewBelow`
+  ).get({ ...params, reviewBelow: LOW_CONFIDENCE_THRESHOLD }) as { count: number };
+  const months = db.prepare(
+    `SELECT month FROM tournaments ${where} GROUP BY month ORDER BY MIN(COALESCE(startDate, '9999-12-31')), month`
+  ).all(params) as { month: string }[];
+
+  return {
+    total: getTournamentCount(),
+    archived: (countArchivedStmt.get() as { count: number }).count,
+    seasons: (facetSeasonsStmt.all() as { season: string }[]).map(row => row.season),
+    needsReview: needsReview.count,
+    months: months.map(row => row.month),
+    genders: distinct('gender'),
+    grades: distinct('grade'),
+    eventTypes: distinct('eventType'),
+    counties: distinct('county'),
+    ageGroups: distinct('ageGroup'),
+    genderGroups: distinct('genderGroup'),
+  };
 }
 
 export function getTournamentById(id: string): Tournament | undefined {
-  return getByIdStmt.get(id) as Tournament | undefined;
+  const row = getByIdStmt.get(id) as TournamentRow | undefined;
+  return row ? rowToTournament(row) : undefined;
+}
+
+function getTrashedTournament(id: string): Tournament | undefined {
+  const row = getTrashedByIdStmt.get(id) as TournamentRow | undefined;
+  return row ? rowToTournament(row) : undefined;
+}
+
+// The stored tournaments among `ids`, without their sources, as lists serve them
+export function getListedTournaments(ids: string[]): Tournament[] {
+  if (ids.length === 0) return [];
+  return (getByIdsStmt.all(JSON.stringify(ids)) as TournamentRow[]).map(rowToListedTournament);
 }
 
 export function tournamentExists(id: string): boolean {
@@ -82,37 +579,266 @@ export function tournamentExists(id: string): boolean {
 }
 
 export function insertTournament(tournament: Tournament): boolean {
-  const result = insertStmt.run(tournament);
+  const result = insertStmt.run(tournamentToRow(tournament));
   return result.changes > 0;
 }
 
-export function insertTournaments(tournaments: Tournament[]): { added: number; skipped: number } {
-  let added = 0;
-  let skipped = 0;
+// `previous` is the full row an update replaced, only read by rollbacks
+type TournamentChangeRow = Omit<TournamentChange, 'changes'> & { changes: string; previous: string | null };
+
+function rowToChange({ previous, ...row }: TournamentChangeRow): TournamentChange {
+  return { ...row, changes: JSON.parse(row.changes) };
+}
+
+function diffTournaments(stored: Tournament, parsed: Tournament): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of COMPARED_FIELDS) {
+    const from = stored[field] ?? null;
+    const to = parsed[field] ?? null;
+    if (from !== to) {
+      changes.push({ field, from, to });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Stores a parsed calendar: new tournaments are inserted, stored ones whose fields
+ * changed are updated, and every addition or update is written to the change
+ * history. Trashed tournaments the calendar lists again are restored as updates.
+ * Stored tournaments in the uploaded counties that the calendar no longer lists
+ * (from its earliest date on) are reported as disappeared but kept.
+ * `counties` is null when the upload covered all counties; `importId` links the
+ * stored rows and history to an import record.
+ */
+export function upsertTournaments(tournaments: Tournament[], counties: string[] | null, importId: number | null = null): ImportSummary {
+  const importedAt = new Date().toISOString();
+  const summary: ImportSummary = { importedAt, added: 0, updated: 0, unchanged: 0, disappeared: 0, changes: [] };
+
+  const record = (tournament: Tournament, changeType: ChangeType, changes: FieldChange[] = [], previous?: Tournament) => {
+    const change = { tournamentId: tournament.id, ltaCode: tournament.ltaCode, title: tournament.title, changeType, changes, importedAt, importId };
+    const result = insertChangeStmt.run({
+      ...change,
+      changes: JSON.stringify(changes),
+      previous: previous ? JSON.stringify(previous) : null,
+    });
+    summary.changes.push({ id: Number(result.lastInsertRowid), ...change });
+  };
+
+  db.transaction(() => {
+    const seen = new Set<string>();
+    for (const t of tournaments) {
+      if (seen.has(t.id)) continue;
+      seen.add(t.id);
+
+      const live = getTournamentById(t.id);
+      // The calendar lists a trashed tournament again, so it comes back with its edits.
+      // The update's previous row keeps deletedAt, so a rollback trashes it again
+      const trashed = live ? undefined : getTrashedTournament(t.id);
+      const stored = live ?? trashed;
+      if (!stored) {
+        insertStmt.run(tournamentToRow({ ...t, importId }));
+        summary.added++;
+        record(t, 'added');
+        continue;
+      }
+
+      // Hand edits stay; changes are found between the parsed values
+      const changes = diffTournaments(stored.parsed ?? stored, t);
+      if (changes.length === 0 && !trashed) {
+        summary.unchanged++;
+        continue;
+      }
+      if (trashed) restoreTournamentStmt.run(t.id);
+      updateStmt.run(tournamentToRow(withOverrides({ ...t, importId }, stored.overrides)));
+      summary.updated++;
+      record(t, 'updated', changes, stored);
+    }
+
+    // An empty parse is more likely a bad PDF than a cancelled calendar
+    if (tournaments.length === 0) return;
+    const earliest = tournaments
+      .map(t => t.startDate)
+      .filter((d): d is string => d !== null)
+      .sort()[0] ?? null;
+
+    for (const stored of getAllTournaments({ from: earliest ?? undefined })) {
+      if (seen.has(stored.id)) continue;
+      if (counties && !counties.includes(stored.county)) continue;
+      summary.disappeared++;
+      record(stored, 'disappeared');
+    }
+  })();
+
+  return summary;
+}
+
+export function getTournamentHistory(id: string): TournamentChange[] {
+  const rows = getHistoryStmt.all(id) as TournamentChangeRow[];
+  return rows.map(rowToChange);
+}
+
+// Changes written by the most recent upload that changed anything
+export function getLatestChanges(): TournamentChange[] {
+  const rows = getLatestChangesStmt.all() as TournamentChangeRow[];
+  return rows.map(rowToChange);
+}
+
+type ImportRow = Omit<ImportRecord, 'counties'> & { counties: string };
+
+function rowToImport(row: ImportRow): ImportRecord {
+  return { ...row, counties: row.counties === 'all' ? 'all' : row.counties.split(',') };
+}
+
+/**
+ * Records an uploaded PDF and stores its tournaments (see upsertTournaments) in
+ * one transaction, so a failed upload leaves no import behind.
+ */
+export function createImport(meta: NewImport, tournaments: Tournament[]): { import: ImportRecord; summary: ImportSummary } {
+  return db.transaction(() => {
+    const result = insertImportStmt.run({
+      ...meta,
+      counties: meta.counties ? meta.counties.join(',') : 'all',
+      importedAt: new Date().toISOString(),
+    });
+    const id = Number(result.lastInsertRowid);
+
+    const summary = upsertTournaments(tournaments, meta.counties, id);
+    updateImportCountsStmt.run({
+      id,
+      importedAt: summary.importedAt,
+      parsed: tournaments.length,
+      added: summary.added,
+      updated: summary.updated,
+      unchanged: summary.unchanged,
+      disappeared: summary.disappeared,
+    });
+
+    return { import: getImportById(id)!, summary };
+  })();
+}
+
+export function getImports(): ImportRecord[] {
+  const rows = getImportsStmt.all() as ImportRow[];
+  return rows.map(rowToImport);
+}
+
+export function getImportById(id: number): ImportRecord | undefined {
+  const row = getImportByIdStmt.get(id) as ImportRow | undefined;
+  return row ? rowToImport(row) : undefined;
+}
+
+// The import of an identical file that is still in effect, if any
+export function findActiveImportBySha(sha256: string): ImportRecord | undefined {
+  const row = getActiveImportByShaStmt.get(sha256) as ImportRow | undefined;
+  return row ? rowToImport(row) : undefined;
+}
+
+export function getLatestActiveImport(): ImportRecord | undefined {
+  const row = getLatestActiveImportStmt.get() as ImportRow | undefined;
+  return row ? rowToImport(row) : undefined;
+}
+
+// Tournaments the import created or last changed
+export function getImportTournaments(id: number): Tournament[] {
+  const rows = getImportTournamentsStmt.all(id) as TournamentRow[];
+  return rows.map(rowToListedTournament);
+}
 
-  const insertMany = db.transaction((items: Tournament[]) => {
-    for (const t of items) {
-      const result = insertStmt.run(t);
-      if (result.changes > 0) {
-        added++;
+export function getImportChanges(id: number): TournamentChange[] {
+  const rows = getImportChangesStmt.all(id) as TournamentChangeRow[];
+  return rows.map(rowToChange);
+}
+
+// The tournaments an import brought back from the trash, recorded among its updates
+export function getImportRestoredTournamentIds(id: number): string[] {
+  return (getImportRestoredIdsStmt.all(id) as { tournamentId: string }[]).map(row => row.tournamentId);
+}
+
+/**
+ * Undoes an import: tournaments it added go to the trash as one batch,
+ * tournaments it updated get their previously parsed values back, and its
+ * change history is removed. Hand edits made since stay, as on a re-import, and
+ * rows purged since stay gone. Only safe for the latest import still in effect,
+ * since a later import may have built on it.
+ */
+export function rollbackImport(id: number): { removed: number; restored: number; trash: TrashBatch } {
+  return db.transaction(() => {
+    const trash = newTrashBatch();
+    let restored = 0;
+
+    const rows = getImportChangesStmt.all(id) as TournamentChangeRow[];
+    for (const row of rows) {
+      if (row.changeType === 'added') {
+        trash.tournaments += trashImportedTournamentStmt.run(trash.deletedAt, trash.batch, row.tournamentId, id).changes;
+      } else if (row.changeType === 'updated' && row.previous) {
+        const current = getTournamentById(row.tournamentId) ?? getTrashedTournament(row.tournamentId);
+        if (!current) continue;
+
+        const previous: Tournament = JSON.parse(row.previous);
+        const parsed = { ...(previous.parsed ?? previous), id: previous.id, source: previous.source, importId: previous.importId };
+        updateStmt.run(tournamentToRow(withOverrides(parsed, current.overrides)));
+        // It was in the trash until the import brought it back
+        if (previous.deletedAt) {
+          trashStmt.run(previous.deletedAt, previous.deleteBatch ?? null, row.tournamentId);
+        }
+        restored++;
+      }
+    }
+
+    deleteImportChangesStmt.run(id);
+    markRolledBackStmt.run(new Date().toISOString(), id);
+    return { removed: trash.tournaments, restored, trash };
+  })();
+}
+
+function newTrashBatch(): TrashBatch {
+  return { batch: crypto.randomUUID(), deletedAt: new Date().toISOString(), tournaments: 0, infographics: 0 };
+}
+
+/**
+ * Applies hand edits to a stored tournament. Values must already be normalized
+ * (see normalizeFieldValue); null reverts a field to its parsed value. Returns
+ * the updated tournament, or undefined when there is none.
+ */
+export function editTournament(id: string, edits: Partial<Record<DiagnosedField, string | null>>): Tournament | undefined {
+  return db.transaction(() => {
+    const stored = getTournamentById(id);
+    if (!stored) return undefined;
+
+    const parsed = { ...(stored.parsed ?? stored), source: stored.source, importId: stored.importId };
+    const overrides: FieldOverrides = { ...stored.overrides };
+    const editedAt = new Date().toISOString();
+    for (const [field, value] of Object.entries(edits) as [DiagnosedField, string | null][]) {
+      if (value === null) {
+        delete overrides[field];
       } else {
-        skipped++;
+        overrides[field] = { value, parsed: parsed[field], editedAt };
       }
     }
-  });
 
-  insertMany(tournaments);
-  return { added, skipped };
+    updateStmt.run(tournamentToRow(withOverrides(parsed, overrides)));
+    return getTournamentById(id);
+  })();
 }
 
-export function deleteTournament(id: string): boolean {
-  const result = deleteStmt.run(id);
-  return result.changes > 0;
+// Moves the tournament to the trash; null when there is no such tournament
+export function deleteTournament(id: string): TrashBatch | null {
+  const trashed = newTrashBatch();
+  trashed.tournaments = trashStmt.run(trashed.deletedAt, trashed.batch, id).changes;
+  return trashed.tournaments > 0 ? trashed : null;
+}
+
+// Moves every stored tournament to the trash as one batch
+export function deleteAllTournaments(): TrashBatch {
+  const trashed = newTrashBatch();
+  trashed.tournaments = trashAllStmt.run(trashed.deletedAt, trashed.batch).changes;
+  return trashed;
 }
 
-export function deleteAllTournaments(): number {
-  const result = deleteAllStmt.run();
-  return result.changes;
+// The tournaments one delete moved to the trash, while they are still there
+export function getTrashBatchTournamentIds(batch: string): string[] {
+  return (getBatchTournamentIdsStmt.all(batch) as { id: string }[]).map(row => row.id);
 }
 
 export function getTournamentCount(): number {
@@ -120,4 +846,336 @@ export function getTournamentCount(): number {
   return result.count;
 }
 
+// The UK calendar date at `now`; a tournament has ended once its last UK day is over
+function ukDate(now: Date): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: 'Europe/London' }).format(now);
+}
+
+/**
+ * Archives tournaments whose last day is before today (UK time), and unarchives
+ * any whose dates have since moved to today or later, and returns the ids of
+ * both. Undated tournaments are never archived.
+ */
+export function archiveEndedTournaments(now: Date = new Date()): { archived: string[]; unarchived: string[] } {
+  const today = ukDate(now);
+  const ids = (rows: unknown[]) => (rows as { id: string }[]).map(row => row.id);
+  return db.transaction(() => ({
+    archived: ids(archiveEndedStmt.all({ now: now.toISOString(), today })),
+    unarchived: ids(unarchiveStmt.all({ today })),
+  }))();
+}
+
+type InfographicRow = Omit<InfographicMetadata, 'filters' | 'tournamentIds'> & { filters: string };
+
+function rowToInfographic(row: InfographicRow): InfographicMetadata {
+  const tournamentIds = (getInfographicTournamentIdsStmt.all(row.id) as { tournamentId: string }[]).map(r => r.tournamentId);
+  return { ...row, filters: JSON.parse(row.filters), tournamentIds };
+}
+
+// Stores infographics with their tournament links; existing ids are left alone. Returns how many were added
+export function saveInfographics(infographics: InfographicMetadata[]): number {
+  return db.transaction(() => {
+    let added = 0;
+    for (const infographic of infographics) {
+      const result = insertInfographicStmt.run({ ...infographic, filters: JSON.stringify(infographic.filters ?? {}) });
+      if (result.changes === 0) continue;
+      added++;
+      infographic.tournamentIds.forEach((tournamentId, position) =>
+        insertInfographicTournamentStmt.run(infographic.id, tournamentId, position)
+      );
+    }
+    return added;
+  })();
+}
+
+// Newest first
+export function getInfographics(): InfographicMetadata[] {
+  return (getInfographicsStmt.all() as InfographicRow[]).map(rowToInfographic);
+}
+
+export function getInfographicById(id: string): InfographicMetadata | undefined {
+  const row = getInfographicByIdStmt.get(id) as InfographicRow | undefined;
+  return row ? rowToInfographic(row) : undefined;
+}
+
+// Moves the infographic to the trash; its image stays until the trash is purged
+export function deleteInfographicRecord(id: string): TrashBatch | null {
+  const trashed = newTrashBatch();
+  trashed.infographics = trashInfographicStmt.run(trashed.deletedAt, trashed.batch, id).changes;
+  return trashed.infographics > 0 ? trashed : null;
+}
+
+// ============ TRASH ============
+
+// Most recently deleted first
+export function getTrash(): TrashContents {
+  return {
+    tournaments: (getTrashedTournamentsStmt.all() as TournamentRow[]).map(rowToListedTournament),
+    infographics: (getTrashedInfographicsStmt.all() as InfographicRow[]).map(rowToInfographic),
+  };
+}
+
+// Returns how many tournaments and infographics came back
+export function restoreFromTrash(selection: TrashSelection): { tournaments: number; infographics: number } {
+  return db.transaction(() => {
+    let tournaments = 0;
+    let infographics = 0;
+    if (selection.batch) {
+      tournaments += restoreBatchStmt.run(selection.batch).changes;
+      infographics += restoreInfographicBatchStmt.run(selection.batch).changes;
+    }
+    for (const id of selection.tournamentIds ?? []) {
+      tournaments += restoreTournamentStmt.run(id).changes;
+    }
+    for (const id of selection.infographicIds ?? []) {
+      infographics += restoreInfographicStmt.run(id).changes;
+    }
+    return { tournaments, infographics };
+  })();
+}
+
+/**
+ * Permanently deletes what was moved to the trash at or before `before` (an ISO
+ * timestamp). Returns the infographics removed, whose images the caller deletes.
+ */
+export function purgeTrash(before: string): { tournaments: number; infographics: InfographicMetadata[] } {
+  return db.transaction(() => {
+    const infographics = (getExpiredInfographicsStmt.all(before) as InfographicRow[]).map(rowToInfographic);
+    for (const infographic of infographics) {
+      deleteInfographicTournamentsStmt.run(infographic.id);
+      deleteInfographicStmt.run(infographic.id);
+    }
+    return { tournaments: purgeTournamentsStmt.run(before).changes, infographics };
+  })();
+}
+
+// ============ ACCOUNTS ============
+
+// Usernames are unique regardless of case; throws SQLITE_CONSTRAINT_UNIQUE for a taken one
+export function createUser(username: string, passwordHash: string, role: Role): User {
+  const { lastInsertRowid } = insertUserStmt.run(username, passwordHash, role);
+  return getUserByIdStmt.get(lastInsertRowid) as User;
+}
+
+export function getUsers(): User[] {
+  return getUsersStmt.all() as User[];
+}
+
+export function countUsers(): number {
+  return (countUsersStmt.get() as { count: number }).count;
+}
+
+// The user with their password hash, for checking a login
+export function getUserLogin(username: string): (User & { passwordHash: string }) | undefined {
+  return getUserLoginStmt.get(username) as (User & { passwordHash: string }) | undefined;
+}
+
+/**
+ * Changes a user's role or password. A new password signs the user out
+ * everywhere. Returns undefined when there is no such user.
+ */
+export function updateUser(username: string, changes: { role?: Role; passwordHash?: string }): User | undefined {
+  return db.transaction(() => {
+    const user = getUserLoginStmt.get(username) as User | undefined;
+    if (!user) return undefined;
+    if (changes.role) {
+      updateUserRoleStmt.run(changes.role, username);
+    }
+    if (changes.passwordHash) {
+      updateUserPasswordStmt.run(changes.passwordHash, username);
+      deleteUserSessionsStmt.run(username);
+    }
+    return getUserByIdStmt.get(user.id) as User;
+  })();
+}
+
+// Deletes the user and their sessions
+export function deleteUser(username: string): boolean {
+  return db.transaction(() => {
+    deleteUserSessionsStmt.run(username);
+    return deleteUserStmt.run(username).changes > 0;
+  })();
+}
+
+export function createSession(tokenHash: string, userId: number, expiresAt: string, now: Date = new Date()): void {
+  insertSessionStmt.run(tokenHash, userId, now.toISOString(), expiresAt);
+}
+
+// The signed-in user, unless the session has expired
+export function getSessionUser(tokenHash: string, now: Date = new Date()): User | undefined {
+  return getSessionUserStmt.get(tokenHash, now.toISOString()) as User | undefined;
+}
+
+export function deleteSession(tokenHash: string): boolean {
+  return deleteSessionStmt.run(tokenHash).changes > 0;
+}
+
+export function deleteExpiredSessions(now: Date = new Date()): number {
+  return deleteExpiredSessionsStmt.run(now.toISOString()).changes;
+}
+
+export function createApiKey(name: string, role: Role, keyHash: string, prefix: string, now: Date = new Date()): ApiKey {
+  const { lastInsertRowid } = insertApiKeyStmt.run(name, role, keyHash, prefix, now.toISOString());
+  return getApiKeyByIdStmt.get(lastInsertRowid) as ApiKey;
+}
+
+// Active keys first, newest first
+export function getApiKeys(): ApiKey[] {
+  return getApiKeysStmt.all() as ApiKey[];
+}
+
+// The key with this hash, unless it was revoked; records the use
+export function useApiKey(keyHash: string, now: Date = new Date()): ApiKey | undefined {
+  const key = getApiKeyByHashStmt.get(keyHash) as ApiKey | undefined;
+  if (key) {
+    touchApiKeyStmt.run(now.toISOString(), key.id);
+  }
+  return key;
+}
+
+// Revoked keys stay listed; false when there is no such active key
+export function revokeApiKey(id: number, now: Date = new Date()): boolean {
+  return revokeApiKeyStmt.run(now.toISOString(), id).changes > 0;
+}
+
+export function getCachedExtraction<T>(hash: string, provider: string): T | undefined {
+  const row = getCachedExtractionStmt.get(hash, provider) as { records: string } | undefined;
+  return row ? JSON.parse(row.records) : undefined;
+}
+
+export function saveCachedExtraction<T>(hash: string, provider: string, records: T): void {
+  saveCachedExtractionStmt.run(hash, provider, JSON.stringify(records));
+}
+
+// ============ JOBS ============
+
+type JobRow = Omit<Job, 'progress' | 'result' | 'cancelRequested'> & {
+  input: string;
+  progressCurrent: number | null;
+  progressTotal: number | null;
+  result: string | null;
+  cancelRequested: number;
+};
+
+function rowToJob({ input, progressCurrent, progressTotal, result, cancelRequested, ...row }: JobRow): Job {
+  return {
+    ...row,
+    progress: progressTotal !== null ? { current: progressCurrent ?? 0, total: progressTotal } : null,
+    result: result ? JSON.parse(result) : null,
+    cancelRequested: cancelRequested === 1,
+  };
+}
+
+export interface NewJob {
+  id: string;
+  type: JobType;
+  label: string;
+  // The job's options, handed back to its handler
+  input: unknown;
+}
+
+export interface JobProgress {
+  stage: JobStage;
+  message: string;
+  current?: number;
+  total?: number;
+}
+
+export function insertJob(job: NewJob, now: Date = new Date()): Job {
+  insertJobStmt.run({ ...job, input: JSON.stringify(job.input), createdAt: now.toISOString() });
+  return getJobById(job.id)!;
+}
+
+export function getJobById(id: string): Job | undefined {
+  const row = getJobByIdStmt.get(id) as JobRow | undefined;
+  return row ? rowToJob(row) : undefined;
+}
+
+// Newest first
+export function getJobs(filter: { type?: JobType; statuses?: JobStatus[]; limit?: number } = {}): Job[] {
+  const rows = getJobsStmt.all({
+    type: filter.type ?? null,
+    statuses: filter.statuses?.length ? JSON.stringify(filter.statuses) : null,
+    limit: filter.limit ?? -1,
+  }) as JobRow[];
+  return rows.map(rowToJob);
+}
+
+export function getJobInput<T>(id: string): T | undefined {
+  const row = getJobInputStmt.get(id) as { input: string } | undefined;
+  return row ? JSON.parse(row.input) : undefined;
+}
+
+// Marks the oldest queued job running and returns it; undefined when the queue is empty
+export function startNextJob(now: Date = new Date()): Job | undefined {
+  return db.transaction(() => {
+    const next = getNextQueuedJobStmt.get() as { id: string } | undefined;
+    if (!next) return undefined;
+    startJobStmt.run(now.toISOString(), next.id);
+    return getJobById(next.id);
+  })();
+}
+
+// Only running jobs report progress; returns the updated job
+export function updateJobProgress(id: string, progress: JobProgress): Job | undefined {
+  updateJobProgressStmt.run({ id, current: progress.current ?? null, total: progress.total ?? null, ...progress });
+  return getJobById(id);
+}
+
+export function finishJob(
+  id: string,
+  outcome: { status: 'succeeded'; result: unknown } | { status: 'failed'; error: string } | { status: 'cancelled' },
+  now: Date = new Date()
+): Job | undefined {
+  finishJobStmt.run({
+    id,
+    status: outcome.status,
+    result: 'result' in outcome ? JSON.stringify(outcome.result) : null,
+    error: 'error' in outcome ? outcome.error : null,
+    finishedAt: now.toISOString(),
+  });
+  return getJobById(id);
+}
+
+/**
+ * A queued job is cancelled at once; a running one is flagged, and its handler
+ * stops at the next check. Finished jobs are left alone.
+ */
+export function requestJobCancel(id: string, now: Date = new Date()): Job | undefined {
+  return db.transaction(() => {
+    if (cancelQueuedJobStmt.run(now.toISOString(), id).changes === 0) {
+      requestJobCancelStmt.run(id);
+    }
+    return getJobById(id);
+  })();
+}
+
+/**
+ * Jobs still marked running were interrupted by a restart: they go back to the
+ * queue, unless they were being cancelled.
+ */
+export function requeueInterruptedJobs(now: Date = new Date()): { requeued: number; cancelled: number } {
+  return db.transaction(() => ({
+    cancelled: cancelInterruptedJobsStmt.run(now.toISOString()).changes,
+    requeued: requeueInterruptedJobsStmt.run().changes,
+  }))();
+}
+
+// A queued or running upload of the file with this hash
+export function findActiveImportJobBySha(sha256: string): Job | undefined {
+  const row = getActiveImportJobByShaStmt.get(sha256) as JobRow | undefined;
+  return row ? rowToJob(row) : undefined;
+}
+
+// Deletes jobs that finished on or before `before`; returns their ids
+export function deleteFinishedJobs(before: string): string[] {
+  return db.transaction(() => {
+    const ids = (getExpiredJobIdsStmt.all(before) as { id: string }[]).map(row => row.id);
+    for (const id of ids) {
+      deleteJobStmt.run(id);
+    }
+    return ids;
+  })();
+}
+
 export default db;
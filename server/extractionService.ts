@@ -0,0 +1,331 @@
+import crypto from 'crypto';
+import { GoogleGenAI, Type } from '@google/genai';
+import { Tournament } from './db.js';
+import {
+  CalendarEntry,
+  DiagnosedField,
+  LOW_CONFIDENCE_THRESHOLD,
+  applyFieldOverrides,
+  normalizeFieldValue,
+  parseTextEntries,
+} from './parser.js';
+
+// One tournament as returned by an AI extraction (the Gemini response schema)
+export interface AiTournamentRecord {
+  title: string;
+  gender: string;
+  eventType: string;
+  grade: string;
+  venue: string;
+  postcode?: string;
+  ltaCode: string;
+  date: string;
+  month: string;
+  category?: string;
+  organiserEmail: string;
+  deadlineCD: string;
+  deadlineWD: string;
+}
+
+/**
+ * An AI engine that turns calendar text into tournament records.
+ * Gemini in production; tests pass a local stub.
+ */
+export interface ExtractionProvider {
+  // Recorded as the engine of every field it fills in
+  name: string;
+  // Aborting `signal` cancels the request
+  extractTournaments(text: string, options?: { signal?: AbortSignal }): Promise<AiTournamentRecord[]>;
+}
+
+// Storage for provider results; the server backs it with SQLite
+export interface ExtractionCache {
+  get(hash: string, provider: string): AiTournamentRecord[] | undefined;
+  set(hash: string, provider: string, records: AiTournamentRecord[]): void;
+}
+
+export interface HybridResult {
+  tournaments: Tournament[];
+  // Provider used, null when no provider is configured
+  provider: string | null;
+  // Entries sent to the provider and fields it filled in
+  aiEntries: number;
+  aiFields: number;
+  // Set when the provider failed; the regex results are kept
+  error?: string;
+}
+
+// Entries per provider request, to keep prompts small
+const ENTRIES_PER_REQUEST = 15;
+
+// Fields the AI may fill in, with the record property that holds them
+const AI_FIELDS: [DiagnosedField, keyof AiTournamentRecord][] = [
+  ['title', 'title'],
+  ['gender', 'gender'],
+  ['eventType', 'eventType'],
+  ['grade', 'grade'],
+  ['date', 'date'],
+  ['venue', 'venue'],
+  ['postcode', 'postcode'],
+  ['organiserEmail', 'organiserEmail'],
+  ['deadlineCD', 'deadlineCD'],
+  ['deadlineWD', 'deadlineWD'],
+  ['category', 'category'],
+];
+
+const GEMINI_MODEL = 'gemini-3-flash-preview';
+
+const tournamentSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      gender: { type: Type.STRING },
+      eventType: { type: Type.STRING },
+      grade: { type: Type.STRING },
+      venue: { type: Type.STRING },
+      postcode: { type: Type.STRING },
+      ltaCode: { type: Type.STRING },
+      date: { type: Type.STRING },
+      month: { type: Type.STRING },
+      category: { type: Type.STRING },
+      organiserEmail: { type: Type.STRING },
+      deadlineCD: { type: Type.STRING },
+      deadlineWD: { type: Type.STRING }
+    },
+    required: [
+      "title", "gender", "eventType", "grade", "venue",
+      "ltaCode", "date", "month", "organiserEmail",
+      "deadlineCD", "deadlineWD"
+    ]
+  }
+};
+
+function buildExtractionPrompt(text: string): string {
+  return `Extract all LTA tennis tournament details from the provided LTA Competition Calendar text.
+
+    The text is structured in tables with columns usually like: Tournament Code, Tournament Name, Gender, Event Type, Grade, Date, Venue, Closing & Withdrawal Deadline, and Tournament Organiser.
+    One tournament code can list several events (e.g. Male Singles and Female Singles); return one record per event.
+
+    For each tournament entry, extract:
+    1. title: The tournament name.
+    2. gender: "Mixed", "Male", or "Female".
+    3. eventType: "Singles" or "Doubles".
+    4. grade: e.g., "Grade 4" or "Grade 5".
+    5. venue: The name of the tennis club.
+    6. postcode: The UK postcode of the venue (e.g., BN3 1RP).
+    7. ltaCode: The tournament code (e.g., SUS-25-0455).
+    8. date: The specific date as printed (e.g., Sat 06 Sep).
+    9. month: The full month and year (e.g., "September 2025").
+    10. category: The age group (e.g., "9U", "12U Boys", "Open Men", "45+ Women").
+    11. organiserEmail: The contact email address.
+    12. deadlineCD: The Closing Deadline as DD/MM/YYYY HH:MM.
+    13. deadlineWD: The Withdrawal Deadline as DD/MM/YYYY HH:MM.
+
+    Text to parse:
+    ${text}`;
+}
+
+export function createGeminiProvider(apiKey: string): ExtractionProvider {
+  const genai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+    async extractTournaments(text: string, options: { signal?: AbortSignal } = {}): Promise<AiTournamentRecord[]> {
+      const response = await genai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: buildExtractionPrompt(text),
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: tournamentSchema,
+          abortSignal: options.signal,
+        },
+      });
+
+      try {
+        const data = JSON.parse((response.text || '[]').trim());
+        return Array.isArray(data) ? data : [];
+      } catch (err) {
+        console.error('Failed to parse Gemini response as JSON', err);
+        throw new Error('Could not parse tournament data from AI response.');
+      }
+    },
+  };
+}
+
+/**
+ * The provider for this deployment: Gemini when GEMINI_API_KEY is set, otherwise none.
+ */
+export function getConfiguredProvider(): ExtractionProvider | null {
+  const apiKey = process.env.GEMINI_API_KEY;
+  return apiKey ? createGeminiProvider(apiKey) : null;
+}
+
+export function hashText(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Wraps a provider so identical text is only sent once. `onResult` reports
+ * whether each call was answered from the cache.
+ */
+export function withCache(
+  provider: ExtractionProvider,
+  cache: ExtractionCache,
+  onResult?: (cached: boolean) => void
+): ExtractionProvider {
+  return {
+    name: provider.name,
+    async extractTournaments(text: string, options?: { signal?: AbortSignal }): Promise<AiTournamentRecord[]> {
+      const hash = hashText(text);
+      const cached = cache.get(hash, provider.name);
+      onResult?.(cached !== undefined);
+      if (cached) return cached;
+
+      const records = await provider.extractTournaments(text, options);
+      cache.set(hash, provider.name, records);
+      return records;
+    },
+  };
+}
+
+/**
+ * Turns AI records into tournaments on their own, for text the regex parser is
+ * not involved in. Each record fills a bare entry for its code, so IDs, derived
+ * dates and diagnostics work as for regex results. Records without a usable
+ * code are dropped.
+ */
+export function recordsToTournaments(records: AiTournamentRecord[], providerName: string): Tournament[] {
+  const tournaments: Tournament[] = [];
+  for (const record of records) {
+    // Codes may come back spaced ("SUS 25 0201")
+    const code = (record.ltaCode || '').trim().replace(/[\s_]+/g, '-');
+    const [entry] = parseTextEntries(code, { counties: 'all' });
+    if (!entry) continue;
+
+    const overrides = recordOverrides(record, () => true);
+    const tournament = tagEngines(applyFieldOverrides(entry.tournaments[0], overrides), Object.keys(overrides), providerName);
+    if (!tournaments.some(t => t.id === tournament.id)) {
+      tournaments.push(tournament);
+    }
+  }
+  return tournaments;
+}
+
+/**
+ * Hybrid parsing: keeps the regex results and sends only the entries with a
+ * low-confidence tournament to the AI provider. Fields the regex parser had to
+ * default are filled from the matching AI record; every extracted field is tagged
+ * with the engine that produced it. Events the AI found but the regex parser
+ * missed are added.
+ */
+export async function parseHybrid(
+  entries: CalendarEntry[],
+  provider: ExtractionProvider | null,
+  options: { onRequest?: (request: number, requests: number) => void; signal?: AbortSignal } = {}
+): Promise<HybridResult> {
+  const uncertain = entries.filter(entry =>
+    entry.tournaments.some(t => (t.diagnostics?.confidence ?? 1) < LOW_CONFIDENCE_THRESHOLD)
+  );
+  const result: HybridResult = { tournaments: [], provider: provider?.name ?? null, aiEntries: 0, aiFields: 0 };
+
+  const aiRecords = new Map<string, AiTournamentRecord[]>();
+  if (provider && uncertain.length > 0) {
+    try {
+      const requests = Math.ceil(uncertain.length / ENTRIES_PER_REQUEST);
+      for (let i = 0; i < uncertain.length; i += ENTRIES_PER_REQUEST) {
+        options.signal?.throwIfAborted();
+        options.onRequest?.(i / ENTRIES_PER_REQUEST + 1, requests);
+        const batch = uncertain.slice(i, i + ENTRIES_PER_REQUEST);
+        const records = await provider.extractTournaments(batch.map(entry => entry.text).join('\n\n'), { signal: options.signal });
+        for (const record of records) {
+          const code = codeKey(record.ltaCode || '');
+          aiRecords.set(code, [...(aiRecords.get(code) || []), record]);
+        }
+      }
+      result.aiEntries = uncertain.length;
+    } catch (error: any) {
+      // A cancelled upload stops here rather than carrying on with the regex results
+      if (options.signal?.aborted) throw error;
+      console.error(`AI extraction with ${provider.name} failed:`, error);
+      result.error = error.message;
+      aiRecords.clear();
+    }
+  }
+
+  for (const entry of entries) {
+    const records = aiRecords.get(codeKey(entry.code)) || [];
+    const merged = mergeEntry(entry, records, provider?.name ?? '');
+    result.aiFields += merged.aiFields;
+    result.tournaments.push(...merged.tournaments);
+  }
+
+  return result;
+}
+
+// AI records may space or punctuate codes differently ("SUS 25 0201")
+function codeKey(code: string): string {
+  return code.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+}
+
+function mergeEntry(
+  entry: CalendarEntry,
+  records: AiTournamentRecord[],
+  providerName: string
+): { tournaments: Tournament[]; aiFields: number } {
+  const unused = [...records];
+  let aiFields = 0;
+
+  const tournaments = entry.tournaments.map(tournament => {
+    const record = takeMatchingRecord(unused, tournament);
+    if (!record) return tagEngines(tournament, []);
+
+    const defaulted = tournament.diagnostics?.defaulted || [];
+    const overrides = recordOverrides(record, field => defaulted.includes(field));
+    aiFields += Object.keys(overrides).length;
+    return tagEngines(applyFieldOverrides(tournament, overrides), Object.keys(overrides), providerName);
+  });
+
+  // Events only the AI found get every usable field from the AI record
+  const template = entry.tournaments[0];
+  for (const record of unused) {
+    if (!template) break;
+    const overrides = recordOverrides(record, () => true);
+    const added = applyFieldOverrides(template, overrides);
+    if (tournaments.some(t => t.id === added.id)) continue;
+    aiFields += Object.keys(overrides).length;
+    tournaments.push(tagEngines(added, Object.keys(overrides), providerName));
+  }
+
+  return { tournaments, aiFields };
+}
+
+// Same event (gender and type) first, otherwise the next unmatched record
+function takeMatchingRecord(records: AiTournamentRecord[], tournament: Tournament): AiTournamentRecord | undefined {
+  let position = records.findIndex(record =>
+    normalizeFieldValue('gender', record.gender || '') === tournament.gender &&
+    normalizeFieldValue('eventType', record.eventType || '') === tournament.eventType
+  );
+  if (position === -1 && records.length > 0) position = 0;
+  return position === -1 ? undefined : records.splice(position, 1)[0];
+}
+
+function recordOverrides(record: AiTournamentRecord, wanted: (field: DiagnosedField) => boolean): Partial<Record<DiagnosedField, string>> {
+  const overrides: Partial<Record<DiagnosedField, string>> = {};
+  for (const [field, property] of AI_FIELDS) {
+    if (!wanted(field)) continue;
+    const value = normalizeFieldValue(field, String(record[property] ?? ''));
+    if (value) overrides[field] = value;
+  }
+  return overrides;
+}
+
+function tagEngines(tournament: Tournament, aiFields: string[], providerName = ''): Tournament {
+  if (!tournament.diagnostics) return tournament;
+  const engines: Record<string, string> = {};
+  for (const field of tournament.diagnostics.extracted) {
+    engines[field] = aiFields.includes(field) ? providerName : 'regex';
+  }
+  return { ...tournament, diagnostics: { ...tournament.diagnostics, engines } };
+}
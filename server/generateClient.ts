@@ -0,0 +1,14 @@
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { generateClient, CLIENT_FILE } from './clientGenerator.js';
+
+/**
+ * Rewrites the frontend's API client from the contract in apiSchema.ts. Run
+ * after changing a model or route:
+ *
+ *   npm run generate:client        (from the repository root)
+ */
+const file = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', CLIENT_FILE);
+fs.writeFileSync(file, generateClient());
+console.log(`Wrote ${path.relative(process.cwd(), file)}`);
@@ -1,41 +1,255 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
 import express from 'express';
 import cors from 'cors';
 import multer from 'multer';
 import path from 'path';
+import { fileURLToPath } from 'url';
 import {
-  getAllTournaments,
-  insertTournaments,
+  queryTournaments,
+  getTournamentFacets,
+  getTournamentById,
+  createImport,
+  getImports,
+  getImportById,
+  getImportTournaments,
+  getImportChanges,
+  getImportRestoredTournamentIds,
+  findActiveImportBySha,
+  getLatestActiveImport,
+  rollbackImport,
+  getTournamentHistory,
+  getLatestChanges,
+  editTournament,
   deleteTournament,
   deleteAllTournaments,
+  getTrashBatchTournamentIds,
+  getTrash,
+  restoreFromTrash,
   getTournamentCount,
-  Tournament
+  getCachedExtraction,
+  saveCachedExtraction,
+  getUsers,
+  createUser,
+  updateUser,
+  deleteUser,
+  getApiKeys,
+  revokeApiKey,
+  getJobs,
+  getJobById,
+  findActiveImportJobBySha,
+  Tournament,
+  TournamentQuery,
+  TournamentChange,
+  InfographicMetadata,
+  ImportResult,
+  InfographicResult,
+  Job,
+  DataChange,
+  Role
 } from './db.js';
-import { extractTextFromPdf } from './pdfService.js';
-import { parseTournamentsProgrammatically } from './parser.js';
+import { parseCalendarPdf } from './pdfPool.js';
+import {
+  normalizeCounties,
+  normalizeFieldValue,
+  summarizeDiagnostics,
+  getEntryStatus,
+  DiagnosedField
+} from './parser.js';
+import {
+  parseHybrid,
+  getConfiguredProvider,
+  withCache,
+  recordsToTournaments,
+  ExtractionCache,
+  HybridResult
+} from './extractionService.js';
 import {
   generateInfographic,
   getAllInfographics,
+  getInfographic,
   getInfographicPath,
-  deleteInfographic,
-  InfographicMetadata
+  deleteInfographic
 } from './infographicService.js';
+import {
+  writeBackup,
+  restoreBackup,
+  createSnapshot,
+  listSnapshots,
+  getSnapshotPath,
+  startSnapshotSchedule,
+  BackupError
+} from './backupService.js';
+import { purgeExpiredTrash, startTrashPurgeSchedule, TRASH_RETENTION_DAYS } from './trashService.js';
+import { archiveEnded, startArchiveSchedule } from './archiveService.js';
+import { registerJobHandler, enqueueJob, cancelJob, subscribeToJob, isFinished, startJobRunner, JOBS_DIR } from './jobService.js';
+import { publishChange, subscribeToChanges, changesSince, ChangeOrigin } from './syncService.js';
+import {
+  authenticate,
+  hasRole,
+  login,
+  logout,
+  issueApiKey,
+  hashPassword,
+  ensureInitialAdmin,
+  LoginThrottledError,
+  Principal
+} from './authService.js';
+import { Schema, validate, describeIssues } from './schema.js';
+import { routes, openApiDocument, ErrorResponseSchema, RouteContract, RequestIssue, ErrorResponse, EXTRACTION_MODES } from './apiSchema.js';
+
+// Entry status depends on the current time, so it is added when tournaments are served
+function withEntryStatus(tournaments: Tournament[], now = new Date()) {
+  return tournaments.map(t => ({ ...t, entryStatus: getEntryStatus(t, now) }));
+}
 
-const app = express();
+// Who is making a change, for the tabs it is pushed to
+function changeOrigin(req: express.Request, res: express.Response): ChangeOrigin {
+  const principal: Principal | null = res.locals.principal;
+  return { by: principal?.name ?? null, clientId: req.get('x-client-id') || null };
+}
+
+type ExtractionMode = typeof EXTRACTION_MODES[number];
+
+const extractionCache: ExtractionCache = {
+  get: (hash, provider) => getCachedExtraction(hash, provider),
+  set: (hash, provider, records) => saveCachedExtraction(hash, provider, records),
+};
+
+export const app = express();
+// X-Forwarded-For is only believed when TRUST_PROXY says which proxies set it (a hop
+// count or their addresses); otherwise clients could pick the address they throttle as
+const TRUST_PROXY = process.env.TRUST_PROXY || '';
+if (TRUST_PROXY) {
+  app.set('trust proxy', /^\d+$/.test(TRUST_PROXY) ? parseInt(TRUST_PROXY, 10) : TRUST_PROXY);
+}
 const PORT = process.env.PORT || 3001;
 
-// Configure multer for file uploads (store in memory)
+// Uploads are saved next to the job files, so queueing one only moves it,
+// and the PDF is never held in memory on the main thread
+const UPLOADS_DIR = path.join(JOBS_DIR, 'uploads');
+// Whether it is a PDF is checked from its first bytes, not the content type the browser sent
 const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB max
-  fileFilter: (req, file, cb) => {
-    if (file.mimetype === 'application/pdf') {
-      cb(null, true);
-    } else {
-      cb(new Error('Only PDF files are allowed'));
-    }
-  }
+  dest: UPLOADS_DIR,
+  limits: { fileSize: uploadMaxMb() * 1024 * 1024 },
+});
+
+function uploadMaxMb(): number {
+  const mb = parseInt(process.env.UPLOAD_MAX_MB || '', 10);
+  return mb > 0 ? mb : 50;
+}
+
+// Removes the saved upload once the response is sent, unless a job took it
+function discardUpload(req: express.Request, res: express.Response, next: express.NextFunction) {
+  res.on('close', () => {
+    if (req.file) fs.rmSync(req.file.path, { force: true });
+  });
+  next();
+}
+
+// Backup archives for restore, saved to disk and read from there as a stream
+const backupUpload = multer({
+  dest: UPLOADS_DIR,
+  limits: { fileSize: 500 * 1024 * 1024 },
 });
 
+// fly.io's proxy replaces any Fly-Client-IP a client sends, so on its machines
+// (which set FLY_APP_NAME) that header is the caller's real address
+function clientAddress(req: express.Request): string {
+  return (process.env.FLY_APP_NAME && req.get('fly-client-ip')) || req.ip || '';
+}
+
+const bearerToken = (req: express.Request) => (req.get('authorization') || '').replace(/^Bearer\s+/i, '').trim();
+
+// Reads are open to everyone; changes need a session token or API key with at least `role`
+function requireRole(role: Role) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const principal: Principal | null = res.locals.principal;
+    if (!principal) {
+      return res.status(401).json({ success: false, error: 'Sign in or send an API key to do this' });
+    }
+    if (!hasRole(principal, role)) {
+      return res.status(403).json({ success: false, error: `This needs the ${role} role; ${principal.name} has the ${principal.role} role` });
+    }
+    next();
+  };
+}
+
+type InputOf<C, K extends string> = C extends { [key in K]: Schema<infer T> } ? T : Record<string, never>;
+type ResponseOf<C> = C extends { response: Schema<infer T> } ? T : never;
+
+// A route's params, query and body (or multipart form), already checked against its contract
+interface RouteInput<C extends RouteContract> {
+  params: InputOf<C, 'params'>;
+  query: InputOf<C, 'query'>;
+  body: C extends { form: Schema } ? InputOf<C, 'form'> : InputOf<C, 'body'>;
+}
+
+type RouteHandler<C extends RouteContract> = (
+  req: express.Request,
+  res: express.Response<ResponseOf<C> | ErrorResponse>,
+  input: RouteInput<C>
+) => unknown;
+
+// Responses are checked against the contract too, except in production; a mismatch is logged, the response still sent
+const CHECK_RESPONSES = process.env.NODE_ENV !== 'production';
+
+/**
+ * Registers a route from its contract in apiSchema.ts: the role check runs
+ * first, then `middleware` (file uploads), then the params, query and body are
+ * validated. Anything that doesn't match gets a 400 listing every issue, so
+ * handlers only see input of the declared types.
+ */
+function serve<C extends RouteContract>(route: C, handler: RouteHandler<C>): void;
+function serve<C extends RouteContract>(route: C, middleware: express.RequestHandler[], handler: RouteHandler<C>): void;
+function serve<C extends RouteContract>(route: C, ...args: [RouteHandler<C>] | [express.RequestHandler[], RouteHandler<C>]): void {
+  const [middleware, handler] = args.length === 1 ? [[], args[0]] : args;
+  const guards = route.role ? [requireRole(route.role)] : [];
+
+  app[route.method](route.path, ...guards, ...middleware, (req: express.Request, res: express.Response) => {
+    if (CHECK_RESPONSES && !route.download) {
+      checkResponses(route, res);
+    }
+
+    const issues: RequestIssue[] = [];
+    const read = (where: RequestIssue['in'], target: Schema | undefined, value: unknown, coerce: boolean) => {
+      if (!target) return {};
+      const result = validate(target, value, { coerce });
+      if (!('issues' in result)) return result.value;
+      issues.push(...result.issues.map(issue => ({ in: where, ...issue })));
+    };
+    // Query strings and multipart forms only carry text, so their numbers, booleans and lists are coerced
+    const input = {
+      params: read('params', route.params, req.params, true),
+      query: read('query', route.query, req.query, true),
+      body: route.form
+        ? read('body', route.form, { ...req.body, ...(req.file && { [req.file.fieldname]: req.file }) }, true)
+        : read('body', route.body, req.body, false),
+    };
+
+    if (issues.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: describeIssues(issues.map(issue => ({ ...issue, path: issue.path || issue.in }))),
+        issues
+      });
+    }
+    return handler(req, res, input as RouteInput<C>);
+  });
+}
+
+function checkResponses(route: RouteContract, res: express.Response) {
+  const json = res.json.bind(res);
+  res.json = body => {
+    const result = validate(res.statusCode < 400 ? route.response : ErrorResponseSchema, body);
+    if ('issues' in result) {
+      console.error(`${route.method.toUpperCase()} ${route.path} responded outside its contract: ${describeIssues(result.issues)}`);
+    }
+    return json(body);
+  };
+}
+
 // CORS configuration - allow frontend origins
 app.use(cors({
   origin: (origin, callback) => {
@@ -58,36 +272,90 @@ app.use(cors({
   credentials: true
 }));
 
-app.use(express.json());
+// Calendar text for AI extraction can run to a few hundred KB
+app.use(express.json({ limit: '5mb' }));
+
+// Who is calling, from the bearer token; null for anonymous requests
+app.use((req, res, next) => {
+  res.locals.principal = authenticate(bearerToken(req));
+  next();
+});
+
+const roleLabel = { viewer: 'Viewer: ', editor: 'Editor: ', admin: 'Admin: ' };
 
-// Root endpoint - helpful message
-app.get('/', (req, res) => {
+// Root endpoint - helpful message, with every route from the contract
+serve(routes.getApiInfo, (req, res) => {
+  const endpoints = Object.values(routes).map((route: RouteContract) =>
+    [`${route.method.toUpperCase()} ${route.path}`, `${route.role ? roleLabel[route.role] : ''}${route.summary}`]
+  );
   res.json({
     name: 'LTA Parser API',
     status: 'running',
     tournamentCount: getTournamentCount(),
-    endpoints: {
-      'GET /api/tournaments': 'Get all tournaments',
-      'POST /api/tournaments/upload': 'Upload PDF to parse tournaments',
-      'DELETE /api/tournaments/:id': 'Delete a tournament',
-      'DELETE /api/tournaments': 'Delete all tournaments'
-    },
+    endpoints: Object.fromEntries(endpoints),
+    auth: 'Reads are public. Changes need Authorization: Bearer <session token or API key> with the editor role; admin endpoints need admin',
+    openapi: '/api/openapi.json',
     note: 'This is the API server. The frontend runs on a separate port (default: 3000)'
   });
 });
 
 // Health check endpoint
-app.get('/health', (req, res) => {
+serve(routes.getHealth, (req, res) => {
   res.json({ status: 'ok', tournamentCount: getTournamentCount() });
 });
 
-// Get all tournaments
-app.get('/api/tournaments', (req, res) => {
+// Built once; the contract doesn't change while the server runs
+const openApi = openApiDocument();
+serve(routes.getOpenApiDocument, (req, res) => {
+  res.json(openApi);
+});
+
+// ============ AUTH ============
+
+// Sign in; the token goes in Authorization: Bearer <token>
+serve(routes.login, (req, res, { body }) => {
+  try {
+    const session = login(body.username.trim(), body.password, clientAddress(req));
+    if (!session) {
+      return res.status(401).json({ success: false, error: 'Wrong username or password' });
+    }
+    res.json({ success: true, ...session });
+  } catch (error: any) {
+    if (error instanceof LoginThrottledError) {
+      res.set('Retry-After', String(error.retryAfter));
+      return res.status(429).json({ success: false, error: error.message });
+    }
+    console.error('Error signing in:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+serve(routes.logout, (req, res) => {
+  const principal: Principal | null = res.locals.principal;
+  if (principal?.via === 'session') {
+    logout(bearerToken(req));
+  }
+  res.json({ success: true });
+});
+
+// The caller's name and role; user is null when anonymous
+serve(routes.getCurrentUser, (req, res) => {
+  const principal: Principal | null = res.locals.principal;
+  res.json({ success: true, user: principal });
+});
+
+// List tournaments matching the query-string filters, sorted and optionally paged; `total`
+// counts every match
+serve(routes.listTournaments, (req, res, { query: { q, county, ...filters } }) => {
   try {
-    const tournaments = getAllTournaments();
+    const query: TournamentQuery = { ...filters, county: county?.toUpperCase(), search: q };
+    const page = queryTournaments(query);
+    const tournaments = withEntryStatus(page.tournaments);
     res.json({
       success: true,
       count: tournaments.length,
+      total: page.total,
+      offset: query.offset ?? 0,
       tournaments
     });
   } catch (error: any) {
@@ -96,52 +364,321 @@ app.get('/api/tournaments', (req, res) => {
   }
 });
 
-// Upload and parse PDF
-app.post('/api/tournaments/upload', upload.single('pdf'), async (req, res) => {
+// Distinct filter values and counts, for the same season and archive switches as the list
+serve(routes.getTournamentFacets, (req, res, { query }) => {
   try {
-    if (!req.file) {
-      return res.status(400).json({ success: false, error: 'No PDF file provided' });
+    res.json({ success: true, facets: getTournamentFacets(query) });
+  } catch (error: any) {
+    console.error('Error fetching tournament facets:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// The tournaments an import added or updated
+const changedIds = (changes: TournamentChange[], type: TournamentChange['changeType']) =>
+  changes.filter(change => change.changeType === type).map(change => change.tournamentId);
+
+// What import `id` added and updated, as open tabs see it: tournaments it brought back
+// from the trash are recorded as updates but are new to them
+function importedIds(id: number, changes: TournamentChange[]): { added: string[]; updated: string[] } {
+  const restored = getImportRestoredTournamentIds(id);
+  return {
+    added: [...changedIds(changes, 'added'), ...restored],
+    updated: changedIds(changes, 'updated').filter(tournamentId => !restored.includes(tournamentId)),
+  };
+}
+
+// What an upload job needs besides the PDF, which waits in JOBS_DIR
+interface ImportJobInput {
+  filename: string;
+  sha256: string;
+  // Left out for the parser's DEFAULT_COUNTIES
+  counties?: string[] | 'all';
+  mode?: ExtractionMode;
+  // Unset for jobs queued before changes were pushed to open tabs
+  origin?: ChangeOrigin;
+}
+
+// Parse an uploaded PDF and store its tournaments, reporting each page as it is read
+registerJobHandler<ImportJobInput, ImportResult>('import', async ({ input, filePath, signal, progress }) => {
+  const { filename, sha256, counties } = input;
+  if (!filePath) {
+    throw new Error('The uploaded PDF is gone');
+  }
+  // A job interrupted by a restart right after saving must not import the file twice
+  const existing = findActiveImportBySha(sha256);
+  if (existing) {
+    throw new Error(`This file was already imported on ${existing.importedAt} (import ${existing.id})`);
+  }
+
+  console.log(`Processing PDF: ${filename} (${fs.statSync(filePath).size} bytes)`);
+
+  // Extraction mode: "layout" rebuilds table cells from text positions, "text" uses keyword chunking,
+  // "hybrid" is layout parsing with AI extraction for low-confidence entries (the default when an AI provider is configured)
+  const configured = getConfiguredProvider();
+  const provider = configured && withCache(configured, extractionCache);
+  const mode = input.mode ?? (provider ? 'hybrid' : 'layout');
+  let parsed: Tournament[];
+  let ai: Omit<HybridResult, 'tournaments'> | undefined;
+
+  // Extraction and the regex parsing run in a worker; only the AI requests happen here
+  const extracted = await parseCalendarPdf(filePath, {
+    mode,
+    counties,
+    signal,
+    onPage: (page, pageCount) =>
+      progress({ stage: 'extracting', message: `Extracting page ${page} of ${pageCount}`, current: page, total: pageCount }),
+  });
+  const { pageCount } = extracted;
+
+  if (extracted.mode === 'hybrid') {
+    console.log(`Extracted ${extracted.lineCount} lines from ${pageCount} pages`);
+
+    const { tournaments: merged, ...summary } = await parseHybrid(extracted.entries, provider, {
+      signal,
+      onRequest: (request, requests) => progress({
+        stage: 'ai',
+        message: `Asking ${provider!.name} about low-confidence entries (request ${request} of ${requests})`,
+        current: request,
+        total: requests,
+      }),
+    });
+    parsed = merged;
+    ai = summary;
+    if (!provider) {
+      console.log('No AI provider configured (GEMINI_API_KEY), keeping regex results only');
+    } else {
+      console.log(`Sent ${summary.aiEntries} low-confidence entries to ${summary.provider}, filled ${summary.aiFields} fields`);
+    }
+  } else if (extracted.mode === 'layout') {
+    console.log(`Extracted ${extracted.lineCount} lines (${extracted.tableLines} in tables) from ${pageCount} pages`);
+    if (extracted.tableLines === 0) {
+      console.log('No table header found, fell back to text parsing');
     }
+    parsed = extracted.tournaments;
+  } else {
+    console.log(`Extracted ${extracted.characters} characters from ${pageCount} pages`);
+    parsed = extracted.tournaments;
+  }
 
-    console.log(`Processing PDF: ${req.file.originalname} (${req.file.size} bytes)`);
+  const countyLabel = normalizeCounties(counties)?.join(', ') || 'all counties';
+  console.log(`Parsed ${parsed.length} tournaments (${countyLabel}) from PDF`);
+
+  const warnings = summarizeDiagnostics(parsed);
+  if (warnings.lowConfidence > 0) {
+    console.log(`${warnings.lowConfidence} tournaments parsed with low confidence, defaulted fields:`, warnings.defaultedFields);
+  }
 
-    // Extract text from PDF
-    const text = await extractTextFromPdf(req.file.buffer);
-    console.log(`Extracted ${text.length} characters from PDF`);
+  // The last chance to cancel; saving happens in one transaction
+  progress({ stage: 'saving', message: `Saving ${parsed.length} tournaments` });
+  // New tournaments are added, changed ones updated, and both recorded in the change history
+  const { import: importRecord, summary } = createImport(
+    { filename, sha256, pageCount, mode, counties: normalizeCounties(counties) },
+    parsed
+  );
+  const { importedAt, added, updated, unchanged, disappeared, changes } = summary;
+  console.log(`Import ${importRecord.id}: added ${added}, updated ${updated}, unchanged ${unchanged}, no longer listed ${disappeared}`);
+  // Calendars still list events that have finished
+  archiveEnded();
+  publishChange(
+    { action: 'imported', tournaments: importedIds(importRecord.id, changes), import: importRecord },
+    input.origin
+  );
 
-    // Parse tournaments
-    const parsed = parseTournamentsProgrammatically(text);
-    console.log(`Parsed ${parsed.length} Sussex tournaments from PDF`);
+  return {
+    parsed: parsed.length,
+    counties: normalizeCounties(counties) || 'all',
+    import: importRecord,
+    added,
+    updated,
+    unchanged,
+    disappeared,
+    importedAt,
+    changes,
+    warnings,
+    ai,
+    total: getTournamentCount(),
+  };
+});
 
-    // Insert into database (duplicates are ignored due to INSERT OR IGNORE)
-    const result = insertTournaments(parsed);
-    console.log(`Added ${result.added} new tournaments, skipped ${result.skipped} existing`);
+// Queue an uploaded PDF for parsing; the job reports progress and the result
+serve(routes.uploadCalendar, [upload.single('pdf'), discardUpload], async (req, res, { body }) => {
+  // The contract requires the file
+  const file = req.file!;
+  try {
+    // The browser's content type says nothing about what was sent
+    if (!(await hasPdfHeader(file.path))) {
+      return res.status(400).json({ success: false, error: `${file.originalname} is not a PDF` });
+    }
 
-    // Get updated list
-    const allTournaments = getAllTournaments();
+    // An identical file that is still imported would only report everything as unchanged
+    const sha256 = await hashFile(file.path);
+    const existing = findActiveImportBySha(sha256);
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        error: `This file was already imported on ${existing.importedAt} (import ${existing.id}). Roll that import back to upload it again.`,
+        import: existing
+      });
+    }
+    const queued = findActiveImportJobBySha(sha256);
+    if (queued) {
+      return res.status(409).json({
+        success: false,
+        error: `This file is already being imported (job ${queued.id})`,
+        job: queued
+      });
+    }
 
+    const input: ImportJobInput = {
+      filename: file.originalname,
+      sha256,
+      counties: body.counties,
+      mode: body.mode,
+      origin: changeOrigin(req, res),
+    };
+    const job = enqueueJob('import', file.originalname, input, file.path);
+    console.log(`Queued ${file.originalname} (${file.size} bytes) as job ${job.id}`);
+    res.status(202).json({ success: true, job });
+  } catch (error: any) {
+    console.error('Error queueing PDF:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+async function hasPdfHeader(filePath: string): Promise<boolean> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(5), 0, 5, 0);
+    return buffer.subarray(0, bytesRead).toString('latin1') === '%PDF-';
+  } finally {
+    await handle.close();
+  }
+}
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+// AI extraction of calendar text (same prompt and schema as the hybrid fallback), cached by text hash.
+// Nothing is saved; the caller gets the extracted tournaments back.
+serve(routes.extractTournaments, async (req, res, { body: { text, counties = 'all' } }) => {
+  try {
+    const configured = getConfiguredProvider();
+    if (!configured) {
+      return res.status(503).json({ success: false, error: 'AI extraction is not configured (GEMINI_API_KEY is not set)' });
+    }
+
+    let cached = false;
+    const provider = withCache(configured, extractionCache, hit => { cached = hit; });
+    const records = await provider.extractTournaments(text);
+
+    const countyFilter = normalizeCounties(counties);
+    const tournaments = recordsToTournaments(records, provider.name)
+      .filter(t => !countyFilter || countyFilter.includes(t.county));
+    console.log(`AI extraction (${provider.name}${cached ? ', cached' : ''}): ${tournaments.length} tournaments`);
+
+    res.json({
+      success: true,
+      provider: provider.name,
+      cached,
+      count: tournaments.length,
+      tournaments: withEntryStatus(tournaments)
+    });
+  } catch (error: any) {
+    console.error('Error extracting tournaments:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// What the most recent calendar upload added, changed or no longer lists
+serve(routes.getLatestChanges, (req, res) => {
+  try {
+    const changes = getLatestChanges();
     res.json({
       success: true,
-      parsed: parsed.length,
-      added: result.added,
-      skipped: result.skipped,
-      total: allTournaments.length,
-      tournaments: allTournaments
+      importedAt: changes[0]?.importedAt ?? null,
+      count: changes.length,
+      changes
     });
   } catch (error: any) {
-    console.error('Error processing PDF:', error);
+    console.error('Error fetching changes:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Raw calendar text a tournament was parsed from, with its page, offsets and field spans
+serve(routes.getTournamentSource, (req, res, { params }) => {
+  try {
+    const tournament = getTournamentById(params.id);
+
+    if (!tournament) {
+      return res.status(404).json({ success: false, error: 'Tournament not found' });
+    }
+
+    const { source, parsed, ...rest } = tournament;
+    res.json({ success: true, tournament: rest, source: source ?? null });
+  } catch (error: any) {
+    console.error('Error fetching tournament source:', error);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Delete a specific tournament
-app.delete('/api/tournaments/:id', (req, res) => {
+// Change history of one tournament, newest first
+serve(routes.getTournamentHistory, (req, res, { params }) => {
   try {
-    const { id } = req.params;
-    const deleted = deleteTournament(id);
+    const history = getTournamentHistory(params.id);
+    res.json({ success: true, count: history.length, history });
+  } catch (error: any) {
+    console.error('Error fetching tournament history:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    if (deleted) {
-      res.json({ success: true, message: `Tournament ${id} deleted` });
+// Edit fields by hand, JSON body { field: value }; null reverts a field to its parsed value.
+// Edits are kept as overrides, so re-uploading the calendar doesn't undo them
+serve(routes.editTournament, (req, res, { params, body }) => {
+  try {
+    // The contract checks the fields and types; the parser decides whether a value reads as one
+    const edits: Partial<Record<DiagnosedField, string | null>> = {};
+    const issues: RequestIssue[] = [];
+    for (const [field, value] of Object.entries(body) as [DiagnosedField, string | null][]) {
+      edits[field] = value === null ? null : normalizeFieldValue(field, value);
+      if (value !== null && edits[field] === null) {
+        issues.push({ in: 'body', path: field, message: `isn't a valid ${field}: ${JSON.stringify(value)}` });
+      }
+    }
+    if (issues.length > 0) {
+      return res.status(400).json({ success: false, error: describeIssues(issues), issues });
+    }
+
+    const edited = editTournament(params.id, edits);
+    if (!edited) {
+      return res.status(404).json({ success: false, error: 'Tournament not found' });
+    }
+    const { source, parsed, ...tournament } = edited;
+    publishChange({ action: 'updated', tournaments: { updated: [edited.id] } }, changeOrigin(req, res));
+    res.json({ success: true, tournament: withEntryStatus([tournament])[0] });
+  } catch (error: any) {
+    console.error('Error editing tournament:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Move a specific tournament to the trash
+serve(routes.deleteTournament, (req, res, { params: { id } }) => {
+  try {
+    const trashed = deleteTournament(id);
+
+    if (trashed) {
+      publishChange({ action: 'deleted', tournaments: { deleted: [id] } }, changeOrigin(req, res));
+      res.json({ success: true, message: `Tournament ${id} moved to the trash`, trash: trashed });
     } else {
       res.status(404).json({ success: false, error: 'Tournament not found' });
     }
@@ -151,21 +688,97 @@ app.delete('/api/tournaments/:id', (req, res) => {
   }
 });
 
-// Delete all tournaments
-app.delete('/api/tournaments', (req, res) => {
+// Move all tournaments to the trash
+// A snapshot is taken first as well, since the trash is purged after TRASH_RETENTION_DAYS
+serve(routes.deleteAllTournaments, async (req, res) => {
   try {
-    const count = deleteAllTournaments();
-    res.json({ success: true, message: `Deleted ${count} tournaments` });
+    if (getTournamentCount() > 0) {
+      const snapshot = await createSnapshot('before-delete-all');
+      console.log(`Snapshot before deleting all tournaments: ${snapshot.name}`);
+    }
+    const trashed = deleteAllTournaments();
+    publishChange({ action: 'deleted', tournaments: { deleted: getTrashBatchTournamentIds(trashed.batch) } }, changeOrigin(req, res));
+    res.json({ success: true, message: `Moved ${trashed.tournaments} tournaments to the trash`, trash: trashed });
   } catch (error: any) {
     console.error('Error deleting tournaments:', error);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
+// ============ IMPORT ENDPOINTS ============
+
+// List uploaded PDFs, newest first
+serve(routes.listImports, (req, res) => {
+  try {
+    const imports = getImports();
+    res.json({ success: true, count: imports.length, imports });
+  } catch (error: any) {
+    console.error('Error fetching imports:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// One import with the tournaments it created or last changed
+serve(routes.getImport, (req, res, { params: { id } }) => {
+  try {
+    const importRecord = getImportById(id);
+
+    if (!importRecord) {
+      return res.status(404).json({ success: false, error: 'Import not found' });
+    }
+
+    const tournaments = withEntryStatus(getImportTournaments(id));
+    res.json({
+      success: true,
+      import: importRecord,
+      count: tournaments.length,
+      tournaments,
+      changes: getImportChanges(id)
+    });
+  } catch (error: any) {
+    console.error('Error fetching import:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Undo an import. Only the latest import still in effect can be rolled back,
+// since a later upload may have changed the same tournaments again.
+serve(routes.rollbackImport, (req, res, { params: { id } }) => {
+  try {
+    const importRecord = getImportById(id);
+
+    if (!importRecord) {
+      return res.status(404).json({ success: false, error: 'Import not found' });
+    }
+    if (importRecord.rolledBackAt) {
+      return res.status(409).json({ success: false, error: `Import ${id} was already rolled back` });
+    }
+    if (getLatestActiveImport()?.id !== id) {
+      return res.status(409).json({ success: false, error: 'Only the latest import can be rolled back; roll back the newer imports first' });
+    }
+
+    // Read first: the rollback removes the import's change history
+    const { added, updated } = importedIds(id, getImportChanges(id));
+    const result = rollbackImport(id);
+    console.log(`Rolled back import ${id}: removed ${result.removed}, restored ${result.restored}`);
+    archiveEnded();
+    publishChange(
+      { action: 'imported', tournaments: { deleted: added, updated }, import: getImportById(id) },
+      changeOrigin(req, res)
+    );
+
+    // Tabs fetch the page they show again rather than receive every tournament
+    res.json({ success: true, ...result, import: getImportById(id)! });
+  } catch (error: any) {
+    console.error('Error rolling back import:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 // ============ INFOGRAPHIC ENDPOINTS ============
 
 // Get all infographics metadata
-app.get('/api/infographics', (req, res) => {
+serve(routes.listInfographics, (req, res) => {
   try {
     const infographics = getAllInfographics();
     res.json({ success: true, count: infographics.length, infographics });
@@ -175,10 +788,28 @@ app.get('/api/infographics', (req, res) => {
   }
 });
 
+// An infographic with the tournaments it listed that are still stored
+serve(routes.getInfographic, (req, res, { params }) => {
+  try {
+    const infographic = getInfographic(params.id);
+    if (!infographic) {
+      return res.status(404).json({ success: false, error: 'Infographic not found' });
+    }
+
+    const tournaments = infographic.tournamentIds
+      .map(id => getTournamentById(id))
+      .filter((t): t is Tournament => t !== undefined)
+      .map(({ source, parsed, ...t }) => t);
+    res.json({ success: true, infographic, tournaments: withEntryStatus(tournaments) });
+  } catch (error: any) {
+    console.error('Error fetching infographic:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 // Serve infographic image by filename
-app.get('/api/infographics/image/:filename', (req, res) => {
+serve(routes.getInfographicImage, (req, res, { params: { filename } }) => {
   try {
-    const { filename } = req.params;
     const filepath = getInfographicPath(filename);
 
     if (!filepath) {
@@ -192,38 +823,45 @@ app.get('/api/infographics/image/:filename', (req, res) => {
   }
 });
 
-// Generate new infographic
-app.post('/api/infographics', async (req, res) => {
-  try {
-    const { tournaments, filters } = req.body;
-
-    if (!tournaments || !Array.isArray(tournaments) || tournaments.length === 0) {
-      return res.status(400).json({ success: false, error: 'No tournaments provided' });
-    }
+interface InfographicJobInput {
+  tournaments: Tournament[];
+  filters: InfographicMetadata['filters'];
+  // All the matches, of which `tournaments` are the first
+  tournamentCount?: number;
+  origin?: ChangeOrigin;
+}
 
-    console.log(`Generating infographic for ${tournaments.length} tournaments with filters:`, filters);
+// Image generation is one request; cancelling aborts it
+registerJobHandler<InfographicJobInput, InfographicResult>('infographic', async ({ input: { tournaments, filters, tournamentCount, origin }, signal, progress }) => {
+  const count = tournamentCount ?? tournaments.length;
+  console.log(`Generating infographic for ${count} tournaments with filters:`, filters);
+  progress({ stage: 'generating', message: `Generating an infographic of ${count} tournaments` });
 
-    const metadata = await generateInfographic(tournaments, filters || {});
+  const metadata = await generateInfographic(tournaments, filters, { signal, tournamentCount });
+  publishChange({ action: 'added', infographics: { added: [metadata.id] } }, origin);
+  return { infographic: metadata, imageUrl: `/api/infographics/image/${metadata.filename}` };
+});
 
-    res.json({
-      success: true,
-      infographic: metadata,
-      imageUrl: `/api/infographics/image/${metadata.filename}`
-    });
+// Queue a new infographic
+serve(routes.createInfographic, (req, res, { body: { tournaments, filters, tournamentCount } }) => {
+  try {
+    const input: InfographicJobInput = { tournaments, filters: filters || {}, tournamentCount, origin: changeOrigin(req, res) };
+    const job = enqueueJob('infographic', `Infographic of ${tournamentCount ?? tournaments.length} tournaments`, input);
+    res.status(202).json({ success: true, job });
   } catch (error: any) {
-    console.error('Error generating infographic:', error);
+    console.error('Error queueing infographic:', error);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Delete an infographic
-app.delete('/api/infographics/:id', (req, res) => {
+// Move an infographic to the trash
+serve(routes.deleteInfographic, (req, res, { params: { id } }) => {
   try {
-    const { id } = req.params;
-    const deleted = deleteInfographic(id);
+    const trashed = deleteInfographic(id);
 
-    if (deleted) {
-      res.json({ success: true, message: `Infographic ${id} deleted` });
+    if (trashed) {
+      publishChange({ action: 'deleted', infographics: { deleted: [id] } }, changeOrigin(req, res));
+      res.json({ success: true, message: `Infographic ${id} moved to the trash`, trash: trashed });
     } else {
       res.status(404).json({ success: false, error: 'Infographic not found' });
     }
@@ -233,8 +871,336 @@ app.delete('/api/infographics/:id', (req, res) => {
   }
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`LTA Parser API server running on port ${PORT}`);
-  console.log(`Database contains ${getTournamentCount()} tournaments`);
+// ============ TRASH ENDPOINTS ============
+
+// Deleted tournaments and infographics, most recently deleted first
+serve(routes.getTrash, (req, res) => {
+  try {
+    const trash = getTrash();
+    res.json({ success: true, retentionDays: TRASH_RETENTION_DAYS, ...trash });
+  } catch (error: any) {
+    console.error('Error fetching trash:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Restore a whole delete (batch) or single items by id
+serve(routes.restoreFromTrash, (req, res, { body: { batch, tournamentIds, infographicIds } }) => {
+  try {
+    if (!batch && !tournamentIds?.length && !infographicIds?.length) {
+      return res.status(400).json({ success: false, error: 'Nothing to restore: pass batch, tournamentIds or infographicIds' });
+    }
+
+    // What comes back, read while it is still in the trash
+    const trash = getTrash();
+    const selected = (item: { id: string; deleteBatch?: string | null }, ids: string[] = []) =>
+      (batch !== undefined && item.deleteBatch === batch) || ids.includes(item.id);
+    const restored = restoreFromTrash({ batch, tournamentIds, infographicIds });
+    if (restored.tournaments === 0 && restored.infographics === 0) {
+      return res.status(404).json({ success: false, error: 'Nothing matching is in the trash' });
+    }
+    publishChange({
+      action: 'added',
+      tournaments: { added: trash.tournaments.filter(t => selected(t, tournamentIds)).map(t => t.id) },
+      infographics: { added: trash.infographics.filter(i => selected(i, infographicIds)).map(i => i.id) },
+    }, changeOrigin(req, res));
+    res.json({ success: true, restored });
+  } catch (error: any) {
+    console.error('Error restoring from trash:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Permanently delete everything in the trash
+serve(routes.emptyTrash, (req, res) => {
+  try {
+    const purged = purgeExpiredTrash(0);
+    res.json({ success: true, purged });
+  } catch (error: any) {
+    console.error('Error emptying trash:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ============ JOB ENDPOINTS ============
+
+// Comments keep idle event streams from being closed by proxies
+const EVENT_STREAM_HEARTBEAT_MS = 15000;
+
+// Recent jobs, newest first
+serve(routes.listJobs, (req, res, { query: { status, type, limit = 20 } }) => {
+  try {
+    res.json({ success: true, jobs: getJobs({ statuses: status, type, limit }) });
+  } catch (error: any) {
+    console.error('Error fetching jobs:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+serve(routes.getJob, (req, res, { params }) => {
+  try {
+    const job = getJobById(params.id);
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+    res.json({ success: true, job });
+  } catch (error: any) {
+    console.error('Error fetching job:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Server-sent events: the job now, then every change until it is finished
+serve(routes.followJob, (req, res, { params }) => {
+  const job = getJobById(params.id);
+  if (!job) {
+    return res.status(404).json({ success: false, error: 'Job not found' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  const send = (update: Job) => res.write(`event: job\ndata: ${JSON.stringify(update)}\n\n`);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), EVENT_STREAM_HEARTBEAT_MS);
+  const unsubscribe = subscribeToJob(job.id, update => {
+    send(update);
+    if (isFinished(update)) stop();
+  });
+  const stop = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+  req.on('close', stop);
+
+  // Re-read after subscribing, so a change in between isn't missed
+  const current = getJobById(job.id)!;
+  send(current);
+  if (isFinished(current)) stop();
+});
+
+serve(routes.cancelJob, (req, res, { params }) => {
+  try {
+    const job = cancelJob(params.id);
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+    if (job.status !== 'cancelled' && !job.cancelRequested) {
+      return res.status(409).json({ success: false, error: `The job has already ${job.status}` });
+    }
+    res.json({ success: true, job });
+  } catch (error: any) {
+    console.error('Error cancelling job:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ============ LIVE CHANGES ============
+
+// Server-sent events: every change to tournaments and infographics, for as long as the tab is open
+serve(routes.followChanges, (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  const send = (change: DataChange) => res.write(`id: ${change.id}\nevent: change\ndata: ${JSON.stringify(change)}\n\n`);
+
+  // A browser that reconnects sends the last change it saw, and gets the ones it missed
+  const lastEventId = req.get('last-event-id');
+  if (lastEventId) {
+    changesSince(lastEventId).forEach(send);
+  }
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), EVENT_STREAM_HEARTBEAT_MS);
+  const unsubscribe = subscribeToChanges(send);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// ============ ADMIN ENDPOINTS ============
+
+// Download a backup archive (.tar.gz): the database plus infographic images
+serve(routes.downloadBackup, async (req, res) => {
+  const file = path.join(os.tmpdir(), `lta-backup-${crypto.randomBytes(6).toString('hex')}.tar.gz`);
+  try {
+    const manifest = await writeBackup(file);
+    const name = `lta-backup-${manifest.createdAt.replace(/[:.]/g, '-')}.tar.gz`;
+    res.download(file, name, () => fs.rmSync(file, { force: true }));
+  } catch (error: any) {
+    fs.rmSync(file, { force: true });
+    console.error('Error creating backup:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Restore an uploaded backup archive (multipart field "backup"), replacing all data
+serve(routes.restoreBackup, [backupUpload.single('backup'), discardUpload], async (req, res) => {
+  try {
+    const result = await restoreBackup(req.file!.path);
+    console.log(`Restored backup from ${result.backupCreatedAt} (schema ${result.schemaVersion}); previous data in ${result.safetySnapshot}`);
+    archiveEnded();
+    publishChange({ action: 'replaced' }, changeOrigin(req, res));
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    if (error instanceof BackupError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('Error restoring backup:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Local snapshots in BACKUP_DIR, newest first
+serve(routes.listSnapshots, (req, res) => {
+  res.json({ success: true, snapshots: listSnapshots() });
+});
+
+serve(routes.createSnapshot, async (req, res) => {
+  try {
+    const snapshot = await createSnapshot('manual');
+    res.json({ success: true, snapshot });
+  } catch (error: any) {
+    console.error('Error creating snapshot:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+serve(routes.downloadSnapshot, (req, res, { params: { name } }) => {
+  const file = getSnapshotPath(name);
+  if (!file) {
+    return res.status(404).json({ success: false, error: 'Snapshot not found' });
+  }
+  res.download(file, name);
+});
+
+serve(routes.restoreSnapshot, async (req, res, { params: { name } }) => {
+  try {
+    const file = getSnapshotPath(name);
+    if (!file) {
+      return res.status(404).json({ success: false, error: 'Snapshot not found' });
+    }
+
+    const result = await restoreBackup(file);
+    console.log(`Restored snapshot ${name}; previous data in ${result.safetySnapshot}`);
+    archiveEnded();
+    publishChange({ action: 'replaced' }, changeOrigin(req, res));
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    if (error instanceof BackupError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('Error restoring snapshot:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ============ USERS AND API KEYS ============
+
+serve(routes.listUsers, (req, res) => {
+  res.json({ success: true, users: getUsers() });
 });
+
+serve(routes.createUser, (req, res, { body }) => {
+  try {
+    const user = createUser(body.username, hashPassword(body.password), body.role);
+    res.status(201).json({ success: true, user });
+  } catch (error: any) {
+    if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      return res.status(409).json({ success: false, error: 'That username is taken' });
+    }
+    console.error('Error creating user:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// A new password signs the user out everywhere
+serve(routes.updateUser, (req, res, { params, body }) => {
+  try {
+    const user = updateUser(params.username, {
+      role: body.role,
+      passwordHash: body.password ? hashPassword(body.password) : undefined,
+    });
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    res.json({ success: true, user });
+  } catch (error: any) {
+    console.error('Error updating user:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+serve(routes.deleteUser, (req, res, { params }) => {
+  try {
+    if (!deleteUser(params.username)) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting user:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+serve(routes.listApiKeys, (req, res) => {
+  res.json({ success: true, apiKeys: getApiKeys() });
+});
+
+// The key is only shown in this response
+serve(routes.createApiKey, (req, res, { body }) => {
+  try {
+    const { apiKey, key } = issueApiKey(body.name.trim(), body.role);
+    res.status(201).json({ success: true, apiKey, key });
+  } catch (error: any) {
+    console.error('Error creating API key:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+serve(routes.revokeApiKey, (req, res, { params }) => {
+  try {
+    if (!revokeApiKey(params.id)) {
+      return res.status(404).json({ success: false, error: 'API key not found or already revoked' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error revoking API key:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Errors passed on by middleware, such as an upload over its size limit, get a JSON body
+// rather than Express's HTML error page
+app.use(((error, req, res, next) => {
+  if (res.headersSent) return next(error);
+  if (error instanceof multer.MulterError) {
+    const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+    return res.status(tooLarge ? 413 : 400).json({
+      success: false,
+      error: tooLarge ? `The ${error.field} file is over the size limit` : error.message
+    });
+  }
+  // Malformed or oversized JSON bodies carry their own 4xx status
+  const status = error.status >= 400 && error.status < 500 ? error.status : 500;
+  if (status === 500) console.error(`Error in ${req.method} ${req.path}:`, error);
+  res.status(status).json({ success: false, error: error.message });
+}) as express.ErrorRequestHandler);
+
+// Start server, unless the app was imported (by the tests)
+if (path.resolve(process.argv[1] ?? '') === fileURLToPath(import.meta.url)) {
+  app.listen(PORT, () => {
+    console.log(`LTA Parser API server running on port ${PORT}`);
+    ensureInitialAdmin();
+    console.log(`Database contains ${getTournamentCount()} tournaments`);
+    startSnapshotSchedule();
+    startTrashPurgeSchedule();
+    startArchiveSchedule();
+    startJobRunner();
+  });
+}
@@ -1,50 +1,58 @@
 import { GoogleGenAI } from '@google/genai';
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
-import { Tournament } from './db.js';
+import {
+  Tournament,
+  InfographicMetadata,
+  TrashBatch,
+  saveInfographics,
+  getInfographics,
+  getInfographicById,
+  deleteInfographicRecord
+} from './db.js';
 
 const DATA_DIR = process.env.DATA_DIR || './data';
-const IMAGES_DIR = path.join(DATA_DIR, 'infographics');
+export const IMAGES_DIR = path.join(DATA_DIR, 'infographics');
 
 // Ensure images directory exists
 if (!fs.existsSync(IMAGES_DIR)) {
   fs.mkdirSync(IMAGES_DIR, { recursive: true });
 }
 
-export interface InfographicMetadata {
-  id: string;
-  filename: string;
-  prompt: string;
-  filters: {
-    month?: string;
-    gender?: string;
-    grade?: string;
-    eventType?: string;
-    ageGroup?: string;
-  };
-  tournamentCount: number;
-  createdAt: string;
-}
-
-// Store metadata in a JSON file
-const METADATA_FILE = path.join(DATA_DIR, 'infographics.json');
-
-function loadMetadata(): InfographicMetadata[] {
-  if (fs.existsSync(METADATA_FILE)) {
-    const data = fs.readFileSync(METADATA_FILE, 'utf-8');
-    return JSON.parse(data);
+// Events listed on one infographic; any beyond this are only counted
+const MAX_LISTED_TOURNAMENTS = 12;
+
+// Metadata used to live in this file, rewritten in full on every change
+const LEGACY_METADATA_FILE = path.join(DATA_DIR, 'infographics.json');
+
+/**
+ * Moves the old infographics.json into the database. The file is renamed rather
+ * than deleted, and left in place if it can't be read, so nothing is lost.
+ */
+export function importLegacyMetadata(file: string = LEGACY_METADATA_FILE): number {
+  if (!fs.existsSync(file)) return 0;
+
+  try {
+    const legacy = JSON.parse(fs.readFileSync(file, 'utf-8')) as Omit<InfographicMetadata, 'tournamentIds'>[];
+    const added = saveInfographics(legacy.map(item => ({ ...item, tournamentIds: [] })));
+    fs.renameSync(file, `${file}.imported`);
+    console.log(`Imported ${added} infographics from ${file}`);
+    return added;
+  } catch (error: any) {
+    console.error(`Could not import ${file}, leaving it in place:`, error.message);
+    return 0;
   }
-  return [];
 }
 
-function saveMetadata(metadata: InfographicMetadata[]): void {
-  fs.writeFileSync(METADATA_FILE, JSON.stringify(metadata, null, 2));
-}
+importLegacyMetadata();
 
 export function getAllInfographics(): InfographicMetadata[] {
-  return loadMetadata().sort((a, b) =>
-    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
+  return getInfographics();
+}
+
+export function getInfographic(id: string): InfographicMetadata | undefined {
+  return getInfographicById(id);
 }
 
 export function getInfographicPath(filename: string): string | null {
@@ -55,26 +63,21 @@ export function getInfographicPath(filename: string): string | null {
   return null;
 }
 
-export function deleteInfographic(id: string): boolean {
-  const metadata = loadMetadata();
-  const index = metadata.findIndex(m => m.id === id);
-  if (index === -1) return false;
-
-  const item = metadata[index];
-  const filepath = path.join(IMAGES_DIR, item.filename);
+// Moves the infographic to the trash; the image is removed when the trash is purged
+export function deleteInfographic(id: string): TrashBatch | null {
+  return deleteInfographicRecord(id);
+}
 
+export function deleteInfographicImage(filename: string): void {
+  const filepath = path.join(IMAGES_DIR, filename);
   if (fs.existsSync(filepath)) {
     fs.unlinkSync(filepath);
   }
-
-  metadata.splice(index, 1);
-  saveMetadata(metadata);
-  return true;
 }
 
 function buildPrompt(tournaments: Tournament[], filters: InfographicMetadata['filters']): string {
   // Build tournament list with required fields: date, venue, category, grade, gender, email
-  const tournamentList = tournaments.slice(0, 12).map(t =>
+  const tournamentList = tournaments.slice(0, MAX_LISTED_TOURNAMENTS).map(t =>
     `- Date: ${t.date} | Venue: ${t.venue} | Category: ${t.category} | Grade: ${t.grade} | Gender: ${t.gender}${t.organiserEmail ? ` | Contact: ${t.organiserEmail}` : ''}`
   ).join('\n');
 
@@ -120,7 +123,8 @@ Create an official-looking tournament announcement suitable for social media and
 
 export async function generateInfographic(
   tournaments: Tournament[],
-  filters: InfographicMetadata['filters']
+  filters: InfographicMetadata['filters'],
+  options: { signal?: AbortSignal; tournamentCount?: number } = {}
 ): Promise<InfographicMetadata> {
   const apiKey = process.env.GEMINI_API_KEY;
   if (!apiKey) {
@@ -137,6 +141,7 @@ export async function generateInfographic(
     contents: prompt,
     config: {
       responseModalities: ['Text', 'Image'] as const,
+      abortSignal: options.signal,
     },
   });
 
@@ -156,9 +161,8 @@ export async function generateInfographic(
     throw new Error('No image generated in response');
   }
 
-  // Generate unique filename
-  const timestamp = Date.now();
-  const id = `infographic_${timestamp}`;
+  // Generate unique filename; the random part keeps concurrent generations apart
+  const id = `infographic_${Date.now()}_${crypto.randomBytes(3).toString('hex')}`;
   const filename = `${id}.png`;
   const filepath = path.join(IMAGES_DIR, filename);
 
@@ -166,20 +170,22 @@ export async function generateInfographic(
   fs.writeFileSync(filepath, imageData);
   console.log(`Saved infographic to ${filepath}`);
 
-  // Create metadata
   const metadata: InfographicMetadata = {
     id,
     filename,
     prompt,
     filters,
-    tournamentCount: tournaments.length,
+    tournamentCount: options.tournamentCount ?? tournaments.length,
+    tournamentIds: tournaments.slice(0, MAX_LISTED_TOURNAMENTS).map(t => t.id).filter(Boolean),
     createdAt: new Date().toISOString(),
   };
 
-  // Save metadata
-  const allMetadata = loadMetadata();
-  allMetadata.push(metadata);
-  saveMetadata(allMetadata);
+  try {
+    saveInfographics([metadata]);
+  } catch (error) {
+    fs.rmSync(filepath, { force: true });
+    throw error;
+  }
 
   return metadata;
 }
@@ -0,0 +1,219 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import {
+  Job,
+  JobType,
+  JobStatus,
+  JobProgress,
+  insertJob,
+  getJobById,
+  getJobInput,
+  startNextJob,
+  updateJobProgress,
+  finishJob,
+  requestJobCancel,
+  requeueInterruptedJobs,
+  deleteFinishedJobs
+} from './db.js';
+
+/**
+ * Background jobs for work too slow for a request: parsing an uploaded calendar
+ * and generating infographics. Jobs are stored in SQLite and run one at a time,
+ * oldest first, so a restart loses nothing: a job that was running starts again.
+ * Each change to a job is published to its subscribers (the SSE endpoint).
+ */
+
+const DATA_DIR = process.env.DATA_DIR || './data';
+// Uploaded files wait here, named by job id, until their job finishes
+export const JOBS_DIR = path.join(DATA_DIR, 'jobs');
+
+// How long finished jobs stay listed
+export const JOB_RETENTION_DAYS = jobRetentionDays();
+
+const PURGE_INTERVAL_MS = 3600000;
+
+const FINISHED_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+function jobRetentionDays(): number {
+  const days = parseFloat(process.env.JOB_RETENTION_DAYS || '');
+  return days >= 0 ? days : 7;
+}
+
+// Thrown from `progress` once the job has been cancelled
+export class JobCancelledError extends Error {
+  constructor() {
+    super('The job was cancelled');
+  }
+}
+
+export interface JobContext<I> {
+  job: Job;
+  input: I;
+  // Where the file the job was queued with is kept, if it has one
+  filePath: string | null;
+  // Aborted when the job is cancelled, for work that can be abandoned midway
+  signal: AbortSignal;
+  // Records progress; throws JobCancelledError once the job is cancelled
+  progress(progress: JobProgress): void;
+}
+
+export type JobHandler<I, R> = (context: JobContext<I>) => Promise<R>;
+
+const handlers = new Map<JobType, JobHandler<any, unknown>>();
+const controllers = new Map<string, AbortController>();
+const updates = new EventEmitter();
+updates.setMaxListeners(0);
+let draining: Promise<void> | null = null;
+
+export const isFinished = (job: Job) => FINISHED_STATUSES.includes(job.status);
+
+export function registerJobHandler<I, R>(type: JobType, handler: JobHandler<I, R>): void {
+  handlers.set(type, handler);
+}
+
+// Calls `listener` with the job whenever it changes; returns the unsubscribe function
+export function subscribeToJob(id: string, listener: (job: Job) => void): () => void {
+  updates.on(id, listener);
+  return () => {
+    updates.off(id, listener);
+  };
+}
+
+function publish(job: Job | undefined): void {
+  if (job) updates.emit(job.id, job);
+}
+
+const jobFile = (id: string) => path.join(JOBS_DIR, id);
+
+function removeJobFile(id: string): void {
+  fs.rmSync(jobFile(id), { force: true });
+}
+
+/**
+ * Stores the job and starts the queue if it is idle. A file is moved into
+ * JOBS_DIR, so it should be on the same volume (uploads are saved there).
+ */
+export function enqueueJob(type: JobType, label: string, input: unknown, file?: string): Job {
+  const id = crypto.randomUUID();
+  if (file) {
+    fs.mkdirSync(JOBS_DIR, { recursive: true });
+    fs.renameSync(file, jobFile(id));
+  }
+
+  let job: Job;
+  try {
+    job = insertJob({ id, type, label, input });
+  } catch (error) {
+    removeJobFile(id);
+    throw error;
+  }
+  publish(job);
+  // On the next turn, so the caller can respond (and subscribe) before work starts
+  setImmediate(() => void runQueuedJobs());
+  return job;
+}
+
+// Undefined when there is no such job; a finished job comes back unchanged
+export function cancelJob(id: string): Job | undefined {
+  const before = getJobById(id);
+  if (!before || isFinished(before)) return before;
+
+  const job = requestJobCancel(id);
+  if (job?.status === 'cancelled') {
+    removeJobFile(id);
+  }
+  controllers.get(id)?.abort();
+  publish(job);
+  return job;
+}
+
+/**
+ * Runs queued jobs until the queue is empty. Calling it while the queue is
+ * being worked through returns the same promise.
+ */
+export function runQueuedJobs(): Promise<void> {
+  draining ??= (async () => {
+    for (let job = startNextJob(); job; job = startNextJob()) {
+      await runJob(job);
+    }
+  })().finally(() => {
+    draining = null;
+  });
+  return draining;
+}
+
+async function runJob(job: Job): Promise<void> {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  publish(job);
+
+  let finished: Job | undefined;
+  try {
+    const handler = handlers.get(job.type);
+    if (!handler) throw new Error(`Nothing handles ${job.type} jobs`);
+
+    const result = await handler({
+      job,
+      input: getJobInput(job.id),
+      filePath: fs.existsSync(jobFile(job.id)) ? jobFile(job.id) : null,
+      signal: controller.signal,
+      progress: progress => {
+        if (controller.signal.aborted) throw new JobCancelledError();
+        publish(updateJobProgress(job.id, progress));
+      },
+    });
+    // Work that completed despite a late cancel is kept
+    finished = finishJob(job.id, { status: 'succeeded', result });
+  } catch (error: any) {
+    if (controller.signal.aborted) {
+      console.log(`Job ${job.id} (${job.label}) cancelled`);
+      finished = finishJob(job.id, { status: 'cancelled' });
+    } else {
+      console.error(`Job ${job.id} (${job.label}) failed:`, error);
+      finished = finishJob(job.id, { status: 'failed', error: error.message });
+    }
+  } finally {
+    controllers.delete(job.id);
+    removeJobFile(job.id);
+  }
+  publish(finished);
+}
+
+// Deletes jobs that finished more than `retentionDays` ago, with any leftover files
+export function purgeFinishedJobs(retentionDays: number = JOB_RETENTION_DAYS, now: Date = new Date()): number {
+  const before = new Date(now.getTime() - retentionDays * 86400000).toISOString();
+  const ids = deleteFinishedJobs(before);
+  ids.forEach(removeJobFile);
+  return ids.length;
+}
+
+/**
+ * Puts jobs interrupted by the last shutdown back in the queue and starts it,
+ * then purges old finished jobs now and hourly. Returns the purge timer, which
+ * doesn't keep the process alive.
+ */
+export function startJobRunner(): NodeJS.Timeout {
+  const { requeued, cancelled } = requeueInterruptedJobs();
+  if (requeued > 0 || cancelled > 0) {
+    console.log(`Re-queued ${requeued} jobs interrupted by a restart, cancelled ${cancelled}`);
+  }
+  void runQueuedJobs();
+
+  const purge = () => {
+    try {
+      const purged = purgeFinishedJobs();
+      if (purged > 0) {
+        console.log(`Purged ${purged} finished jobs`);
+      }
+    } catch (error) {
+      console.error('Job purge failed:', error);
+    }
+  };
+
+  purge();
+  const timer = setInterval(purge, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
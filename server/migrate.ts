@@ -0,0 +1,51 @@
+import path from 'path';
+import fs from 'fs';
+import { openDatabase, getSchemaStatus, migrate } from './migrations.js';
+
+/**
+ * Schema migration command. The server applies pending migrations on startup;
+ * this is for checking a database before deploying:
+ *
+ *   npm run migrate -- status      applied and pending migrations
+ *   npm run migrate -- --dry-run   run pending migrations and roll them back
+ *   npm run migrate                apply pending migrations
+ *
+ * Uses DATA_DIR like the server (node dist/migrate.js status on fly.io).
+ */
+const args = process.argv.slice(2);
+const dbPath = path.join(process.env.DATA_DIR || './data', 'tournaments.db');
+
+if (!fs.existsSync(dbPath)) {
+  console.error(`No database at ${dbPath}`);
+  process.exit(1);
+}
+
+const db = openDatabase(dbPath);
+
+try {
+  if (args.includes('status')) {
+    const status = getSchemaStatus(db);
+    console.log(`Database: ${dbPath}`);
+    console.log(`Schema version: ${status.current} (latest ${status.latest})`);
+    for (const m of status.applied) {
+      console.log(`  applied  ${m.version}: ${m.name} (${m.appliedAt})`);
+    }
+    for (const m of status.pending) {
+      console.log(`  pending  ${m.version}: ${m.name}`);
+    }
+  } else {
+    const result = migrate(db, { dryRun: args.includes('--dry-run'), log: message => console.log(message) });
+    if (result.applied.length === 0) {
+      console.log(`Schema is up to date (version ${result.from})`);
+    } else if (result.dryRun) {
+      console.log(`Dry run OK: ${result.applied.length} migration(s) would take version ${result.from} to ${result.applied[result.applied.length - 1].version}`);
+    } else {
+      console.log(`Migrated from version ${result.from} to ${result.to}`);
+    }
+  }
+} catch (error: any) {
+  console.error(error.message);
+  process.exitCode = 1;
+} finally {
+  db.close();
+}
@@ -0,0 +1,98 @@
+/**
+ * Parser logic the shipped migrations use to backfill their columns, frozen as
+ * it was when each migration shipped. The parser keeps changing, and a database
+ * upgraded today must end up the same as one upgraded back then, so never edit
+ * these; a migration that needs different logic gets its own copy here.
+ */
+
+const dateRangeRegex = /^([A-Za-z]{3})\s*(\d{1,2})(?:\s*([A-Za-z]{3}))?(?:\s*-\s*([A-Za-z]{3})\s*(\d{1,2})\s*([A-Za-z]{3}))?$/;
+const deadlineRegex = /^(\d{2})\/(\d{2})\/(\d{4})\s*(\d{2}):(\d{2})$/;
+
+const DAY_ABBRS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const MONTH_ABBRS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const BALL_COLOUR_AGES: Record<string, number> = { red: 8, orange: 9, green: 10 };
+
+// Migration 3: "Sat 06 Sep" or "Sat 06 - Sun 07 Sep" to ISO dates, with the year
+// around `baseYear` whose weekday matches the printed day
+export function parseDateRange(date: string, baseYear: number): { startDate: string; endDate: string } | null {
+  const match = date.trim().match(dateRangeRegex);
+  if (!match) return null;
+
+  const [, startDay, startDayOfMonth, startMonthAbbr, endDay, endDayOfMonth, endMonthAbbr] = match;
+  const startMonth = MONTH_ABBRS.indexOf((startMonthAbbr || endMonthAbbr || '').toUpperCase());
+  const endMonth = MONTH_ABBRS.indexOf((endMonthAbbr || startMonthAbbr || '').toUpperCase());
+  if (startMonth === -1 || endMonth === -1) return null;
+
+  const startDayIndex = DAY_ABBRS.indexOf(startDay.toUpperCase());
+  const day = parseInt(startDayOfMonth, 10);
+  const startYear = [baseYear, baseYear + 1, baseYear - 1]
+    .find(year => isValidDate(year, startMonth, day) && new Date(Date.UTC(year, startMonth, day)).getUTCDay() === startDayIndex)
+    ?? baseYear;
+  if (!isValidDate(startYear, startMonth, day)) return null;
+
+  const startDate = toIsoDate(startYear, startMonth, day);
+  if (!endDay) {
+    return { startDate, endDate: startDate };
+  }
+
+  const endYear = endMonth < startMonth ? startYear + 1 : startYear;
+  const lastDay = parseInt(endDayOfMonth, 10);
+  const endDate = isValidDate(endYear, endMonth, lastDay) ? toIsoDate(endYear, endMonth, lastDay) : startDate;
+
+  return { startDate, endDate: endDate < startDate ? startDate : endDate };
+}
+
+// Migration 4: "01/09/2025 10:00" UK local time to a UTC ISO timestamp
+export function parseDeadline(raw: string): string | null {
+  const match = raw.trim().match(deadlineRegex);
+  if (!match) return null;
+
+  const [day, month, year, hour, minute] = match.slice(1).map(part => parseInt(part, 10));
+  if (!isValidDate(year, month - 1, day) || hour > 23 || minute > 59) return null;
+
+  const localAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const bstStart = Date.UTC(year, 2, lastSundayOf(year, 2), 1);
+  const bstEnd = Date.UTC(year, 9, lastSundayOf(year, 9), 1);
+  const isBst = localAsUtc - 3600000 >= bstStart && localAsUtc - 3600000 < bstEnd;
+
+  return new Date(isBst ? localAsUtc - 3600000 : localAsUtc).toISOString();
+}
+
+// Migration 5: age group, gender group and ball colour of a category label
+export function describeCategory(label: string): { ageGroup: string | null; genderGroup: string | null; ballColour: string | null } {
+  const junior = label.match(/^(\d{1,2})U(?:\s+(Boys|Girls|Mixed))?$/);
+  if (junior) {
+    const age = parseInt(junior[1], 10);
+    const ballColour = Object.keys(BALL_COLOUR_AGES).find(c => BALL_COLOUR_AGES[c] === age) || null;
+    return { ageGroup: `${age}U`, genderGroup: junior[2] || 'Mixed', ballColour };
+  }
+
+  const adult = label.match(/^(Open|\d{2}\+)\s+(Men|Women|Mixed)$/);
+  if (adult) {
+    return { ageGroup: adult[1], genderGroup: adult[2], ballColour: null };
+  }
+
+  return { ageGroup: null, genderGroup: null, ballColour: null };
+}
+
+// Migration 13: LTA season of a tournament code, e.g. SUS-25-0455 is 2025/26
+export function seasonOf(ltaCode: string): string | null {
+  const match = ltaCode.match(/^[A-Z]{3}-(\d{2})-/);
+  if (!match) return null;
+  const year = 2000 + parseInt(match[1], 10);
+  return `${year}/${String((year + 1) % 100).padStart(2, '0')}`;
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day;
+}
+
+function toIsoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function lastSundayOf(year: number, month: number): number {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0));
+  return lastDay.getUTCDate() - lastDay.getUTCDay();
+}
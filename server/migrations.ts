@@ -0,0 +1,491 @@
+import Database, { Database as DatabaseInstance } from 'better-sqlite3';
+import { parseDateRange, parseDeadline, describeCategory, seasonOf } from './migrationBackfills.js';
+
+/**
+ * A numbered schema change. Migrations run in version order, each in its own
+ * transaction together with its schema_version row, so a failure leaves the
+ * database at the previous version.
+ *
+ * Never edit a migration that has shipped; add a new one instead. Databases
+ * created before schema_version existed may already have some of these columns,
+ * so the early migrations only add what is missing.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: DatabaseInstance): void;
+}
+
+export interface SchemaStatus {
+  // 0 for a database that has never been migrated
+  current: number;
+  latest: number;
+  applied: { version: number; name: string; appliedAt: string }[];
+  pending: { version: number; name: string }[];
+}
+
+export interface MigrateResult {
+  from: number;
+  to: number;
+  applied: { version: number; name: string }[];
+  dryRun: boolean;
+}
+
+function hasColumn(db: DatabaseInstance, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some(c => c.name === column);
+}
+
+function addColumn(db: DatabaseInstance, table: string, column: string, definition: string): void {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create tournaments',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tournaments (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          gender TEXT NOT NULL,
+          eventType TEXT NOT NULL,
+          grade TEXT NOT NULL,
+          venue TEXT NOT NULL,
+          postcode TEXT,
+          ltaCode TEXT NOT NULL,
+          date TEXT NOT NULL,
+          month TEXT NOT NULL,
+          category TEXT NOT NULL,
+          organiserEmail TEXT,
+          deadlineCD TEXT,
+          deadlineWD TEXT,
+          createdAt TEXT DEFAULT (datetime('now')),
+          updatedAt TEXT DEFAULT (datetime('now'))
+        )
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_ltaCode ON tournaments(ltaCode)');
+    },
+  },
+  {
+    version: 2,
+    name: 'add county and diagnostics',
+    up(db) {
+      // Existing rows all came from the Sussex-only parser
+      addColumn(db, 'tournaments', 'county', "TEXT NOT NULL DEFAULT 'SUS'");
+      addColumn(db, 'tournaments', 'diagnostics', 'TEXT');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_county ON tournaments(county)');
+    },
+  },
+  {
+    version: 3,
+    name: 'add ISO start and end dates',
+    up(db) {
+      addColumn(db, 'tournaments', 'startDate', 'TEXT');
+      addColumn(db, 'tournaments', 'endDate', 'TEXT');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_startDate ON tournaments(startDate)');
+
+      // Use the year from the month label; the old year guess could be off by one,
+      // so the label follows the weekday-checked year
+      const rows = db.prepare(
+        "SELECT id, date, month FROM tournaments WHERE startDate IS NULL AND date != 'TBD'"
+      ).all() as { id: string; date: string; month: string }[];
+      const update = db.prepare('UPDATE tournaments SET startDate = ?, endDate = ?, month = ? WHERE id = ?');
+      for (const row of rows) {
+        const yearMatch = row.month.match(/\d{4}/);
+        const dates = yearMatch ? parseDateRange(row.date, parseInt(yearMatch[0], 10)) : null;
+        if (dates) {
+          update.run(dates.startDate, dates.endDate, row.month.replace(/\d{4}/, dates.startDate.substring(0, 4)), row.id);
+        }
+      }
+    },
+  },
+  {
+    version: 4,
+    name: 'add deadline timestamps',
+    up(db) {
+      addColumn(db, 'tournaments', 'deadlineCDAt', 'TEXT');
+      addColumn(db, 'tournaments', 'deadlineWDAt', 'TEXT');
+
+      const rows = db.prepare(
+        'SELECT id, deadlineCD, deadlineWD FROM tournaments WHERE deadlineCDAt IS NULL AND deadlineWDAt IS NULL'
+      ).all() as { id: string; deadlineCD: string | null; deadlineWD: string | null }[];
+      const update = db.prepare('UPDATE tournaments SET deadlineCDAt = ?, deadlineWDAt = ? WHERE id = ?');
+      for (const row of rows) {
+        const cd = row.deadlineCD ? parseDeadline(row.deadlineCD) : null;
+        const wd = row.deadlineWD ? parseDeadline(row.deadlineWD) : null;
+        if (cd || wd) {
+          update.run(cd, wd, row.id);
+        }
+      }
+    },
+  },
+  {
+    version: 5,
+    name: 'add category groups',
+    up(db) {
+      addColumn(db, 'tournaments', 'ageGroup', 'TEXT');
+      addColumn(db, 'tournaments', 'genderGroup', 'TEXT');
+      addColumn(db, 'tournaments', 'ballColour', 'TEXT');
+
+      const rows = db.prepare(
+        'SELECT id, category FROM tournaments WHERE ageGroup IS NULL AND genderGroup IS NULL'
+      ).all() as { id: string; category: string }[];
+      const update = db.prepare('UPDATE tournaments SET ageGroup = ?, genderGroup = ?, ballColour = ? WHERE id = ?');
+      for (const row of rows) {
+        const groups = describeCategory(row.category);
+        if (groups.ageGroup) {
+          update.run(groups.ageGroup, groups.genderGroup, groups.ballColour, row.id);
+        }
+      }
+    },
+  },
+  {
+    version: 6,
+    name: 'create extraction cache',
+    up(db) {
+      // AI extraction results, keyed by the SHA-256 of the extracted text
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS extraction_cache (
+          hash TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          records TEXT NOT NULL,
+          createdAt TEXT DEFAULT (datetime('now')),
+          PRIMARY KEY (hash, provider)
+        )
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'create tournament changes',
+    up(db) {
+      // One row per tournament added, updated or missing in an upload; `changes`
+      // is a JSON array of { field, from, to } for updates
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tournament_changes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tournamentId TEXT NOT NULL,
+          ltaCode TEXT NOT NULL,
+          title TEXT NOT NULL,
+          changeType TEXT NOT NULL,
+          changes TEXT NOT NULL DEFAULT '[]',
+          importedAt TEXT NOT NULL
+        )
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_changes_tournament ON tournament_changes(tournamentId)');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_changes_importedAt ON tournament_changes(importedAt)');
+    },
+  },
+  {
+    version: 8,
+    name: 'create imports',
+    up(db) {
+      // One row per uploaded PDF; rolledBackAt is set when the import was undone
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS imports (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          filename TEXT NOT NULL,
+          sha256 TEXT NOT NULL,
+          importedAt TEXT NOT NULL,
+          pageCount INTEGER NOT NULL,
+          mode TEXT NOT NULL,
+          counties TEXT NOT NULL,
+          parsed INTEGER NOT NULL DEFAULT 0,
+          added INTEGER NOT NULL DEFAULT 0,
+          updated INTEGER NOT NULL DEFAULT 0,
+          unchanged INTEGER NOT NULL DEFAULT 0,
+          disappeared INTEGER NOT NULL DEFAULT 0,
+          rolledBackAt TEXT
+        )
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_imports_sha256 ON imports(sha256)');
+
+      // The import that created or last changed each tournament; null for rows stored before imports were recorded
+      addColumn(db, 'tournaments', 'importId', 'INTEGER REFERENCES imports(id)');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_importId ON tournaments(importId)');
+
+      // Updates keep the full row they replaced so an import can be rolled back
+      addColumn(db, 'tournament_changes', 'importId', 'INTEGER REFERENCES imports(id)');
+      addColumn(db, 'tournament_changes', 'previous', 'TEXT');
+    },
+  },
+  {
+    version: 9,
+    name: 'add tournament source',
+    up(db) {
+      // JSON: page, raw entry text, offsets and field spans; null for rows parsed before sources were kept
+      addColumn(db, 'tournaments', 'source', 'TEXT');
+    },
+  },
+  {
+    version: 10,
+    name: 'add tournament search and filter indexes',
+    up(db) {
+      // Free-text search over title, venue and organiser. The index keeps its own
+      // copy keyed by tournament id (tournaments has no stable integer rowid) and
+      // triggers keep it in step with the table
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS tournaments_fts USING fts5(
+          id UNINDEXED, title, venue, organiserEmail,
+          tokenize = 'unicode61 remove_diacritics 2'
+        )
+      `);
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS tournaments_fts_insert AFTER INSERT ON tournaments BEGIN
+          INSERT INTO tournaments_fts (id, title, venue, organiserEmail) VALUES (new.id, new.title, new.venue, new.organiserEmail);
+        END;
+        CREATE TRIGGER IF NOT EXISTS tournaments_fts_delete AFTER DELETE ON tournaments BEGIN
+          DELETE FROM tournaments_fts WHERE id = old.id;
+        END;
+        CREATE TRIGGER IF NOT EXISTS tournaments_fts_update AFTER UPDATE OF id, title, venue, organiserEmail ON tournaments BEGIN
+          DELETE FROM tournaments_fts WHERE id = old.id;
+          INSERT INTO tournaments_fts (id, title, venue, organiserEmail) VALUES (new.id, new.title, new.venue, new.organiserEmail);
+        END;
+      `);
+      db.exec('DELETE FROM tournaments_fts');
+      db.exec('INSERT INTO tournaments_fts (id, title, venue, organiserEmail) SELECT id, title, venue, organiserEmail FROM tournaments');
+
+      db.exec('CREATE INDEX IF NOT EXISTS idx_month ON tournaments(month)');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_ageGroup ON tournaments(ageGroup)');
+    },
+  },
+  {
+    version: 11,
+    name: 'create infographics',
+    up(db) {
+      // Generated images live in DATA_DIR/infographics; `filters` is JSON
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS infographics (
+          id TEXT PRIMARY KEY,
+          filename TEXT NOT NULL,
+          prompt TEXT NOT NULL,
+          filters TEXT NOT NULL DEFAULT '{}',
+          tournamentCount INTEGER NOT NULL,
+          createdAt TEXT NOT NULL
+        )
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_infographics_createdAt ON infographics(createdAt)');
+
+      // The tournaments listed on each infographic, in order. No foreign key to
+      // tournaments: the link stays when a tournament is deleted
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS infographic_tournaments (
+          infographicId TEXT NOT NULL REFERENCES infographics(id),
+          tournamentId TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          PRIMARY KEY (infographicId, tournamentId)
+        )
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_infographic_tournaments_tournament ON infographic_tournaments(tournamentId)');
+    },
+  },
+  {
+    version: 12,
+    name: 'add trash',
+    up(db) {
+      // Deleted rows stay until purged; deleteBatch groups what one delete removed so it can be undone together
+      for (const table of ['tournaments', 'infographics']) {
+        addColumn(db, table, 'deletedAt', 'TEXT');
+        addColumn(db, table, 'deleteBatch', 'TEXT');
+        db.exec(`CREATE INDEX IF NOT EXISTS idx_${table}_deletedAt ON ${table}(deletedAt)`);
+        db.exec(`CREATE INDEX IF NOT EXISTS idx_${table}_deleteBatch ON ${table}(deleteBatch)`);
+      }
+    },
+  },
+  {
+    version: 13,
+    name: 'add seasons and archiving',
+    up(db) {
+      addColumn(db, 'tournaments', 'season', 'TEXT');
+      // Filled by archiveEndedTournaments on startup, since it depends on the date
+      addColumn(db, 'tournaments', 'archivedAt', 'TEXT');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_season ON tournaments(season)');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_archivedAt ON tournaments(archivedAt)');
+
+      const rows = db.prepare('SELECT id, ltaCode FROM tournaments WHERE season IS NULL').all() as { id: string; ltaCode: string }[];
+      const update = db.prepare('UPDATE tournaments SET season = ? WHERE id = ?');
+      for (const row of rows) {
+        const season = seasonOf(row.ltaCode);
+        if (season) {
+          update.run(season, row.id);
+        }
+      }
+    },
+  },
+  {
+    version: 14,
+    name: 'add tournament overrides',
+    up(db) {
+      // Hand edits as JSON by field, and the tournament as parsed before them
+      addColumn(db, 'tournaments', 'overrides', 'TEXT');
+      addColumn(db, 'tournaments', 'parsed', 'TEXT');
+    },
+  },
+  {
+    version: 15,
+    name: 'create users, sessions and api keys',
+    up(db) {
+      // Passwords are scrypt hashes; session tokens and API keys are stored as SHA-256 hashes only
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          passwordHash TEXT NOT NULL,
+          role TEXT NOT NULL,
+          createdAt TEXT NOT NULL DEFAULT (datetime('now'))
+        )
+      `);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          tokenHash TEXT PRIMARY KEY,
+          userId INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          createdAt TEXT NOT NULL,
+          expiresAt TEXT NOT NULL
+        )
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_sessions_expiresAt ON sessions(expiresAt)');
+      // `prefix` is the start of the key, so a key can be recognised in the list without storing it
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS api_keys (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          role TEXT NOT NULL,
+          keyHash TEXT NOT NULL UNIQUE,
+          prefix TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          lastUsedAt TEXT,
+          revokedAt TEXT
+        )
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: 'create jobs',
+    up(db) {
+      // `input` is the job's JSON options; an uploaded PDF waits in JOBS_DIR under the job's id
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS jobs (
+          id TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          label TEXT NOT NULL,
+          input TEXT NOT NULL,
+          status TEXT NOT NULL,
+          stage TEXT,
+          progressCurrent INTEGER,
+          progressTotal INTEGER,
+          message TEXT,
+          result TEXT,
+          error TEXT,
+          cancelRequested INTEGER NOT NULL DEFAULT 0,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          createdAt TEXT NOT NULL,
+          startedAt TEXT,
+          finishedAt TEXT
+        )
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status, createdAt)');
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export function openDatabase(file: string): DatabaseInstance {
+  const db = new Database(file);
+  // Enable WAL mode for better concurrent access
+  db.pragma('journal_mode = WAL');
+  return db;
+}
+
+function ensureVersionTable(db: DatabaseInstance): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt TEXT DEFAULT (datetime('now'))
+    )
+  `);
+}
+
+// Read-only, so `status` and dry runs leave an unmigrated file untouched
+export function getSchemaStatus(db: DatabaseInstance): SchemaStatus {
+  const hasVersionTable = db.prepare(
+    "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'"
+  ).get() !== undefined;
+  const applied = hasVersionTable
+    ? db.prepare('SELECT version, name, appliedAt FROM schema_version ORDER BY version').all() as SchemaStatus['applied']
+    : [];
+  const current = applied.length > 0 ? applied[applied.length - 1].version : 0;
+
+  return {
+    current,
+    latest: LATEST_SCHEMA_VERSION,
+    applied,
+    pending: migrations
+      .filter(m => m.version > current)
+      .map(({ version, name }) => ({ version, name })),
+  };
+}
+
+/**
+ * Brings the database up to the latest schema version. With `dryRun` the
+ * pending migrations still run against the real data, but every transaction is
+ * rolled back, so a failing migration shows up without changing the file.
+ * Throws when the database was written by a newer build.
+ */
+export function migrate(db: DatabaseInstance, options: { dryRun?: boolean; log?: (message: string) => void } = {}): MigrateResult {
+  const status = getSchemaStatus(db);
+  if (status.current > status.latest) {
+    throw new Error(
+      `Database schema version ${status.current} is newer than this build supports (${status.latest})`
+    );
+  }
+
+  const dryRun = options.dryRun ?? false;
+  const applied: MigrateResult['applied'] = [];
+
+  const applyPending = () => {
+    ensureVersionTable(db);
+    const recordStmt = db.prepare('INSERT INTO schema_version (version, name) VALUES (?, ?)');
+    for (const migration of migrations.filter(m => m.version > status.current)) {
+      try {
+        db.transaction(() => {
+          migration.up(db);
+          recordStmt.run(migration.version, migration.name);
+        })();
+      } catch (error: any) {
+        throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error.message}`);
+      }
+      applied.push({ version: migration.version, name: migration.name });
+      options.log?.(`${dryRun ? 'Would apply' : 'Applied'} migration ${migration.version}: ${migration.name}`);
+    }
+  };
+
+  if (dryRun) {
+    // The per-migration transactions become savepoints inside this one,
+    // which is always rolled back
+    const rollback = new Error('dry run');
+    try {
+      db.transaction(() => {
+        applyPending();
+        throw rollback;
+      })();
+    } catch (error) {
+      if (error !== rollback) throw error;
+    }
+  } else {
+    applyPending();
+  }
+
+  return {
+    from: status.current,
+    to: dryRun || applied.length === 0 ? status.current : applied[applied.length - 1].version,
+    applied,
+    dryRun,
+  };
+}
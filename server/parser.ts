@@ -1,43 +1,155 @@
-import { Tournament } from './db.js';
+import { Tournament, ParseDiagnostics, EntryStatus, CategoryGroups, GenderGroup, BallColour, TournamentSource, SourceSpan } from './db.js';
+
+// Counties kept when no selection is given (Sussex is our home county)
+export const DEFAULT_COUNTIES = ['SUS'];
+
+// Tournaments below this confidence are flagged for a manual check
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+// Entries count as closing soon this long before the closing deadline
+export const CLOSING_SOON_HOURS = 72;
+
+// Upload-level summary of the per-tournament diagnostics
+export interface ParseWarnings {
+  averageConfidence: number;
+  lowConfidence: number;
+  lowConfidenceIds: string[];
+  // How many tournaments had each field defaulted
+  defaultedFields: Record<string, number>;
+}
+
+export interface ParseOptions {
+  // LTA county prefixes to keep (e.g. ["SUS", "SUR"]), or "all" for the whole calendar
+  counties?: string[] | 'all';
+  // Offsets in the text where each PDF page begins (the first is 0), to record each entry's page
+  pageStarts?: number[];
+}
+
+// Columns of the calendar table, as rebuilt by the positional PDF extraction
+export type CalendarColumn =
+  | 'code'
+  | 'name'
+  | 'gender'
+  | 'eventType'
+  | 'grade'
+  | 'date'
+  | 'venue'
+  | 'deadlines'
+  | 'organiser';
+
+export type LayoutCells = Partial<Record<CalendarColumn, string>>;
+
+export interface LayoutLine {
+  page: number;
+  // Full line text in reading order
+  text: string;
+  // Text split into table columns, or null when no table header has been seen yet
+  cells: LayoutCells | null;
+}
+
+// One calendar entry (a code and the text up to the next code) and what was parsed from it
+export interface CalendarEntry {
+  code: string;
+  text: string;
+  tournaments: Tournament[];
+}
+
+// Gender, type and grade of one event; a single code can list several
+interface EventFields {
+  gender: string;
+  eventType: string;
+  grade: string;
+  // Event fields that were not found and got a placeholder value
+  defaulted: DiagnosedField[];
+}
+
+// Fields pulled out of a single calendar entry
+interface ExtractedFields {
+  title: string;
+  events: EventFields[];
+  date: string;
+  venue: string;
+  organiserEmail: string;
+  deadlineCD: string;
+  deadlineWD: string;
+  // Entry fields that were not found and got a placeholder value
+  defaulted: DiagnosedField[];
+}
+
+export type DiagnosedField = keyof typeof FIELD_WEIGHTS;
+
+// How much each field counts towards the confidence score
+const FIELD_WEIGHTS = {
+  title: 1,
+  category: 1,
+  gender: 1,
+  eventType: 1,
+  grade: 1,
+  date: 2,
+  venue: 2,
+  postcode: 0.5,
+  organiserEmail: 0.5,
+  deadlineCD: 1,
+  deadlineWD: 0.5,
+};
+
+// Fields the diagnostics score, which are also the ones AI extraction and manual edits can set
+export const DIAGNOSED_FIELDS = Object.keys(FIELD_WEIGHTS) as DiagnosedField[];
+
+// Permissive Regex for LTA Code
+const entryStartRegex = /([A-Z]\s*[A-Z]\s*[A-Z]\s*[-]\s*\d\s*\d\s*[-]\s*\d\s*\d\s*\d\s*\d)/g;
+
+// Category label for entries that appear before any section header
+export const UNCATEGORISED = "Uncategorised";
+
+// Section headers of the calendar, e.g. "12 & U EVENTS - BOYS", "45+ EVENTS - WOMEN", "OPEN EVENTS"
+const juniorHeaderRegex = /\b(\d{1,2})\s*&\s*U(?:NDER)?\s*EVENTS?(?:\s*-\s*(BOYS|GIRLS|MIXED)\b)?/gi;
+const seniorHeaderRegex = /\b(?:(?:VETERANS?|SENIORS?|MASTERS?)\s*)?(\d{2})\s*(?:\+|&\s*OVER)\s*EVENTS?(?:\s*-\s*(MEN|WOMEN|MIXED)\b)?/gi;
+const openHeaderRegex = /\bOPEN\s*EVENTS?(?:\s*-\s*(MEN|WOMEN|MIXED)\b)?/gi;
+const ballHeaderRegex = /\b(RED|ORANGE|GREEN)\s*BALL\s*EVENTS?/gi;
+
+// LTA ball stages for the youngest age groups
+const BALL_COLOUR_AGES: Record<BallColour, number> = { red: 8, orange: 9, green: 10 };
+const SENIOR_AGES = [35, 40, 45, 50, 55, 60, 65, 70, 75];
+
+const genderRegex = /\b(Mixed|Male|Female)\b/i;
+const eventTypeRegex = /\b(Singles|Doubles)\b/i;
+const gradeRegex = /(?:Singles|Doubles|Grade)\s*(\d)/i;
+// One event per match: "Male Singles 3", "Mixed Doubles Grade 4"
+const eventRegex = /\b(Mixed|Male|Female)\s*(Singles|Doubles)\b\s*(?:Grade\s*)?(\d\b)?/gi;
+// Single dates ("Sat 06 Sep") or ranges ("Sat 06 - Sun 07 Sep", "Sat 27 Sep - Sun 05 Oct")
+const dateRegex = /(?:Sat|Sun|Mon|Tue|Wed|Thu|Fri)\s*\d{1,2}(?:\s*[A-Za-z]{3})?\s*-\s*(?:Sat|Sun|Mon|Tue|Wed|Thu|Fri)\s*\d{1,2}\s*[A-Za-z]{3}|(?:Sat|Sun|Mon|Tue|Wed|Thu|Fri)\s*\d{1,2}\s*\w{3}/i;
+const dateRangeRegex = /^([A-Za-z]{3})\s*(\d{1,2})(?:\s*([A-Za-z]{3}))?(?:\s*-\s*([A-Za-z]{3})\s*(\d{1,2})\s*([A-Za-z]{3}))?$/;
+
+const DAY_ABBRS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const MONTH_ABBRS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+const cdRegex = /CD:\s*(\d{2}\/\d{2}\/\d{4}\s*\d{2}:\d{2})/i;
+const wdRegex = /WD:\s*(\d{2}\/\d{2}\/\d{4}\s*\d{2}:\d{2})/i;
+const deadlineRegex = /^(\d{2})\/(\d{2})\/(\d{4})\s*(\d{2}):(\d{2})$/;
+const emailRegex = /([a-zA-Z0-9._%+-]+\s*@\s*[a-zA-Z0-9.-]+\s*\.\s*[a-zA-Z]{2,})/;
 
 /**
  * Resilient parser for LTA Tournament Calendars.
  * Specifically handles the multi-column layout by looking for keywords
  * and boundaries like "CD:", "WD:", and "Mixed/Male/Female".
  */
-export function parseTournamentsProgrammatically(text: string): Tournament[] {
-  const tournaments: Tournament[] = [];
+export function parseTournamentsProgrammatically(text: string, options: ParseOptions = {}): Tournament[] {
+  return parseTextEntries(text, options).flatMap(entry => entry.tournaments);
+}
+
+export function parseTextEntries(text: string, options: ParseOptions = {}): CalendarEntry[] {
+  const entries: CalendarEntry[] = [];
+  const countyFilter = normalizeCounties(options.counties);
 
   // Normalize spacing and dashes
   const normalizedText = text.replace(/[–—]/g, '-');
 
-  // Permissive Regex for LTA Code
-  const entryStartRegex = /([A-Z]\s*[A-Z]\s*[A-Z]\s*[-]\s*\d\s*\d\s*[-]\s*\d\s*\d\s*\d\s*\d)/g;
-
-  // Order matters - more specific patterns first (with gender suffixes)
-  const categoryPatterns = [
-    // 8U-10U are mixed gender (no Boys/Girls suffix)
-    { label: "8U", regex: /8\s*&\s*U\s*EVENTS/i },
-    { label: "9U", regex: /9\s*&\s*U\s*EVENTS/i },
-    { label: "10U", regex: /10\s*&\s*U\s*EVENTS/i },
-    // 11U-18U have Boys/Girls suffixes - check gender-specific patterns first
-    { label: "11U Boys", regex: /11\s*&\s*U\s*EVENTS?\s*[-–—]\s*BOYS/i },
-    { label: "11U Girls", regex: /11\s*&\s*U\s*EVENTS?\s*[-–—]\s*GIRLS/i },
-    { label: "12U Boys", regex: /12\s*&\s*U\s*EVENTS?\s*[-–—]\s*BOYS/i },
-    { label: "12U Girls", regex: /12\s*&\s*U\s*EVENTS?\s*[-–—]\s*GIRLS/i },
-    { label: "14U Boys", regex: /14\s*&\s*U\s*EVENTS?\s*[-–—]\s*BOYS/i },
-    { label: "14U Girls", regex: /14\s*&\s*U\s*EVENTS?\s*[-–—]\s*GIRLS/i },
-    { label: "16U Boys", regex: /16\s*&\s*U\s*EVENTS?\s*[-–—]\s*BOYS/i },
-    { label: "16U Girls", regex: /16\s*&\s*U\s*EVENTS?\s*[-–—]\s*GIRLS/i },
-    { label: "18U Boys", regex: /18\s*&\s*U\s*EVENTS?\s*[-–—]\s*BOYS/i },
-    { label: "18U Girls", regex: /18\s*&\s*U\s*EVENTS?\s*[-–—]\s*GIRLS/i },
-    // Open events with gender
-    { label: "Open Men", regex: /OPEN\s*EVENTS?\s*[-–—]\s*MEN/i },
-    { label: "Open Women", regex: /OPEN\s*EVENTS?\s*[-–—]\s*WOMEN/i },
-  ];
-
   const codeMatches = Array.from(normalizedText.matchAll(entryStartRegex));
-  let currentCategory = "Junior";
+  const headers = findCategoryHeaders(normalizedText);
 
   for (let i = 0; i < codeMatches.length; i++) {
     const match = codeMatches[i];
@@ -48,100 +160,700 @@ export function parseTournamentsProgrammatically(text: string): Tournament[] {
     const endIndex = nextMatch ? nextMatch.index : normalizedText.length;
     const chunk = normalizedText.substring(startIndex, endIndex);
 
-    // Filter for Sussex
-    if (!normalizedCode.toUpperCase().startsWith("SUS-")) continue;
+    // Filter by county prefix (e.g. "SUS" in SUS-25-0455)
+    const county = normalizedCode.substring(0, 3).toUpperCase();
+    if (countyFilter && !countyFilter.includes(county)) continue;
 
-    // Track Category Header
-    const textBefore = normalizedText.substring(Math.max(0, startIndex - 1000), startIndex);
-    for (const cat of categoryPatterns) {
-      if (cat.regex.test(textBefore)) {
-        currentCategory = cat.label;
-      }
+    // The section is the last header anywhere before the code, however far back (page breaks included)
+    const header = headers.filter(h => h.index < startIndex).pop();
+    const category = header ? header.label : UNCATEGORISED;
+
+    const fields = extractFieldsFromChunk(chunk, rawCode);
+    const end = startIndex + chunk.trimEnd().length;
+    const source = { page: pageAt(options.pageStarts, startIndex), text: text.substring(startIndex, end), start: startIndex, end };
+    entries.push({
+      code: normalizedCode,
+      text: chunk.trim(),
+      tournaments: withSource(buildTournaments(normalizedCode, county, category, fields), source),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Parser for the positional PDF extraction.
+ * Each line that starts with an LTA code in the code column opens a new entry;
+ * following lines without a code are wrapped text and are appended cell by cell.
+ * Cells that come out empty fall back to the keyword extraction on the entry text.
+ */
+export function parseTournamentRows(lines: LayoutLine[], options: ParseOptions = {}): Tournament[] {
+  return parseRowEntries(lines, options).flatMap(entry => entry.tournaments);
+}
+
+export function parseRowEntries(lines: LayoutLine[], options: ParseOptions = {}): CalendarEntry[] {
+  const entries: CalendarEntry[] = [];
+  const countyFilter = normalizeCounties(options.counties);
+  const codeRegex = new RegExp(`^${entryStartRegex.source}`);
+
+  let currentCategory = UNCATEGORISED;
+  let entry: { code: string; category: string; cells: LayoutCells; text: string; source: Omit<TournamentSource, 'fields'> } | null = null;
+  // Offsets refer to the lines joined with newlines
+  let offset = 0;
+
+  const flush = () => {
+    if (!entry) return;
+    const county = entry.code.substring(0, 3).toUpperCase();
+    if (!countyFilter || countyFilter.includes(county)) {
+      const fields = extractFieldsFromCells(entry.cells, entry.text);
+      entries.push({
+        code: entry.code,
+        text: entry.text,
+        tournaments: withSource(buildTournaments(entry.code, county, entry.category, fields), entry.source),
+      });
     }
+    entry = null;
+  };
+
+  for (const line of lines) {
+    const lineStart = offset;
+    offset += line.text.length + 1;
+    const lineText = line.text.replace(/[–—]/g, '-');
+    const heading = findCategoryHeaders(lineText).pop();
+    const codeMatch = line.cells?.code?.replace(/[–—]/g, '-').match(codeRegex);
 
-    // --- Targeted Extraction ---
-
-    // 1. Gender & Event Type
-    const genderMatch = chunk.match(/\b(Mixed|Male|Female)\b/i);
-    const typeMatch = chunk.match(/\b(Singles|Doubles)\b/i);
-    const gender = genderMatch ? genderMatch[0] : "Mixed";
-    const eventType = typeMatch ? typeMatch[0] : "Singles";
-
-    // 2. Grade (digit near "Singles/Doubles")
-    const gradeMatch = chunk.match(/(?:Singles|Doubles|Grade)\s*(\d)/i);
-    const grade = gradeMatch ? gradeMatch[1] : "4";
-
-    // 3. Date (Sat 06 Sep)
-    const dateMatch = chunk.match(/(?:Sat|Sun|Mon|Tue|Wed|Thu|Fri)\s*\d{1,2}\s*\w{3}/i);
-    const dateStr = dateMatch ? dateMatch[0].replace(/\s+/g, ' ') : "TBD";
-
-    // 4. Deadlines (CD: 01/09/2025 10:00)
-    const cdMatch = chunk.match(/CD:\s*(\d{2}\/\d{2}\/\d{4}\s*\d{2}:\d{2})/i);
-    const wdMatch = chunk.match(/WD:\s*(\d{2}\/\d{2}\/\d{4}\s*\d{2}:\d{2})/i);
-    const cd = cdMatch ? cdMatch[1] : "N/A";
-    const wd = wdMatch ? wdMatch[1] : "N/A";
-
-    // 5. Email
-    const emailMatch = chunk.match(/([a-zA-Z0-9._%+-]+\s*@\s*[a-zA-Z0-9.-]+\s*\.\s*[a-zA-Z]{2,})/);
-    const email = emailMatch ? emailMatch[0].replace(/\s+/g, '') : "";
-
-    // 6. Title (Text between Code and first Gender/Type/Date marker)
-    // Keep full title but remove trailing date patterns like "- 1-11-2025" or "- 01/11/2025"
-    const titleStopIndex = Math.min(
-      chunk.indexOf(gender) > -1 ? chunk.indexOf(gender) : chunk.length,
-      chunk.indexOf(eventType) > -1 ? chunk.indexOf(eventType) : chunk.length
-    );
-    let title = chunk.substring(rawCode.length, titleStopIndex).trim();
-    title = title.replace(/^[-–—\s]+/, '').replace(/[-–—\s]+$/, '');
-    // Remove trailing date patterns like "- 1-11-2025", "- 01/11/2025", "- 1/11/25", "- 2 - 1 - 2026"
-    title = title.replace(/\s*[-–—]\s*\d{1,2}\s*[-\/–—]\s*\d{1,2}\s*[-\/–—]\s*\d{2,4}\s*$/gi, '');
-    // Clean up any trailing dashes/spaces
-    title = title.replace(/[-–—\s]+$/, '').trim();
-
-    // 7. Venue (Text between Date and "CD:")
-    let venue = "Sussex Club";
-    if (dateMatch) {
-      const dateEndIndex = chunk.indexOf(dateMatch[0]) + dateMatch[0].length;
-      const cdStartIndex = chunk.indexOf("CD:");
-      if (cdStartIndex > dateEndIndex) {
-        venue = chunk.substring(dateEndIndex, cdStartIndex).trim();
+    if (heading && !codeMatch) {
+      flush();
+      currentCategory = heading.label;
+      continue;
+    }
+
+    if (codeMatch && line.cells) {
+      flush();
+      entry = {
+        code: codeMatch[0].replace(/\s+/g, ''),
+        category: currentCategory,
+        cells: { ...line.cells },
+        text: lineText,
+        source: { page: line.page, text: line.text, start: lineStart, end: lineStart + line.text.length },
+      };
+      continue;
+    }
+
+    if (entry && line.cells) {
+      for (const [column, value] of Object.entries(line.cells) as [CalendarColumn, string][]) {
+        entry.cells[column] = entry.cells[column] ? `${entry.cells[column]} ${value}` : value;
       }
+      entry.text += ` ${lineText}`;
+      entry.source.text += `\n${line.text}`;
+      entry.source.end = lineStart + line.text.length;
     }
-    venue = venue.replace(/\s+/g, ' ').substring(0, 80);
-
-    // Month Label
-    const monthMap: Record<string, string> = {
-      'JAN': 'January', 'FEB': 'February', 'MAR': 'March', 'APR': 'April',
-      'MAY': 'May', 'JUN': 'June', 'JUL': 'July', 'AUG': 'August',
-      'SEP': 'September', 'OCT': 'October', 'NOV': 'November', 'DEC': 'December'
-    };
-    const dateParts = dateStr.toUpperCase().split(' ');
-    const monthAbbr = dateParts[dateParts.length - 1];
-    const fullMonth = monthMap[monthAbbr] || 'Upcoming';
-    const year = normalizedCode.includes('-25-') ? '2025' : '2026';
-
-    // Create unique ID combining code, gender, event type, and category
-    const uniqueId = `${normalizedCode}-${gender}-${eventType}-${currentCategory}`.replace(/\s+/g, '_');
-
-    tournaments.push({
-      id: uniqueId,
-      title: title || `${currentCategory} Event`,
-      gender: gender,
-      eventType: eventType,
-      grade: `Grade ${grade}`,
-      venue: venue,
-      postcode: extractPostcode(venue) || "BN1",
-      ltaCode: normalizedCode,
-      date: dateStr,
-      month: `${fullMonth} ${year}`,
-      category: currentCategory,
-      organiserEmail: email,
-      deadlineCD: cd,
-      deadlineWD: wd
-    });
+  }
+  flush();
+
+  return entries;
+}
+
+/**
+ * Picks the parser for a positional extraction: table rows when a table header
+ * was found, otherwise keyword chunking over the same text.
+ */
+export function parseCalendarLines(lines: LayoutLine[], options: ParseOptions = {}): Tournament[] {
+  return parseCalendarEntries(lines, options).flatMap(entry => entry.tournaments);
+}
+
+export function parseCalendarEntries(lines: LayoutLine[], options: ParseOptions = {}): CalendarEntry[] {
+  if (lines.some(line => line.cells !== null)) {
+    return parseRowEntries(lines, options);
+  }
+  // Page boundaries of the joined text, so text-parsed entries still know their page
+  const pageStarts: number[] = [];
+  let offset = 0;
+  lines.forEach((line, index) => {
+    if (index === 0 || line.page !== lines[index - 1].page) pageStarts[line.page - 1] = offset;
+    offset += line.text.length + 1;
+  });
+  return parseTextEntries(lines.map(line => line.text).join('\n'), { ...options, pageStarts });
+}
+
+// 1-based page of a text offset, or null without page boundaries
+function pageAt(pageStarts: number[] | undefined, offset: number): number | null {
+  if (!pageStarts || pageStarts.length === 0) return null;
+  let page = 1;
+  pageStarts.forEach((start, index) => {
+    if (start !== undefined && start <= offset) page = index + 1;
+  });
+  return page;
+}
+
+function withSource(tournaments: Tournament[], source: Omit<TournamentSource, 'fields'>): Tournament[] {
+  return tournaments.map(t => ({ ...t, source: { ...source, fields: locateFields(source.text, t) } }));
+}
+
+/**
+ * Finds where each extracted field appears in an entry's raw text, for
+ * highlighting. Defaulted fields and values that were rewritten beyond
+ * recognition get no span.
+ */
+function locateFields(text: string, tournament: Tournament): Record<string, SourceSpan> {
+  const normalized = text.replace(/[–—]/g, '-');
+  const defaulted = tournament.diagnostics?.defaulted || [];
+  const spans: Record<string, SourceSpan> = {};
+  const found = (field: string, index: number, length: number) => {
+    spans[field] = { start: index, end: index + length };
+  };
+  const foundGroup = (field: string, match: RegExpExecArray | null, group = 0) => {
+    if (match && match[group]) found(field, match.index + match[0].indexOf(match[group]), match[group].length);
+  };
+
+  foundGroup('ltaCode', new RegExp(entryStartRegex.source).exec(normalized));
+  if (!defaulted.includes('title')) foundGroup('title', looseMatch(normalized, tournament.title));
+
+  // The event phrase for this tournament ("Female Singles 4"), not just the first one in the entry
+  const event = Array.from(normalized.matchAll(eventRegex)).find(m =>
+    m[1].toLowerCase() === tournament.gender.toLowerCase() && m[2].toLowerCase() === tournament.eventType.toLowerCase()
+  );
+  if (event) {
+    found('gender', event.index!, event[1].length);
+    found('eventType', event.index! + event[0].indexOf(event[2], event[1].length), event[2].length);
+    if (event[3]) found('grade', event.index! + event[0].lastIndexOf(event[3]), event[3].length);
+  } else {
+    if (!defaulted.includes('gender')) foundGroup('gender', looseMatch(normalized, tournament.gender, true));
+    if (!defaulted.includes('eventType')) foundGroup('eventType', looseMatch(normalized, tournament.eventType, true));
+  }
+
+  if (!defaulted.includes('date')) foundGroup('date', dateRegex.exec(normalized));
+  if (!defaulted.includes('venue')) foundGroup('venue', looseMatch(normalized, tournament.venue));
+  if (!defaulted.includes('postcode')) foundGroup('postcode', looseMatch(normalized, tournament.postcode));
+  if (!defaulted.includes('deadlineCD')) foundGroup('deadlineCD', cdRegex.exec(normalized), 1);
+  if (!defaulted.includes('deadlineWD')) foundGroup('deadlineWD', wdRegex.exec(normalized), 1);
+  if (!defaulted.includes('organiserEmail')) foundGroup('organiserEmail', emailRegex.exec(normalized));
+
+  return spans;
+}
+
+// Case-insensitive search that lets any run of whitespace (including line breaks) match a space
+function looseMatch(text: string, value: string, wholeWord = false): RegExpExecArray | null {
+  const words = value.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  const pattern = words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+  return new RegExp(wholeWord ? `\\b${pattern}\\b` : pattern, 'i').exec(text);
+}
+
+/**
+ * Finds every section header in the text, in order, with its category label:
+ * "8U"-"10U" (mixed), "12U Boys", "14U Mixed", "Open Women", "45+ Men".
+ * Ball-colour headers map to their age group ("ORANGE BALL EVENTS" is 9U).
+ */
+function findCategoryHeaders(text: string): { index: number; label: string }[] {
+  const headers: { index: number; label: string }[] = [];
+
+  for (const match of text.matchAll(juniorHeaderRegex)) {
+    const age = parseInt(match[1], 10);
+    const suffix = match[2] ? titleCase(match[2]) : (age <= 10 ? '' : 'Mixed');
+    headers.push({ index: match.index!, label: suffix ? `${age}U ${suffix}` : `${age}U` });
+  }
+  for (const match of text.matchAll(seniorHeaderRegex)) {
+    const age = parseInt(match[1], 10);
+    if (!SENIOR_AGES.includes(age)) continue;
+    headers.push({ index: match.index!, label: `${age}+ ${match[2] ? titleCase(match[2]) : 'Mixed'}` });
+  }
+  for (const match of text.matchAll(openHeaderRegex)) {
+    headers.push({ index: match.index!, label: `Open ${match[1] ? titleCase(match[1]) : 'Mixed'}` });
+  }
+  for (const match of text.matchAll(ballHeaderRegex)) {
+    headers.push({ index: match.index!, label: `${BALL_COLOUR_AGES[match[1].toLowerCase() as BallColour]}U` });
+  }
+
+  return headers.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Structured breakdown of a category label, used for filtering instead of
+ * matching on the label text. Unknown labels (including the old "Junior"
+ * default) have no age or gender group.
+ */
+export function describeCategory(label: string): CategoryGroups {
+  const junior = label.match(/^(\d{1,2})U(?:\s+(Boys|Girls|Mixed))?$/);
+  if (junior) {
+    const age = parseInt(junior[1], 10);
+    const ballColour = (Object.keys(BALL_COLOUR_AGES) as BallColour[]).find(c => BALL_COLOUR_AGES[c] === age) || null;
+    return { ageGroup: `${age}U`, genderGroup: (junior[2] as GenderGroup) || 'Mixed', ballColour };
+  }
+
+  const adult = label.match(/^(Open|\d{2}\+)\s+(Men|Women|Mixed)$/);
+  if (adult) {
+    return { ageGroup: adult[1], genderGroup: adult[2] as GenderGroup, ballColour: null };
+  }
+
+  return { ageGroup: null, genderGroup: null, ballColour: null };
+}
+
+function titleCase(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+/**
+ * Keyword extraction over the raw text of one entry (from its code up to the next code).
+ */
+function extractFieldsFromChunk(chunk: string, rawCode: string): ExtractedFields {
+  const defaulted: DiagnosedField[] = [];
+
+  // 1. Date (Sat 06 Sep)
+  const dateMatch = chunk.match(dateRegex);
+  const dateStr = dateMatch ? normalizeDate(dateMatch[0]) : "TBD";
+  if (!dateMatch) defaulted.push('date');
+
+  // 2. Events (gender, type and grade), listed between the title and the date
+  const events = extractEventsFromChunk(dateMatch ? chunk.substring(0, dateMatch.index) : chunk, chunk);
+  const { gender, eventType } = events[0];
+
+  // 3. Deadlines (CD: 01/09/2025 10:00)
+  const cdMatch = chunk.match(cdRegex);
+  const wdMatch = chunk.match(wdRegex);
+  const cd = cdMatch ? cdMatch[1] : "N/A";
+  const wd = wdMatch ? wdMatch[1] : "N/A";
+  if (!cdMatch) defaulted.push('deadlineCD');
+  if (!wdMatch) defaulted.push('deadlineWD');
+
+  // 4. Email
+  const emailMatch = chunk.match(emailRegex);
+  const email = emailMatch ? emailMatch[0].replace(/\s+/g, '') : "";
+  if (!emailMatch) defaulted.push('organiserEmail');
+
+  // 5. Title (Text between Code and the first event, or the first Gender/Type marker)
+  const firstEventIndex = chunk.search(new RegExp(eventRegex.source, 'i'));
+  const titleStopIndex = firstEventIndex > -1 ? firstEventIndex : Math.min(
+    chunk.indexOf(gender) > -1 ? chunk.indexOf(gender) : chunk.length,
+    chunk.indexOf(eventType) > -1 ? chunk.indexOf(eventType) : chunk.length
+  );
+  const title = cleanTitle(chunk.substring(rawCode.length, titleStopIndex));
+  if (!title) defaulted.push('title');
+
+  // 6. Venue (Text between Date and "CD:")
+  let venue = "";
+  if (dateMatch) {
+    const dateEndIndex = chunk.indexOf(dateMatch[0]) + dateMatch[0].length;
+    const cdStartIndex = chunk.indexOf("CD:");
+    if (cdStartIndex > dateEndIndex) {
+      venue = chunk.substring(dateEndIndex, cdStartIndex).trim();
+    }
+  }
+  venue = venue.replace(/\s+/g, ' ').substring(0, 80);
+  if (!venue) {
+    venue = "Sussex Club";
+    defaulted.push('venue');
   }
 
-  return tournaments;
+  return { title, events, date: dateStr, venue, organiserEmail: email, deadlineCD: cd, deadlineWD: wd, defaulted };
+}
+
+/**
+ * Finds every "Gender Type Grade" event in the part of an entry before its date.
+ * Entries where gender and type are not written together fall back to the first
+ * gender and type anywhere in the entry, as a single event.
+ */
+function extractEventsFromChunk(eventText: string, chunk: string): EventFields[] {
+  const gradeMatch = chunk.match(gradeRegex);
+  const sharedGrade = gradeMatch ? gradeMatch[1] : "4";
+
+  const events = Array.from(eventText.matchAll(eventRegex)).map((match): EventFields => ({
+    gender: match[1],
+    eventType: match[2],
+    grade: match[3] || sharedGrade,
+    defaulted: match[3] || gradeMatch ? [] : ['grade'],
+  }));
+  if (events.length > 0) return events;
+
+  const genderMatch = chunk.match(genderRegex);
+  const typeMatch = chunk.match(eventTypeRegex);
+  const defaulted: DiagnosedField[] = [];
+  if (!genderMatch) defaulted.push('gender');
+  if (!typeMatch) defaulted.push('eventType');
+  if (!gradeMatch) defaulted.push('grade');
+
+  return [{
+    gender: genderMatch ? genderMatch[0] : "Mixed",
+    eventType: typeMatch ? typeMatch[0] : "Singles",
+    grade: sharedGrade,
+    defaulted,
+  }];
+}
+
+/**
+ * Pairs up the gender, type and grade cells of a row that lists several events
+ * ("Male Female" / "Singles Singles" / "3 3"). A cell with a single value applies
+ * to every event. Returns null when the cells hold no gender or type at all.
+ */
+function extractEventsFromCells(cells: LayoutCells): EventFields[] | null {
+  const genders = Array.from((cells.gender || '').matchAll(new RegExp(genderRegex.source, 'gi')), m => m[0]);
+  const types = Array.from((cells.eventType || '').matchAll(new RegExp(eventTypeRegex.source, 'gi')), m => m[0]);
+  const grades = Array.from((cells.grade || '').matchAll(/\d/g), m => m[0]);
+  if (genders.length === 0 || types.length === 0) return null;
+
+  const count = Math.max(genders.length, types.length, grades.length);
+  const pick = (values: string[], index: number) => values[Math.min(index, values.length - 1)];
+
+  return Array.from({ length: count }, (_, index): EventFields => ({
+    gender: pick(genders, index),
+    eventType: pick(types, index),
+    grade: grades.length > 0 ? pick(grades, index) : "4",
+    defaulted: grades.length > 0 ? [] : ['grade'],
+  }));
+}
+
+/**
+ * Extraction from table cells, where each field has its own column.
+ */
+function extractFieldsFromCells(cells: LayoutCells, entryText: string): ExtractedFields {
+  const fallback = extractFieldsFromChunk(entryText, cells.code || '');
+
+  const cellEvents = extractEventsFromCells(cells);
+  const dateMatch = cells.date?.match(dateRegex);
+  const cdMatch = cells.deadlines?.match(cdRegex);
+  const wdMatch = cells.deadlines?.match(wdRegex);
+  const emailMatch = cells.organiser?.match(emailRegex);
+  const title = cleanTitle(cells.name || '');
+  const venue = (cells.venue || '').replace(/\s+/g, ' ').trim().substring(0, 80);
+
+  // A field is only defaulted if neither its cell nor the text fallback had it
+  const found: Partial<Record<DiagnosedField, boolean>> = {
+    title: !!title,
+    date: !!dateMatch,
+    venue: !!venue,
+    organiserEmail: !!emailMatch,
+    deadlineCD: !!cdMatch,
+    deadlineWD: !!wdMatch,
+  };
+  const defaulted = fallback.defaulted.filter(field => !found[field]);
+
+  return {
+    title: title || fallback.title,
+    events: cellEvents || fallback.events,
+    date: dateMatch ? normalizeDate(dateMatch[0]) : fallback.date,
+    venue: venue || fallback.venue,
+    organiserEmail: emailMatch ? emailMatch[0].replace(/\s+/g, '') : fallback.organiserEmail,
+    deadlineCD: cdMatch ? cdMatch[1] : fallback.deadlineCD,
+    deadlineWD: wdMatch ? wdMatch[1] : fallback.deadlineWD,
+    defaulted,
+  };
+}
+
+// Keep full title but remove trailing date patterns like "- 1-11-2025" or "- 01/11/2025"
+function cleanTitle(raw: string): string {
+  let title = raw.trim();
+  title = title.replace(/^[-–—\s]+/, '').replace(/[-–—\s]+$/, '');
+  // Remove trailing date patterns like "- 1-11-2025", "- 01/11/2025", "- 1/11/25", "- 2 - 1 - 2026"
+  title = title.replace(/\s*[-–—]\s*\d{1,2}\s*[-\/–—]\s*\d{1,2}\s*[-\/–—]\s*\d{2,4}\s*$/gi, '');
+  // Clean up any trailing dashes/spaces
+  return title.replace(/[-–—\s]+$/, '').trim();
+}
+
+// "Sat 06  -Sun 07 Sep" -> "Sat 06 - Sun 07 Sep"
+function normalizeDate(raw: string): string {
+  return raw.replace(/\s*-\s*/g, ' - ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * LTA season of a tournament code: the code's year starts it, so SUS-25-0455 is
+ * in the 2025/26 season. Null when the code carries no year.
+ */
+export function seasonOf(ltaCode: string): string | null {
+  const match = ltaCode.match(/^[A-Z]{3}-(\d{2})-/);
+  if (!match) return null;
+  const year = 2000 + parseInt(match[1], 10);
+  return `${year}/${String((year + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Converts a calendar date like "Sat 06 Sep" or "Sat 06 - Sun 07 Sep" to ISO dates.
+ * The calendar omits the year, so the years around `baseYear` are tried and the one
+ * whose weekday matches the printed day name wins (a January event under a 25 code
+ * is in 2026). If no weekday matches, `baseYear` is used.
+ */
+export function parseDateRange(date: string, baseYear: number): { startDate: string; endDate: string } | null {
+  const match = date.trim().match(dateRangeRegex);
+  if (!match) return null;
+
+  const [, startDay, startDayOfMonth, startMonthAbbr, endDay, endDayOfMonth, endMonthAbbr] = match;
+  const startMonth = MONTH_ABBRS.indexOf((startMonthAbbr || endMonthAbbr || '').toUpperCase());
+  const endMonth = MONTH_ABBRS.indexOf((endMonthAbbr || startMonthAbbr || '').toUpperCase());
+  if (startMonth === -1 || endMonth === -1) return null;
+
+  const startDayIndex = DAY_ABBRS.indexOf(startDay.toUpperCase());
+  const day = parseInt(startDayOfMonth, 10);
+  const startYear = [baseYear, baseYear + 1, baseYear - 1]
+    .find(year => isValidDate(year, startMonth, day) && new Date(Date.UTC(year, startMonth, day)).getUTCDay() === startDayIndex)
+    ?? baseYear;
+  if (!isValidDate(startYear, startMonth, day)) return null;
+
+  const startDate = toIsoDate(startYear, startMonth, day);
+  if (!endDay) {
+    return { startDate, endDate: startDate };
+  }
+
+  // Ranges over New Year ("Tue 30 Dec - Fri 02 Jan") end in the following year
+  const endYear = endMonth < startMonth ? startYear + 1 : startYear;
+  const lastDay = parseInt(endDayOfMonth, 10);
+  const endDate = isValidDate(endYear, endMonth, lastDay) ? toIsoDate(endYear, endMonth, lastDay) : startDate;
+
+  return { startDate, endDate: endDate < startDate ? startDate : endDate };
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day;
+}
+
+function toIsoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Converts a calendar deadline like "01/09/2025 10:00" to a UTC ISO timestamp.
+ * Deadlines are UK local time, so British Summer Time (last Sunday in March to
+ * last Sunday in October, switching at 01:00 UTC) is taken into account.
+ */
+export function parseDeadline(raw: string): string | null {
+  const match = raw.trim().match(deadlineRegex);
+  if (!match) return null;
+
+  const [day, month, year, hour, minute] = match.slice(1).map(part => parseInt(part, 10));
+  if (!isValidDate(year, month - 1, day) || hour > 23 || minute > 59) return null;
+
+  const localAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const bstStart = Date.UTC(year, 2, lastSundayOf(year, 2), 1);
+  const bstEnd = Date.UTC(year, 9, lastSundayOf(year, 9), 1);
+  // Compare in local time shifted by the BST offset; the ambiguous October hour resolves to BST
+  const isBst = localAsUtc - 3600000 >= bstStart && localAsUtc - 3600000 < bstEnd;
+
+  return new Date(isBst ? localAsUtc - 3600000 : localAsUtc).toISOString();
+}
+
+function lastSundayOf(year: number, month: number): number {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0));
+  return lastDay.getUTCDate() - lastDay.getUTCDay();
+}
+
+/**
+ * Where a tournament is in its entry window at `now`. Null when neither
+ * deadline could be parsed.
+ */
+export function getEntryStatus(
+  tournament: Pick<Tournament, 'deadlineCDAt' | 'deadlineWDAt'>,
+  now: Date = new Date()
+): EntryStatus | null {
+  const time = now.getTime();
+  if (tournament.deadlineWDAt && time >= Date.parse(tournament.deadlineWDAt)) return 'withdrawal_closed';
+  if (!tournament.deadlineCDAt) return null;
+
+  const closesAt = Date.parse(tournament.deadlineCDAt);
+  if (time >= closesAt) return 'entries_closed';
+  if (closesAt - time <= CLOSING_SOON_HOURS * 3600000) return 'closing_soon';
+  return 'open';
+}
+
+/**
+ * One tournament per event listed under the code. IDs are code, gender, type and
+ * category; when a code repeats the same event at another grade, the later ones
+ * get the grade appended so the first keeps its ID.
+ */
+function buildTournaments(normalizedCode: string, county: string, category: string, fields: ExtractedFields): Tournament[] {
+  const seen = new Set<string>();
+  return fields.events.map(event => {
+    const tournament = buildTournament(normalizedCode, county, category, fields, event);
+    if (seen.has(tournament.id)) {
+      tournament.id = `${tournament.id}-Grade_${event.grade}`;
+    }
+    seen.add(tournament.id);
+    return tournament;
+  });
+}
+
+function buildTournament(normalizedCode: string, county: string, category: string, fields: ExtractedFields, event: EventFields): Tournament {
+  // Codes carry the season year (SUS-25-0455); the exact year comes from the date itself
+  const codeYear = 2000 + parseInt(normalizedCode.substring(4, 6), 10);
+  const dates = parseDateRange(fields.date, codeYear);
+  const monthLabel = dates
+    ? `${MONTH_NAMES[parseInt(dates.startDate.substring(5, 7), 10) - 1]} ${dates.startDate.substring(0, 4)}`
+    : `Upcoming ${codeYear}`;
+
+  // Create unique ID combining code, gender, event type, and category
+  const uniqueId = `${normalizedCode}-${event.gender}-${event.eventType}-${category}`.replace(/\s+/g, '_');
+
+  const postcode = extractPostcode(fields.venue);
+  const defaulted = [...fields.defaulted, ...event.defaulted];
+  if (!postcode) defaulted.push('postcode');
+  if (category === UNCATEGORISED) defaulted.push('category');
+
+  return {
+    id: uniqueId,
+    title: fields.title || `${category} Event`,
+    gender: event.gender,
+    eventType: event.eventType,
+    grade: `Grade ${event.grade}`,
+    venue: fields.venue,
+    postcode: postcode || "BN1",
+    ltaCode: normalizedCode,
+    county: county,
+    date: fields.date,
+    month: monthLabel,
+    startDate: dates ? dates.startDate : null,
+    endDate: dates ? dates.endDate : null,
+    season: seasonOf(normalizedCode),
+    category: category,
+    ...describeCategory(category),
+    organiserEmail: fields.organiserEmail,
+    deadlineCD: fields.deadlineCD,
+    deadlineWD: fields.deadlineWD,
+    deadlineCDAt: parseDeadline(fields.deadlineCD),
+    deadlineWDAt: parseDeadline(fields.deadlineWD),
+    diagnostics: buildDiagnostics(defaulted)
+  };
+}
+
+/**
+ * Checks a field value from outside the regex parser (an AI extraction, a manual
+ * edit) and converts it to the format the parser itself produces, e.g. "4" to
+ * "Grade 4" or "male" to "Male". Returns null when the value is unusable.
+ */
+export function normalizeFieldValue(field: DiagnosedField, value: string): string | null {
+  const text = value.replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+
+  switch (field) {
+    case 'title':
+      return cleanTitle(text) || null;
+    case 'gender':
+    case 'eventType': {
+      const match = text.match(field === 'gender' ? genderRegex : eventTypeRegex);
+      return match ? titleCase(match[0]) : null;
+    }
+    case 'grade': {
+      const match = text.match(/\d/);
+      return match ? `Grade ${match[0]}` : null;
+    }
+    case 'date': {
+      const match = text.match(dateRegex);
+      return match ? normalizeDate(match[0]) : null;
+    }
+    case 'venue':
+      return text.substring(0, 80);
+    case 'postcode':
+      return extractPostcode(text);
+    case 'organiserEmail': {
+      const match = text.match(emailRegex);
+      return match ? match[0].replace(/\s+/g, '') : null;
+    }
+    case 'deadlineCD':
+    case 'deadlineWD': {
+      const match = text.match(/(\d{2}\/\d{2}\/\d{4})\s*(\d{2}:\d{2})/);
+      const deadline = match ? `${match[1]} ${match[2]}` : null;
+      return deadline && parseDeadline(deadline) ? deadline : null;
+    }
+    case 'category':
+      return describeCategory(text).ageGroup ? text : null;
+  }
+}
+
+/**
+ * Rebuilds a tournament with some fields replaced by normalized values, so the
+ * derived fields (ISO dates, month, deadline timestamps, age groups) and the
+ * diagnostics follow. Replaced fields no longer count as defaulted. The ID only
+ * changes when gender, event type or category do.
+ */
+export function applyFieldOverrides(tournament: Tournament, overrides: Partial<Record<DiagnosedField, string>>): Tournament {
+  const defaulted = (tournament.diagnostics?.defaulted || []).filter(field => !(field in overrides)) as DiagnosedField[];
+  const pick = (field: 'date' | 'venue' | 'organiserEmail' | 'deadlineCD' | 'deadlineWD') => overrides[field] ?? tournament[field];
+
+  const fields: ExtractedFields = {
+    title: overrides.title ?? (defaulted.includes('title') ? '' : tournament.title),
+    events: [],
+    date: pick('date'),
+    venue: pick('venue'),
+    organiserEmail: pick('organiserEmail'),
+    deadlineCD: pick('deadlineCD'),
+    deadlineWD: pick('deadlineWD'),
+    // Postcode and category are checked again by buildTournament
+    defaulted: defaulted.filter(field => field !== 'postcode' && field !== 'category'),
+  };
+  const event: EventFields = {
+    gender: overrides.gender ?? tournament.gender,
+    eventType: overrides.eventType ?? tournament.eventType,
+    grade: (overrides.grade ?? tournament.grade).replace(/^Grade\s*/i, ''),
+    defaulted: [],
+  };
+  const category = overrides.category ?? tournament.category;
+  const rebuilt = buildTournament(tournament.ltaCode, tournament.county, category, fields, event);
+
+  if (overrides.postcode) {
+    rebuilt.postcode = overrides.postcode;
+  } else if (!defaulted.includes('postcode') && !extractPostcode(fields.venue)) {
+    rebuilt.postcode = tournament.postcode;
+  }
+  const rebuiltDefaulted = [
+    ...fields.defaulted,
+    ...(rebuilt.diagnostics?.defaulted || []).filter(field => field === 'category'),
+    ...(defaulted.includes('postcode') && !overrides.postcode && !extractPostcode(fields.venue) ? ['postcode'] : []),
+  ] as DiagnosedField[];
+  rebuilt.diagnostics = { ...tournament.diagnostics, ...buildDiagnostics(rebuiltDefaulted) };
+
+  const sameKey = event.gender === tournament.gender && event.eventType === tournament.eventType && category === tournament.category;
+  return { ...rebuilt, id: sameKey ? tournament.id : rebuilt.id };
+}
+
+/**
+ * Scores a parsed tournament by the weighted share of fields that were actually found.
+ */
+function buildDiagnostics(defaulted: DiagnosedField[]): ParseDiagnostics {
+  const fields = Object.keys(FIELD_WEIGHTS) as DiagnosedField[];
+  const total = fields.reduce((sum, field) => sum + FIELD_WEIGHTS[field], 0);
+  const missing = defaulted.reduce((sum, field) => sum + FIELD_WEIGHTS[field], 0);
+
+  return {
+    confidence: Math.round(((total - missing) / total) * 100) / 100,
+    extracted: fields.filter(field => !defaulted.includes(field)),
+    defaulted: fields.filter(field => defaulted.includes(field)),
+  };
+}
+
+/**
+ * Summarises diagnostics across a parse run for the upload response.
+ */
+export function summarizeDiagnostics(tournaments: Tournament[]): ParseWarnings {
+  const defaultedFields: Record<string, number> = {};
+  const lowConfidenceIds: string[] = [];
+  let confidenceSum = 0;
+
+  for (const t of tournaments) {
+    if (!t.diagnostics) continue;
+    confidenceSum += t.diagnostics.confidence;
+    if (t.diagnostics.confidence < LOW_CONFIDENCE_THRESHOLD) {
+      lowConfidenceIds.push(t.id);
+    }
+    for (const field of t.diagnostics.defaulted) {
+      defaultedFields[field] = (defaultedFields[field] || 0) + 1;
+    }
+  }
+
+  return {
+    averageConfidence: tournaments.length > 0 ? Math.round((confidenceSum / tournaments.length) * 100) / 100 : 1,
+    lowConfidence: lowConfidenceIds.length,
+    lowConfidenceIds,
+    defaultedFields,
+  };
+}
+
+/**
+ * Normalizes a county selection to upper-case prefixes.
+ * Returns null when every county should be kept.
+ */
+export function normalizeCounties(counties: string[] | 'all' | undefined): string[] | null {
+  if (counties === 'all') return null;
+  const list = (counties && counties.length > 0 ? counties : DEFAULT_COUNTIES)
+    .map(c => c.trim().toUpperCase())
+    .filter(Boolean);
+  return list.length > 0 ? list : null;
 }
 
 function extractPostcode(text: string): string | null {
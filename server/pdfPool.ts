@@ -0,0 +1,156 @@
+import { Worker } from 'worker_threads';
+import { Tournament } from './db.js';
+import { CalendarEntry } from './parser.js';
+import { PdfError, PdfErrorCode } from './pdfService.js';
+
+/**
+ * Reads uploaded calendars in worker threads, so a large PDF never blocks the
+ * event loop that serves every other request. Each PDF gets a fresh worker with
+ * a capped heap, at most PDF_WORKERS run at once, and a worker that runs past
+ * the time limit (or whose job is cancelled) is terminated.
+ */
+
+// PDFs read at the same time; later ones wait for a free worker
+export const PDF_WORKERS = positiveInt(process.env.PDF_WORKERS, 1);
+// Longer documents are refused before any page is read
+export const PDF_MAX_PAGES = positiveInt(process.env.PDF_MAX_PAGES, 300);
+// Extraction and parsing of one PDF must finish within this
+export const PDF_TIMEOUT_SECONDS = positiveInt(process.env.PDF_TIMEOUT_SECONDS, 120);
+// Heap for each worker; a PDF that needs more fails instead of taking the server down
+export const PDF_WORKER_MEMORY_MB = positiveInt(process.env.PDF_WORKER_MEMORY_MB, 128);
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return parsed > 0 ? parsed : fallback;
+}
+
+export type PdfMode = 'layout' | 'text' | 'hybrid';
+
+// What the worker is started with
+export interface PdfWorkerData {
+  filePath: string;
+  mode: PdfMode;
+  counties?: string[] | 'all';
+  maxPages: number;
+}
+
+/**
+ * What comes back. Hybrid parsing stops at the calendar entries, since the AI
+ * requests for low-confidence ones are made from the main thread.
+ */
+export type CalendarParse =
+  | { mode: 'hybrid'; pageCount: number; lineCount: number; entries: CalendarEntry[] }
+  | { mode: 'layout'; pageCount: number; lineCount: number; tableLines: number; tournaments: Tournament[] }
+  | { mode: 'text'; pageCount: number; characters: number; tournaments: Tournament[] };
+
+export type PdfWorkerMessage =
+  | { type: 'page'; page: number; pageCount: number }
+  | { type: 'done'; result: CalendarParse }
+  | { type: 'error'; code: PdfErrorCode | null; message: string };
+
+export interface ParsePdfOptions {
+  mode: PdfMode;
+  // Left out for the parser's DEFAULT_COUNTIES
+  counties?: string[] | 'all';
+  // Called after each page is read; may throw to stop the worker
+  onPage?: (page: number, pageCount: number) => void;
+  // Aborting terminates the worker
+  signal?: AbortSignal;
+  maxPages?: number;
+  timeoutSeconds?: number;
+}
+
+let running = 0;
+const waiting: (() => void)[] = [];
+
+async function acquireWorkerSlot(): Promise<void> {
+  if (running < PDF_WORKERS) {
+    running++;
+    return;
+  }
+  // The slot is handed over by releaseWorkerSlot, so `running` stays the same
+  await new Promise<void>(resolve => waiting.push(resolve));
+}
+
+function releaseWorkerSlot(): void {
+  const next = waiting.shift();
+  if (next) {
+    next();
+  } else {
+    running--;
+  }
+}
+
+function startWorker(workerData: PdfWorkerData): Worker {
+  const resourceLimits = { maxOldGenerationSizeMb: PDF_WORKER_MEMORY_MB };
+  const url = new URL(import.meta.url.endsWith('.ts') ? './pdfWorker.ts' : './pdfWorker.js', import.meta.url);
+  if (!import.meta.url.endsWith('.ts')) {
+    return new Worker(url, { workerData, resourceLimits });
+  }
+  // Under tsx (dev and tests) workers don't inherit its loader, so register it first
+  const bootstrap = `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(url.href)}); })`;
+  return new Worker(bootstrap, { eval: true, workerData, resourceLimits });
+}
+
+/**
+ * Extracts and parses the calendar at `filePath` in a worker. Unreadable PDFs,
+ * and ones over the page, time or memory limits, reject with a PdfError.
+ */
+export async function parseCalendarPdf(filePath: string, options: ParsePdfOptions): Promise<CalendarParse> {
+  const { signal } = options;
+  const maxPages = options.maxPages ?? PDF_MAX_PAGES;
+  const timeoutSeconds = options.timeoutSeconds ?? PDF_TIMEOUT_SECONDS;
+
+  await acquireWorkerSlot();
+  try {
+    signal?.throwIfAborted();
+    const worker = startWorker({ filePath, mode: options.mode, counties: options.counties, maxPages });
+
+    return await new Promise<CalendarParse>((resolve, reject) => {
+      let settled = false;
+      const settle = (error: unknown, result?: CalendarParse) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+        void worker.terminate();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result!);
+        }
+      };
+
+      const timer = setTimeout(() => settle(new PdfError(
+        'timeout',
+        `Reading the PDF took longer than ${timeoutSeconds} seconds, so it was stopped`
+      )), timeoutSeconds * 1000);
+      const abort = () => settle(signal!.reason);
+      signal?.addEventListener('abort', abort);
+
+      worker.on('message', (message: PdfWorkerMessage) => {
+        if (message.type === 'page') {
+          try {
+            options.onPage?.(message.page, message.pageCount);
+          } catch (error) {
+            settle(error);
+          }
+        } else if (message.type === 'done') {
+          settle(null, message.result);
+        } else {
+          settle(message.code ? new PdfError(message.code, message.message) : new Error(message.message));
+        }
+      });
+      worker.on('error', (error: Error & { code?: string }) => {
+        if (error.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+          settle(new PdfError('too_large', `Reading the PDF needed more than ${PDF_WORKER_MEMORY_MB}MB of memory, so it was stopped`));
+        } else {
+          settle(error);
+        }
+      });
+      worker.on('exit', code => settle(new Error(`The PDF worker stopped unexpectedly (exit code ${code})`)));
+    });
+  } finally {
+    releaseWorkerSlot();
+  }
+}
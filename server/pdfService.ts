@@ -1,24 +1,225 @@
 import { createRequire } from 'module';
+import { CalendarColumn, LayoutCells, LayoutLine } from './parser.js';
 
 // Use createRequire to load pdfjs-dist (avoids ESM path issues on Windows)
 const require = createRequire(import.meta.url);
 const pdfjsLib = require('pdfjs-dist/legacy/build/pdf.js');
 
-export async function extractTextFromPdf(buffer: Buffer): Promise<string> {
-  const data = new Uint8Array(buffer);
-  const loadingTask = pdfjsLib.getDocument({ data });
-  const pdf = await loadingTask.promise;
+export interface PdfLayout {
+  pageCount: number;
+  lines: LayoutLine[];
+}
+
+export interface PdfText {
+  pageCount: number;
+  // Page texts, each followed by a newline
+  text: string;
+  // Offset in `text` where each page begins
+  pageStarts: number[];
+}
+
+export interface PdfOptions {
+  // Called after each page is read; may throw to stop the extraction
+  onPage?: (page: number, pageCount: number) => void;
+  // Longer documents are refused before any page is read
+  maxPages?: number;
+}
+
+export type PdfErrorCode = 'encrypted' | 'corrupt' | 'no_text' | 'too_many_pages' | 'timeout' | 'too_large';
 
+// A PDF that can't be read, with a message meant for whoever uploaded it
+export class PdfError extends Error {
+  constructor(public code: PdfErrorCode, message: string) {
+    super(message);
+  }
+}
+
+interface PositionedItem {
+  str: string;
+  x: number;
+  y: number;
+}
+
+interface ColumnBoundary {
+  column: CalendarColumn;
+  start: number;
+}
+
+// Header labels of the LTA calendar table, matched per text item
+const HEADER_LABELS: { column: CalendarColumn; regex: RegExp }[] = [
+  { column: 'code', regex: /\bcode\b/i },
+  { column: 'name', regex: /\bname\b/i },
+  { column: 'gender', regex: /\bgender\b/i },
+  { column: 'eventType', regex: /\bevent\b/i },
+  { column: 'grade', regex: /\bgrade\b/i },
+  { column: 'deadlines', regex: /\b(?:closing|withdrawal|deadline)/i },
+  { column: 'date', regex: /\bdates?\b/i },
+  { column: 'venue', regex: /\bvenue\b/i },
+  { column: 'organiser', regex: /\borgani[sz]er\b/i },
+];
+
+// Items whose baselines are this close (in PDF points) belong to the same line
+const LINE_TOLERANCE = 2.5;
+// Text may start slightly left of its column header
+const COLUMN_SLACK = 4;
+
+/**
+ * Opens the document, turning pdfjs's exceptions into PdfErrors, and calls
+ * `readPage` with the text items of each page in turn. Each page is released
+ * once read, and the document when done, so memory stays at about one page
+ * plus the file.
+ */
+async function readPdf(buffer: Buffer, options: PdfOptions, readPage: (items: any[], page: number) => void): Promise<number> {
+  const loadingTask = pdfjsLib.getDocument({ data: new Uint8Array(buffer), isEvalSupported: false, disableFontFace: true });
+  let pdf;
+  try {
+    pdf = await loadingTask.promise;
+  } catch (error: any) {
+    if (error?.name === 'PasswordException') {
+      throw new PdfError('encrypted', 'The PDF is password protected. Upload a copy without a password.');
+    }
+    throw new PdfError('corrupt', `The file isn't a readable PDF; it may be damaged or cut short (${error?.message ?? error})`);
+  }
+
+  try {
+    if (options.maxPages !== undefined && pdf.numPages > options.maxPages) {
+      throw new PdfError('too_many_pages', `The PDF has ${pdf.numPages} pages; at most ${options.maxPages} can be read`);
+    }
+
+    let textItems = 0;
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      let items: any[];
+      try {
+        items = (await page.getTextContent()).items;
+      } catch (error: any) {
+        throw new PdfError('corrupt', `Page ${i} of the PDF can't be read (${error?.message ?? error})`);
+      } finally {
+        page.cleanup();
+      }
+      textItems += items.filter(item => typeof item.str === 'string' && item.str.trim() !== '').length;
+      readPage(items, i);
+      options.onPage?.(i, pdf.numPages);
+    }
+
+    if (textItems === 0) {
+      throw new PdfError('no_text', 'The PDF has no text to read; it looks like a scan. Upload the calendar as exported from the LTA site.');
+    }
+    return pdf.numPages;
+  } finally {
+    await loadingTask.destroy();
+  }
+}
+
+export async function extractTextFromPdf(buffer: Buffer, options: PdfOptions = {}): Promise<PdfText> {
   let fullText = '';
+  const pageStarts: number[] = [];
 
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const textContent = await page.getTextContent();
-    const pageText = textContent.items
+  const pageCount = await readPdf(buffer, options, items => {
+    const pageText = items
       .map((item: any) => item.str)
       .join(' ');
+    pageStarts.push(fullText.length);
     fullText += pageText + '\n';
+  });
+
+  return { pageCount, text: fullText, pageStarts };
+}
+
+/**
+ * Positional extraction for the calendar tables.
+ * Groups pdfjs text items into lines by their y coordinate and splits each line
+ * into columns using the x positions of the table header ("Tournament Code",
+ * "Venue", ...). Pages without a header reuse the previous page's columns.
+ */
+export async function extractLayoutFromPdf(buffer: Buffer, options: PdfOptions = {}): Promise<PdfLayout> {
+  const lines: LayoutLine[] = [];
+  let columns: ColumnBoundary[] | null = null;
+
+  const pageCount = await readPdf(buffer, options, (textItems, i) => {
+    const items: PositionedItem[] = textItems
+      .filter((item: any) => typeof item.str === 'string' && item.str.trim() !== '')
+      .map((item: any) => ({ str: item.str, x: item.transform[4], y: item.transform[5] }));
+
+    for (const lineItems of groupIntoLines(items)) {
+      const headerColumns = detectHeaderColumns(lineItems);
+      if (headerColumns) {
+        columns = headerColumns;
+        continue;
+      }
+
+      lines.push({
+        page: i,
+        text: joinItems(lineItems),
+        cells: columns ? splitIntoCells(lineItems, columns) : null,
+      });
+    }
+  });
+
+  return { pageCount, lines };
+}
+
+function groupIntoLines(items: PositionedItem[]): PositionedItem[][] {
+  // PDF y grows upwards, so the top of the page comes first
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PositionedItem[][] = [];
+  let lineY = Number.NaN;
+
+  for (const item of sorted) {
+    const current = lines[lines.length - 1];
+    if (current && Math.abs(item.y - lineY) <= LINE_TOLERANCE) {
+      current.push(item);
+    } else {
+      lines.push([item]);
+      lineY = item.y;
+    }
   }
 
-  return fullText;
+  return lines.map(line => line.sort((a, b) => a.x - b.x));
+}
+
+function joinItems(items: PositionedItem[]): string {
+  return items.map(item => item.str.trim()).join(' ').replace(/\s+/g, ' ').trim();
+}
+
+function detectHeaderColumns(items: PositionedItem[]): ColumnBoundary[] | null {
+  const found = new Map<CalendarColumn, number>();
+
+  for (const item of items) {
+    const label = HEADER_LABELS.find(h => h.regex.test(item.str));
+    if (label && !found.has(label.column)) {
+      // "Tournament" usually sits in its own item just left of "Code"/"Name"
+      const previous = items[items.indexOf(item) - 1];
+      const start = previous && /^tournament$/i.test(previous.str.trim()) ? previous.x : item.x;
+      found.set(label.column, start);
+    }
+  }
+
+  // A real table header names at least the code, venue and date columns
+  if (!found.has('code') || !found.has('venue') || !found.has('date')) return null;
+
+  return Array.from(found, ([column, start]) => ({ column, start }))
+    .sort((a, b) => a.start - b.start);
+}
+
+function splitIntoCells(items: PositionedItem[], columns: ColumnBoundary[]): LayoutCells {
+  const buckets = new Map<CalendarColumn, PositionedItem[]>();
+
+  for (const item of items) {
+    let column = columns[0].column;
+    for (const boundary of columns) {
+      if (item.x + COLUMN_SLACK >= boundary.start) {
+        column = boundary.column;
+      }
+    }
+    const bucket = buckets.get(column) || [];
+    bucket.push(item);
+    buckets.set(column, bucket);
+  }
+
+  const cells: LayoutCells = {};
+  for (const [column, bucket] of buckets) {
+    cells[column] = joinItems(bucket);
+  }
+  return cells;
 }
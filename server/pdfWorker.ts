@@ -0,0 +1,32 @@
+import { parentPort, workerData } from 'worker_threads';
+import fs from 'fs';
+import { extractLayoutFromPdf, extractTextFromPdf, PdfError } from './pdfService.js';
+import { parseCalendarLines, parseCalendarEntries, parseTournamentsProgrammatically } from './parser.js';
+import { PdfWorkerData, PdfWorkerMessage, CalendarParse } from './pdfPool.js';
+
+// Worker thread entry started by pdfPool.ts: reads one PDF, parses it and posts the result
+
+const post = (message: PdfWorkerMessage) => parentPort!.postMessage(message);
+
+async function parse({ filePath, mode, counties, maxPages }: PdfWorkerData): Promise<CalendarParse> {
+  // Read here rather than passed in, so the main thread never holds the file
+  const buffer = fs.readFileSync(filePath);
+  const options = { maxPages, onPage: (page: number, pageCount: number) => post({ type: 'page', page, pageCount }) };
+
+  if (mode === 'text') {
+    const { text, pageStarts, pageCount } = await extractTextFromPdf(buffer, options);
+    return { mode, pageCount, characters: text.length, tournaments: parseTournamentsProgrammatically(text, { counties, pageStarts }) };
+  }
+
+  const { lines, pageCount } = await extractLayoutFromPdf(buffer, options);
+  if (mode === 'hybrid') {
+    return { mode, pageCount, lineCount: lines.length, entries: parseCalendarEntries(lines, { counties }) };
+  }
+  const tableLines = lines.filter(line => line.cells !== null).length;
+  return { mode, pageCount, lineCount: lines.length, tableLines, tournaments: parseCalendarLines(lines, { counties }) };
+}
+
+parse(workerData).then(
+  result => post({ type: 'done', result }),
+  (error: any) => post({ type: 'error', code: error instanceof PdfError ? error.code : null, message: error?.message ?? String(error) })
+);
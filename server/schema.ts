@@ -0,0 +1,290 @@
+/**
+ * A small schema language for the API contract. One definition gives the
+ * TypeScript type (Infer), runtime validation of requests and responses
+ * (validate) and the JSON Schema published in the OpenAPI document
+ * (toJsonSchema); clientGenerator.ts turns the same definitions into the
+ * frontend's types.
+ */
+
+export type SchemaDef =
+  | { kind: 'string'; enum?: readonly string[]; pattern?: RegExp; minLength?: number; maxLength?: number; format?: string; message?: string }
+  | { kind: 'number'; integer: boolean; minimum?: number; maximum?: number }
+  | { kind: 'boolean' }
+  | { kind: 'literal'; value: string | number | boolean }
+  | { kind: 'array'; items: Schema; minItems?: number }
+  | { kind: 'object'; properties: Record<string, Schema>; unknownKeys: 'reject' | 'strip'; minProperties?: number }
+  | { kind: 'record'; keys?: Schema; values: Schema; minProperties?: number }
+  | { kind: 'nullable'; inner: Schema }
+  | { kind: 'optional'; inner: Schema }
+  | { kind: 'union'; options: Schema[]; message?: string }
+  | { kind: 'ref'; name: string; target: Schema }
+  | { kind: 'file' }
+  | { kind: 'unknown' };
+
+export interface Schema<T = unknown> {
+  readonly def: SchemaDef;
+  readonly description?: string;
+  // Type-level only: the TypeScript type of values that pass validation
+  readonly _type: T;
+}
+
+// A property that may be left out; only meaningful inside an object
+export interface OptionalSchema<T = unknown> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<any>>;
+type OptionalKeys<P extends Shape> = { [K in keyof P]: P[K] extends OptionalSchema<any> ? K : never }[keyof P];
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+type ObjectType<P extends Shape> = Simplify<
+  { [K in Exclude<keyof P, OptionalKeys<P>>]: Infer<P[K]> } & { [K in OptionalKeys<P>]?: Exclude<Infer<P[K]>, undefined> }
+>;
+
+function schema<T>(def: SchemaDef): Schema<T> {
+  return { def } as Schema<T>;
+}
+
+type StringOptions = { pattern?: RegExp; minLength?: number; maxLength?: number; format?: string; message?: string };
+
+export const s = {
+  string: (options: StringOptions = {}) => schema<string>({ kind: 'string', ...options }),
+  enum: <const V extends readonly string[]>(values: V) => schema<V[number]>({ kind: 'string', enum: values }),
+  number: (options: { minimum?: number; maximum?: number } = {}) => schema<number>({ kind: 'number', integer: false, ...options }),
+  integer: (options: { minimum?: number; maximum?: number } = {}) => schema<number>({ kind: 'number', integer: true, ...options }),
+  boolean: () => schema<boolean>({ kind: 'boolean' }),
+  literal: <const V extends string | number | boolean>(value: V) => schema<V>({ kind: 'literal', value }),
+  array: <T>(items: Schema<T>, options: { minItems?: number } = {}) => schema<T[]>({ kind: 'array', items, ...options }),
+
+  // Unknown keys are an error, except with unknownKeys "strip" (query strings), where they are dropped
+  object: <P extends Shape>(properties: P, options: { unknownKeys?: 'reject' | 'strip'; minProperties?: number } = {}) =>
+    schema<ObjectType<P>>({ kind: 'object', properties, unknownKeys: options.unknownKeys ?? 'reject', minProperties: options.minProperties }),
+
+  // Free-form keys, or any of the `keys` enum
+  record: <V>(values: Schema<V>) => schema<Record<string, V>>({ kind: 'record', values }),
+  partialRecord: <K extends string, V>(keys: Schema<K>, values: Schema<V>, options: { minProperties?: number } = {}) =>
+    schema<Partial<Record<K, V>>>({ kind: 'record', keys, values, ...options }),
+
+  nullable: <T>(inner: Schema<T>) => schema<T | null>({ kind: 'nullable', inner }),
+  optional: <T>(inner: Schema<T>): OptionalSchema<T> => ({ def: { kind: 'optional', inner }, optional: true }) as OptionalSchema<T>,
+  // The first option that fits wins; `message` replaces the first option's issues when none does
+  union: <S extends Schema<any>[]>(options: [...S], message?: string) => schema<Infer<S[number]>>({ kind: 'union', options, message }),
+  // A named model, published once under components.schemas
+  ref: <T>(name: string, target: Schema<T>) => schema<T>({ kind: 'ref', name, target }),
+  // An uploaded file in a multipart form
+  file: () => schema<unknown>({ kind: 'file' }),
+  unknown: () => schema<unknown>({ kind: 'unknown' }),
+
+  describe: <S extends Schema<any>>(description: string, target: S): S => ({ ...target, description }),
+};
+
+export interface ValidationIssue {
+  // Dotted path to the value, e.g. "tournaments[2].id"; empty for the value itself
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * Checks `value` against `schema`, returning the value with unknown query keys
+ * dropped, or every problem found. With `coerce`, strings are read the way a
+ * query string or multipart form sends them: numbers and booleans as text,
+ * lists comma-separated and empty values as left out.
+ */
+export function validate<T>(target: Schema<T>, value: unknown, options: { coerce?: boolean } = {}): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const checked = check(target, value, '', issues, options.coerce ?? false);
+  return issues.length === 0 ? { ok: true, value: checked as T } : { ok: false, issues };
+}
+
+// "limit must be at most 500; body.title is required"
+export function describeIssues(issues: { path: string; message: string }[]): string {
+  return issues.map(issue => issue.path ? `${issue.path} ${issue.message}` : issue.message).join('; ');
+}
+
+const joinPath = (path: string, key: string) => path ? `${path}.${key}` : key;
+
+// The values of an enum schema, named or not
+export function enumValues(target: Schema): readonly string[] {
+  if (target.def.kind === 'ref') return enumValues(target.def.target);
+  return target.def.kind === 'string' && target.def.enum ? target.def.enum : [];
+}
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function check(target: Schema, value: unknown, path: string, issues: ValidationIssue[], coerce: boolean): unknown {
+  const { def } = target;
+  const issue = (message: string) => {
+    issues.push({ path, message });
+    return value;
+  };
+
+  if (def.kind === 'optional') {
+    if (value === undefined || (coerce && value === '')) return undefined;
+    return check(def.inner, value, path, issues, coerce);
+  }
+  if (value === undefined && def.kind !== 'unknown') {
+    return issue('is required');
+  }
+
+  switch (def.kind) {
+    case 'string': {
+      if (typeof value !== 'string') return issue('must be a string');
+      if (def.enum && !def.enum.includes(value)) return issue(`must be one of ${def.enum.join(', ')}`);
+      if (def.minLength !== undefined && value.length < def.minLength) {
+        return issue(def.minLength === 1 ? 'must not be empty' : `must be at least ${def.minLength} characters`);
+      }
+      if (def.maxLength !== undefined && value.length > def.maxLength) return issue(`must be at most ${def.maxLength} characters`);
+      if (def.pattern && !def.pattern.test(value)) return issue(def.message ?? `must match ${def.pattern.source}`);
+      return value;
+    }
+    case 'number': {
+      let number = value;
+      if (coerce && typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value)) number = Number(value);
+      if (typeof number !== 'number' || !Number.isFinite(number)) return issue(def.integer ? 'must be a whole number' : 'must be a number');
+      if (def.integer && !Number.isInteger(number)) return issue('must be a whole number');
+      if (def.minimum !== undefined && number < def.minimum) return issue(`must be at least ${def.minimum}`);
+      if (def.maximum !== undefined && number > def.maximum) return issue(`must be at most ${def.maximum}`);
+      return number;
+    }
+    case 'boolean': {
+      if (coerce && (value === 'true' || value === 'false')) return value === 'true';
+      return typeof value === 'boolean' ? value : issue('must be true or false');
+    }
+    case 'literal':
+      return value === def.value ? value : issue(`must be ${JSON.stringify(def.value)}`);
+    case 'array': {
+      const list = coerce && typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : value;
+      if (!Array.isArray(list)) return issue('must be a list');
+      if (def.minItems !== undefined && list.length < def.minItems) {
+        return issue(def.minItems === 1 ? 'must not be empty' : `must have at least ${def.minItems} items`);
+      }
+      return list.map((item, i) => check(def.items, item, `${path}[${i}]`, issues, coerce));
+    }
+    case 'object': {
+      if (!isPlainObject(value)) return issue('must be an object');
+      const result: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(def.properties)) {
+        const checked = check(property, value[key], joinPath(path, key), issues, coerce);
+        if (checked !== undefined) result[key] = checked;
+      }
+      if (def.unknownKeys === 'reject') {
+        for (const key of Object.keys(value)) {
+          if (!(key in def.properties)) issues.push({ path: joinPath(path, key), message: 'is not a known field' });
+        }
+      }
+      if (def.minProperties !== undefined && Object.keys(result).length < def.minProperties) {
+        issue(`needs at least ${def.minProperties} of ${Object.keys(def.properties).join(', ')}`);
+      }
+      return result;
+    }
+    case 'record': {
+      if (!isPlainObject(value)) return issue('must be an object');
+      const result: Record<string, unknown> = {};
+      const keys = def.keys && enumValues(def.keys);
+      for (const [key, item] of Object.entries(value)) {
+        if (keys && !keys.includes(key)) {
+          issues.push({ path: joinPath(path, key), message: `is not one of ${keys.join(', ')}` });
+          continue;
+        }
+        result[key] = check(def.values, item, joinPath(path, key), issues, coerce);
+      }
+      if (def.minProperties !== undefined && Object.keys(value).length < def.minProperties) {
+        issue(keys ? `needs at least ${def.minProperties} of ${keys.join(', ')}` : `needs at least ${def.minProperties} fields`);
+      }
+      return result;
+    }
+    case 'nullable':
+      return value === null ? null : check(def.inner, value, path, issues, coerce);
+    case 'union': {
+      let firstIssues: ValidationIssue[] | undefined;
+      for (const option of def.options) {
+        const optionIssues: ValidationIssue[] = [];
+        const checked = check(option, value, path, optionIssues, coerce);
+        if (optionIssues.length === 0) return checked;
+        firstIssues ??= optionIssues;
+      }
+      if (def.message) return issue(def.message);
+      issues.push(...firstIssues!);
+      return value;
+    }
+    case 'ref':
+      return check(def.target, value, path, issues, coerce);
+    case 'file':
+    case 'unknown':
+      return value;
+  }
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * The JSON Schema (2020-12, as used by OpenAPI 3.1) for `target`. Named models
+ * are added to `components` the first time they are met and referenced by $ref.
+ */
+export function toJsonSchema(target: Schema, components: Record<string, JsonSchema>): JsonSchema {
+  const json = jsonSchemaOf(target.def, components);
+  return target.description ? { ...json, description: target.description } : json;
+}
+
+function jsonSchemaOf(def: SchemaDef, components: Record<string, JsonSchema>): JsonSchema {
+  switch (def.kind) {
+    case 'string':
+      return {
+        type: 'string',
+        ...(def.enum && { enum: [...def.enum] }),
+        ...(def.pattern && { pattern: def.pattern.source }),
+        ...(def.minLength !== undefined && { minLength: def.minLength }),
+        ...(def.maxLength !== undefined && { maxLength: def.maxLength }),
+        ...(def.format && { format: def.format }),
+      };
+    case 'number':
+      return {
+        type: def.integer ? 'integer' : 'number',
+        ...(def.minimum !== undefined && { minimum: def.minimum }),
+        ...(def.maximum !== undefined && { maximum: def.maximum }),
+      };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'literal':
+      return { const: def.value };
+    case 'array':
+      return { type: 'array', items: toJsonSchema(def.items, components), ...(def.minItems !== undefined && { minItems: def.minItems }) };
+    case 'object': {
+      const required = Object.entries(def.properties).filter(([, property]) => property.def.kind !== 'optional').map(([key]) => key);
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(def.properties).map(([key, property]) => [key, toJsonSchema(property, components)])),
+        ...(required.length > 0 && { required }),
+        ...(def.unknownKeys === 'reject' && { additionalProperties: false }),
+        ...(def.minProperties !== undefined && { minProperties: def.minProperties }),
+      };
+    }
+    case 'record':
+      return {
+        type: 'object',
+        ...(def.keys && { propertyNames: toJsonSchema(def.keys, components) }),
+        additionalProperties: toJsonSchema(def.values, components),
+        ...(def.minProperties !== undefined && { minProperties: def.minProperties }),
+      };
+    case 'nullable':
+      return { anyOf: [toJsonSchema(def.inner, components), { type: 'null' }] };
+    case 'optional':
+      return toJsonSchema(def.inner, components);
+    case 'union':
+      return { anyOf: def.options.map(option => toJsonSchema(option, components)) };
+    case 'ref':
+      if (!(def.name in components)) {
+        // Placeholder first, so a model that refers to itself doesn't recurse forever
+        components[def.name] = {};
+        components[def.name] = toJsonSchema(def.target, components);
+      }
+      return { $ref: `#/components/schemas/${def.name}` };
+    case 'file':
+      return { type: 'string', format: 'binary' };
+    case 'unknown':
+      return {};
+  }
+}
@@ -0,0 +1,121 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import {
+  DataChange,
+  DataChangeAction,
+  ImportRecord,
+  InfographicMetadata,
+  getListedTournaments,
+  getInfographicById
+} from './db.js';
+import { getEntryStatus } from './parser.js';
+
+/**
+ * Live updates for open tabs. Every change to the stored tournaments or
+ * infographics is numbered and published to the event stream (GET /api/changes)
+ * with the rows as they are now. The latest changes are kept, so a tab that
+ * reconnects gets what it missed; one that was away too long, or across a
+ * restart, is told to fetch everything again.
+ */
+
+// Changes kept for tabs that reconnect
+const KEPT_CHANGES = 200;
+
+// Event ids carry this, so ids from before a restart are recognised as stale
+const EPOCH = crypto.randomBytes(4).toString('hex');
+
+// What changed, by id; the published change carries the rows
+export interface ChangeSet {
+  action: DataChangeAction;
+  tournaments?: { added?: string[]; updated?: string[]; deleted?: string[] };
+  infographics?: { added?: string[]; deleted?: string[] };
+  import?: ImportRecord;
+}
+
+// Who made a change: the signed-in name and the tab's X-Client-Id
+export interface ChangeOrigin {
+  by: string | null;
+  clientId: string | null;
+}
+
+const SERVER_ORIGIN: ChangeOrigin = { by: null, clientId: null };
+
+let sequence = 0;
+const recent: { sequence: number; change: DataChange }[] = [];
+const changes = new EventEmitter();
+changes.setMaxListeners(0);
+
+const eventId = (n: number) => `${EPOCH}-${n}`;
+
+/**
+ * Looks up the rows behind `change` and sends it to every subscriber. Rows
+ * that are gone again by now are left out. Returns null, without publishing,
+ * when nothing changed.
+ */
+export function publishChange(change: ChangeSet, origin: ChangeOrigin = SERVER_ORIGIN, now: Date = new Date()): DataChange | null {
+  const listed = (ids: string[] = []) => getListedTournaments(ids).map(t => ({ ...t, entryStatus: getEntryStatus(t, now) }));
+  const published: DataChange = {
+    id: eventId(sequence + 1),
+    action: change.action,
+    tournaments: {
+      added: listed(change.tournaments?.added),
+      updated: listed(change.tournaments?.updated),
+      deleted: change.tournaments?.deleted ?? [],
+    },
+    infographics: {
+      added: (change.infographics?.added ?? [])
+        .map(id => getInfographicById(id))
+        .filter((infographic): infographic is InfographicMetadata => infographic !== undefined),
+      deleted: change.infographics?.deleted ?? [],
+    },
+    import: change.import,
+    by: origin.by,
+    clientId: origin.clientId,
+    at: now.toISOString(),
+  };
+
+  const { tournaments, infographics } = published;
+  const counts = [tournaments.added, tournaments.updated, tournaments.deleted, infographics.added, infographics.deleted];
+  if (change.action !== 'replaced' && counts.every(list => list.length === 0)) {
+    return null;
+  }
+
+  sequence++;
+  recent.push({ sequence, change: published });
+  if (recent.length > KEPT_CHANGES) recent.shift();
+  changes.emit('change', published);
+  return published;
+}
+
+// Calls `listener` with every published change; returns the unsubscribe function
+export function subscribeToChanges(listener: (change: DataChange) => void): () => void {
+  changes.on('change', listener);
+  return () => {
+    changes.off('change', listener);
+  };
+}
+
+/**
+ * The changes published after the one with id `lastId`, for a tab that
+ * reconnects. When they can't all be replayed (the id is from before a restart,
+ * or older than the kept changes) a single "replaced" change stands in for them.
+ */
+export function changesSince(lastId: string, now: Date = new Date()): DataChange[] {
+  const [epoch, seen] = lastId.split('-');
+  const last = Number(seen);
+  const missed = recent.filter(entry => entry.sequence > last);
+  const complete = missed.length === 0 ? last === sequence : missed[0].sequence === last + 1;
+
+  if (epoch === EPOCH && Number.isInteger(last) && complete) {
+    return missed.map(entry => entry.change);
+  }
+  return [{
+    id: eventId(sequence),
+    action: 'replaced',
+    tournaments: { added: [], updated: [], deleted: [] },
+    infographics: { added: [], deleted: [] },
+    by: null,
+    clientId: null,
+    at: now.toISOString(),
+  }];
+}
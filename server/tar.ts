@@ -0,0 +1,197 @@
+import fs from 'fs';
+
+/**
+ * Minimal ustar reader and writer for backup archives. Only regular files with
+ * names up to 100 characters are supported, which is all a backup contains.
+ */
+
+const BLOCK = 512;
+
+export interface TarEntry {
+  name: string;
+  data: Buffer;
+}
+
+function writeString(header: Buffer, value: string, offset: number, length: number): void {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  writeString(header, value.toString(8).padStart(length - 1, '0') + '\0', offset, length);
+}
+
+function checksum(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum;
+}
+
+export function tarHeader(name: string, size: number, mtime: Date = new Date()): Buffer {
+  if (Buffer.byteLength(name) > 100) {
+    throw new Error(`Archive entry name is too long: ${name}`);
+  }
+
+  const header = Buffer.alloc(BLOCK);
+  writeString(header, name, 0, 100);
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+  header[156] = 0x30; // '0', a regular file
+  writeString(header, 'ustar\0', 257, 6);
+  writeString(header, '00', 263, 2);
+  writeString(header, checksum(header).toString(8).padStart(6, '0') + '\0 ', 148, 8);
+  return header;
+}
+
+// Zero bytes that round a file's data up to a whole block
+export function tarPadding(size: number): Buffer {
+  return Buffer.alloc((BLOCK - (size % BLOCK)) % BLOCK);
+}
+
+// Two empty blocks mark the end of an archive
+export const TAR_END = Buffer.alloc(BLOCK * 2);
+
+export function* tarEntry(name: string, data: Buffer, mtime?: Date): Generator<Buffer> {
+  yield tarHeader(name, data.length, mtime);
+  yield data;
+  yield tarPadding(data.length);
+}
+
+/**
+ * An entry for the file at `file`, streamed from disk so it is never held in
+ * memory. Throws if the file changes size while it is read, since the header
+ * has already promised the size.
+ */
+export async function* tarFileEntry(name: string, file: string, mtime?: Date): AsyncGenerator<Buffer> {
+  const { size } = fs.statSync(file);
+  yield tarHeader(name, size, mtime);
+  let read = 0;
+  for await (const chunk of fs.createReadStream(file)) {
+    read += chunk.length;
+    if (read > size) break;
+    yield chunk as Buffer;
+  }
+  if (read !== size) {
+    throw new Error(`Archive entry ${name} changed size while it was read`);
+  }
+  yield tarPadding(size);
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf8');
+}
+
+interface TarHeader {
+  name: string;
+  size: number;
+  // False for directories and other entry types, which are skipped
+  isFile: boolean;
+}
+
+function parseHeader(header: Buffer): TarHeader {
+  const storedChecksum = parseInt(readString(header, 148, 8).trim(), 8);
+  if (storedChecksum !== checksum(header)) {
+    throw new Error('Archive header checksum mismatch');
+  }
+
+  const prefix = readString(header, 345, 155);
+  const name = (prefix ? `${prefix}/` : '') + readString(header, 0, 100);
+  const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+  const type = String.fromCharCode(header[156]);
+  if (Number.isNaN(size)) {
+    throw new Error(`Archive entry ${name} has no valid size`);
+  }
+  return { name, size, isFile: type === '0' || type === '\0' };
+}
+
+// Throws on anything that isn't a well-formed archive
+export function readTar(archive: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+
+  while (offset + BLOCK <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK);
+    if (header.every(byte => byte === 0)) return entries;
+
+    const { name, size, isFile } = parseHeader(header);
+    const start = offset + BLOCK;
+    if (start + size > archive.length) {
+      throw new Error(`Archive entry ${name} is truncated`);
+    }
+
+    if (isFile) {
+      entries.push({ name, data: archive.subarray(start, start + size) });
+    }
+    offset = start + size + tarPadding(size).length;
+  }
+
+  throw new Error('Archive is truncated');
+}
+
+/**
+ * Reads an archive as it arrives and writes each file to the path `destination`
+ * returns for its name, or skips it for null, so no entry is ever held in
+ * memory. Returns the names written; throws on anything that isn't a
+ * well-formed archive.
+ */
+export async function extractTar(chunks: AsyncIterable<Buffer>, destination: (name: string) => string | null): Promise<string[]> {
+  const written: string[] = [];
+  // The file being written, and how much of it and its padding is still to come
+  let entry: { name: string; fd: number | null; remaining: number; padding: number } | null = null;
+  // Less than a header left over from the previous chunk
+  let pending = Buffer.alloc(0);
+  let ended = false;
+
+  try {
+    for await (const chunk of chunks) {
+      // Whatever follows the end marker is ignored
+      if (ended) continue;
+      const buffer = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+      let offset = 0;
+
+      while (offset < buffer.length) {
+        if (entry) {
+          const data = Math.min(entry.remaining, buffer.length - offset);
+          if (entry.fd !== null) fs.writeSync(entry.fd, buffer, offset, data);
+          entry.remaining -= data;
+          offset += data;
+          const padding = Math.min(entry.padding, buffer.length - offset);
+          entry.padding -= padding;
+          offset += padding;
+          if (entry.remaining > 0 || entry.padding > 0) break;
+          if (entry.fd !== null) fs.closeSync(entry.fd);
+          entry = null;
+          continue;
+        }
+
+        if (buffer.length - offset < BLOCK) break;
+        const header = buffer.subarray(offset, offset + BLOCK);
+        offset += BLOCK;
+        if (header.every(byte => byte === 0)) {
+          ended = true;
+          break;
+        }
+
+        const { name, size, isFile } = parseHeader(header);
+        const file = isFile ? destination(name) : null;
+        entry = { name, fd: file ? fs.openSync(file, 'w') : null, remaining: size, padding: tarPadding(size).length };
+        if (file) written.push(name);
+      }
+      pending = ended ? Buffer.alloc(0) : Buffer.from(buffer.subarray(offset));
+    }
+  } finally {
+    if (entry?.fd != null) fs.closeSync(entry.fd);
+  }
+
+  if (!ended) {
+    throw new Error(entry ? `Archive entry ${entry.name} is truncated` : 'Archive is truncated');
+  }
+  return written;
+}
@@ -0,0 +1,53 @@
+import { purgeTrash } from './db.js';
+import { deleteInfographicImage } from './infographicService.js';
+
+// How long deleted tournaments and infographics can be restored
+export const TRASH_RETENTION_DAYS = trashRetentionDays();
+
+const PURGE_INTERVAL_MS = 3600000;
+
+function trashRetentionDays(): number {
+  const days = parseFloat(process.env.TRASH_RETENTION_DAYS || '');
+  return days >= 0 ? days : 30;
+}
+
+export interface PurgeResult {
+  tournaments: number;
+  infographics: number;
+}
+
+/**
+ * Permanently deletes trash older than `retentionDays`, including infographic
+ * images. With 0 days everything in the trash goes.
+ */
+export function purgeExpiredTrash(retentionDays: number = TRASH_RETENTION_DAYS, now: Date = new Date()): PurgeResult {
+  const before = new Date(now.getTime() - retentionDays * 86400000).toISOString();
+  const purged = purgeTrash(before);
+  for (const infographic of purged.infographics) {
+    deleteInfographicImage(infographic.filename);
+  }
+  return { tournaments: purged.tournaments, infographics: purged.infographics.length };
+}
+
+/**
+ * Purges expired trash now and then hourly; returns the timer, which doesn't
+ * keep the process alive.
+ */
+export function startTrashPurgeSchedule(): NodeJS.Timeout {
+  const purge = () => {
+    try {
+      const purged = purgeExpiredTrash();
+      if (purged.tournaments > 0 || purged.infographics > 0) {
+        console.log(`Purged ${purged.tournaments} tournaments and ${purged.infographics} infographics from the trash`);
+      }
+    } catch (error) {
+      console.error('Trash purge failed:', error);
+    }
+  };
+
+  console.log(`Keeping deleted tournaments and infographics in the trash for ${TRASH_RETENTION_DAYS} days`);
+  purge();
+  const timer = setInterval(purge, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
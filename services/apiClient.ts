@@ -0,0 +1,986 @@
+// Generated from server/apiSchema.ts by `npm run generate:client`; don't edit by hand.
+// tests/apiContract.test.ts fails when it is out of date.
+
+// ============ MODELS ============
+
+// Entry window at request time, derived from the deadlines: CD closes entries, WD closes withdrawals
+export type EntryStatus = 'open' | 'closing_soon' | 'entries_closed' | 'withdrawal_closed';
+
+export type GenderGroup = 'Boys' | 'Girls' | 'Men' | 'Women' | 'Mixed';
+
+export type BallColour = 'red' | 'orange' | 'green';
+
+// Fields the diagnostics score, which are also the ones AI extraction and hand edits can set
+export type EditableField = 'title' | 'category' | 'gender' | 'eventType' | 'grade' | 'date' | 'venue' | 'postcode' | 'organiserEmail' | 'deadlineCD' | 'deadlineWD';
+
+// Viewers can read, editors can also change tournaments and infographics, admins can do everything
+export type Role = 'admin' | 'editor' | 'viewer';
+
+// Archived (ended) tournaments are left out unless included, or listed on their own with "only"
+export type ArchiveFilter = 'exclude' | 'include' | 'only';
+
+export type TournamentSort = 'date' | 'ltaCode' | 'title' | 'category' | 'gender' | 'eventType' | 'grade' | 'venue';
+
+export type ChangeType = 'added' | 'updated' | 'disappeared';
+
+// Which fields the parser found and which it had to fill with a placeholder
+export interface ParseDiagnostics {
+  // Weighted share of fields that were extracted, from 0 to 1
+  confidence: number;
+  extracted: string[];
+  defaulted: string[];
+  // Which engine produced each extracted field ("regex" or the AI provider's name); only set by the hybrid pipeline
+  engines?: Record<string, string>;
+}
+
+// Structured form of a category label like "12U Boys" or "45+ Women"
+export interface CategoryGroups {
+  // "8U".."18U", "Open" or "35+".."75+"; null when the section is unknown
+  ageGroup: string | null;
+  genderGroup: GenderGroup | null;
+  // Only for the red/orange/green ball age groups (8U-10U)
+  ballColour: BallColour | null;
+}
+
+// Character range within a source snippet
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+// Where a parsed tournament came from in the text extracted from the PDF
+export interface TournamentSource {
+  // 1-based PDF page the entry starts on; null when the text carried no page information
+  page: number | null;
+  // The entry's raw text, exactly as extracted
+  text: string;
+  // Offsets of `text` in the full extracted text the parser read
+  start: number;
+  end: number;
+  // Where each extracted field's value appears in `text`
+  fields: Record<string, SourceSpan>;
+}
+
+// A field edited by hand; `parsed` is what the latest import read, shown when reverting
+export interface FieldOverride {
+  value: string;
+  parsed: string;
+  editedAt: string;
+}
+
+export type FieldOverrides = Partial<Record<EditableField, FieldOverride>>;
+
+export interface Tournament {
+  id: string;
+  title: string;
+  gender: string;
+  eventType: string;
+  grade: string;
+  venue: string;
+  postcode: string;
+  ltaCode: string;
+  county: string;
+  date: string;
+  month: string;
+  // ISO dates (YYYY-MM-DD), null when the calendar gives no date
+  startDate: string | null;
+  endDate: string | null;
+  // LTA season from the code, e.g. "2025/26"; null when the code has no year
+  season: string | null;
+  category: string;
+  // "8U".."18U", "Open" or "35+".."75+"; null when the section is unknown
+  ageGroup: string | null;
+  genderGroup: GenderGroup | null;
+  // Only for the red/orange/green ball age groups (8U-10U)
+  ballColour: BallColour | null;
+  organiserEmail: string;
+  deadlineCD: string;
+  deadlineWD: string;
+  // UTC ISO timestamps of the UK-local deadlines, null for "N/A" or unreadable values
+  deadlineCDAt: string | null;
+  deadlineWDAt: string | null;
+  // Added when tournaments are served; null when no deadline is known
+  entryStatus?: EntryStatus | null;
+  // Null for rows stored before diagnostics were recorded
+  diagnostics: ParseDiagnostics | null;
+  // Import that created or last changed the stored row; not set on freshly parsed tournaments
+  importId?: number | null;
+  // Raw text the tournament was parsed from; left out of list responses
+  source?: TournamentSource | null;
+  // Hand-edited fields; the other fields hold the edited values, and re-imports keep them
+  overrides?: FieldOverrides | null;
+  // Set once the tournament has ended; archived tournaments are left out of lists unless asked for
+  archivedAt?: string | null;
+  // Set while the tournament is in the trash; deleteBatch is shared by everything one delete removed
+  deletedAt?: string | null;
+  deleteBatch?: string | null;
+  // When the row was stored and last written; not set on freshly parsed tournaments
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+// One entry in a tournament's history, written when an upload adds, changes or no longer lists it
+export interface TournamentChange {
+  id: number;
+  tournamentId: string;
+  ltaCode: string;
+  title: string;
+  changeType: ChangeType;
+  // Only set for updates
+  changes: FieldChange[];
+  importedAt: string;
+  importId: number | null;
+}
+
+// An uploaded PDF and what it did to the stored tournaments
+export interface ImportRecord {
+  id: number;
+  filename: string;
+  // SHA-256 of the uploaded file, used to reject identical re-uploads
+  sha256: string;
+  importedAt: string;
+  pageCount: number;
+  mode: string;
+  counties: 'all' | string[];
+  parsed: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  disappeared: number;
+  // Set once the import was rolled back
+  rolledBackAt: string | null;
+}
+
+export interface ParseWarnings {
+  averageConfidence: number;
+  lowConfidence: number;
+  lowConfidenceIds: string[];
+  // How many tournaments had each field defaulted
+  defaultedFields: Record<string, number>;
+}
+
+// What the hybrid pipeline's AI step did during an upload
+export interface AiExtractionSummary {
+  // Provider used, null when no provider is configured
+  provider: string | null;
+  // Entries sent to the provider and fields it filled in
+  aiEntries: number;
+  aiFields: number;
+  // Set when the provider failed; the regex results are kept
+  error?: string;
+}
+
+export interface InfographicFilters {
+  month?: string;
+  gender?: string;
+  grade?: string;
+  eventType?: string;
+  ageGroup?: string;
+}
+
+// A generated infographic image and what it showed
+export interface InfographicMetadata {
+  id: string;
+  filename: string;
+  prompt: string;
+  filters: InfographicFilters;
+  tournamentCount: number;
+  // Tournaments listed on the image, in order; empty for infographics from before links were kept
+  tournamentIds: string[];
+  createdAt: string;
+  // Set while the infographic is in the trash
+  deletedAt?: string | null;
+  deleteBatch?: string | null;
+}
+
+// What one delete moved to the trash; restoring `batch` undoes it
+export interface TrashBatch {
+  batch: string;
+  deletedAt: string;
+  tournaments: number;
+  infographics: number;
+}
+
+// Values present in the stored tournaments, for filter dropdowns. Everything but total, archived and seasons is limited to the requested scope
+export interface TournamentFacets {
+  // All stored tournaments, archived ones included
+  total: number;
+  archived: number;
+  // Newest first
+  seasons: string[];
+  needsReview: number;
+  // Ordered by their earliest event; undated labels last
+  months: string[];
+  genders: string[];
+  grades: string[];
+  eventTypes: string[];
+  counties: string[];
+  ageGroups: string[];
+  genderGroups: string[];
+}
+
+export interface User {
+  id: number;
+  username: string;
+  role: Role;
+  createdAt: string;
+}
+
+// Only the key's hash is stored; `prefix` is its start, to tell keys apart
+export interface ApiKey {
+  id: number;
+  name: string;
+  role: Role;
+  prefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+// Who made a request, and how they proved it
+export interface Principal {
+  name: string;
+  role: Role;
+  via: 'session' | 'apiKey' | 'adminToken';
+}
+
+export interface SnapshotInfo {
+  name: string;
+  size: number;
+  createdAt: string;
+}
+
+export interface RestoreResult {
+  backupCreatedAt: string;
+  // Schema version of the backup, before it was migrated to this build's
+  schemaVersion: number;
+  counts: {
+    tournaments: number;
+    imports: number;
+    infographics: number;
+  };
+  images: number;
+  // Snapshot of the data the restore replaced
+  safetySnapshot: string;
+}
+
+export type JobType = 'import' | 'infographic';
+
+// succeeded, failed and cancelled jobs are finished and never change again
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobStage = 'extracting' | 'parsing' | 'ai' | 'saving' | 'generating';
+
+// What a calendar upload did to the stored tournaments
+export interface ImportResult {
+  parsed: number;
+  counties: 'all' | string[];
+  import: ImportRecord;
+  added: number;
+  updated: number;
+  unchanged: number;
+  disappeared: number;
+  importedAt: string;
+  changes: TournamentChange[];
+  warnings: ParseWarnings;
+  // Only set in hybrid mode
+  ai?: AiExtractionSummary;
+  // Tournaments stored after the upload
+  total: number;
+}
+
+export interface InfographicResult {
+  infographic: InfographicMetadata;
+  imageUrl: string;
+}
+
+// A calendar upload or infographic being worked on in the background. Jobs run one at a time, oldest first; one interrupted by a restart runs again from the start
+export interface Job {
+  id: string;
+  type: JobType;
+  // What the job works on: the PDF's filename, or the infographic's tournaments
+  label: string;
+  status: JobStatus;
+  // What a running job is doing
+  stage: JobStage | null;
+  // How far the stage has got, e.g. page 12 of 80
+  progress: {
+    current: number;
+    total: number;
+  } | null;
+  // The stage and progress in words
+  message: string | null;
+  // Set once the job succeeded: an ImportResult for imports, an InfographicResult for infographics
+  result: ImportResult | InfographicResult | null;
+  // Why the job failed
+  error: string | null;
+  cancelRequested: boolean;
+  // Times the job was started
+  attempts: number;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+// "imported" is a calendar upload or its rollback; "replaced" means a backup was restored or the stream missed changes, so everything should be fetched again
+export type DataChangeAction = 'added' | 'updated' | 'deleted' | 'imported' | 'replaced';
+
+// A change to the stored tournaments or infographics, pushed to every open tab
+export interface DataChange {
+  // Event id; the browser sends the last one as Last-Event-ID when it reconnects, and gets what it missed
+  id: string;
+  action: DataChangeAction;
+  tournaments: {
+    // New or restored tournaments, as the list serves them
+    added: Tournament[];
+    updated: Tournament[];
+    // Ids of tournaments moved to the trash or removed by a rollback
+    deleted: string[];
+  };
+  infographics: {
+    added: InfographicMetadata[];
+    deleted: string[];
+  };
+  // The upload behind an "imported" change
+  import?: ImportRecord;
+  // Who made the change; null for the server's own, like archiving
+  by: string | null;
+  // X-Client-Id of the tab that made the change, so it can tell its own changes apart
+  clientId: string | null;
+  at: string;
+}
+
+// One problem with a request, e.g. { in: "query", path: "limit", message: "must be at most 500" }
+export interface RequestIssue {
+  in: 'params' | 'query' | 'body';
+  path: string;
+  message: string;
+}
+
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  // Set on 400s for requests that don't match the contract
+  issues?: RequestIssue[];
+  // The earlier import of the same file, when an upload is refused as a duplicate
+  import?: ImportRecord;
+  // The queued upload of the same file, when an upload is refused as a duplicate
+  job?: Job;
+}
+
+// ============ REQUESTS AND RESPONSES ============
+
+export interface GetApiInfoResponse {
+  name: string;
+  status: string;
+  tournamentCount: number;
+  endpoints: Record<string, string>;
+  auth: string;
+  openapi: string;
+  note: string;
+}
+
+export interface GetHealthResponse {
+  status: 'ok';
+  tournamentCount: number;
+}
+
+export interface ListTournamentsQuery {
+  // Season like "2025/26"; archived tournaments are included unless `archived` says otherwise
+  season?: string;
+  // Defaults to "exclude", or "include" when a season is given
+  archived?: ArchiveFilter;
+  // ISO bounds on the event dates
+  from?: string;
+  to?: string;
+  month?: string;
+  gender?: string;
+  grade?: string;
+  eventType?: string;
+  // Exact category label, e.g. "12U Boys"
+  category?: string;
+  // An age group like "14U", or Juniors, Adults, Seniors, Red Ball, Orange Ball or Green Ball
+  ageGroup?: string;
+  genderGroup?: string;
+  county?: string;
+  // Case-insensitive part of the venue, spaces ignored ("st ann" matches "St Anns")
+  venue?: string;
+  // Free text over title, venue and organiser email; every word must match the start of a word
+  q?: string;
+  // Entry statuses now, comma-separated; tournaments without deadlines never match
+  status?: EntryStatus[];
+  // Only low-confidence or defaulted tournaments
+  needsReview?: boolean;
+  sort?: TournamentSort;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+export interface ListTournamentsResponse {
+  success: true;
+  count: number;
+  total: number;
+  offset: number;
+  tournaments: Tournament[];
+}
+
+export interface GetTournamentFacetsQuery {
+  // Season like "2025/26"; archived tournaments are included unless `archived` says otherwise
+  season?: string;
+  // Defaults to "exclude", or "include" when a season is given
+  archived?: ArchiveFilter;
+}
+
+export interface GetTournamentFacetsResponse {
+  success: true;
+  facets: TournamentFacets;
+}
+
+export interface UploadCalendarForm {
+  pdf: Blob;
+  // Comma-separated LTA county prefixes ("SUS,SUR") or "all"; Sussex (SUS) when left out
+  counties?: 'all' | string[];
+  // "layout" rebuilds table cells from text positions, "text" uses keyword chunking, "hybrid" adds AI extraction for low-confidence entries (the default when an AI provider is configured)
+  mode?: 'layout' | 'text' | 'hybrid';
+}
+
+export interface UploadCalendarResponse {
+  success: true;
+  job: Job;
+}
+
+export interface ExtractTournamentsBody {
+  text: string;
+  // LTA county prefixes to keep; all counties when left out
+  counties?: 'all' | string[];
+}
+
+export interface ExtractTournamentsResponse {
+  success: true;
+  provider: string;
+  cached: boolean;
+  count: number;
+  tournaments: Tournament[];
+}
+
+export interface GetLatestChangesResponse {
+  success: true;
+  importedAt: string | null;
+  count: number;
+  changes: TournamentChange[];
+}
+
+export interface GetTournamentSourceResponse {
+  success: true;
+  tournament: Tournament;
+  source: TournamentSource | null;
+}
+
+export interface GetTournamentHistoryResponse {
+  success: true;
+  count: number;
+  history: TournamentChange[];
+}
+
+export type EditTournamentBody = Partial<Record<EditableField, string | null>>;
+
+export interface EditTournamentResponse {
+  success: true;
+  tournament: Tournament;
+}
+
+export interface DeleteTournamentResponse {
+  success: true;
+  message: string;
+  trash: TrashBatch;
+}
+
+export interface DeleteAllTournamentsResponse {
+  success: true;
+  message: string;
+  trash: TrashBatch;
+}
+
+export interface ListImportsResponse {
+  success: true;
+  count: number;
+  imports: ImportRecord[];
+}
+
+export interface GetImportResponse {
+  success: true;
+  import: ImportRecord;
+  count: number;
+  tournaments: Tournament[];
+  changes: TournamentChange[];
+}
+
+export interface RollbackImportResponse {
+  success: true;
+  removed: number;
+  restored: number;
+  import: ImportRecord;
+  // The batch the removed tournaments went to, for undoing from the trash
+  trash: TrashBatch;
+}
+
+export interface ListInfographicsResponse {
+  success: true;
+  count: number;
+  infographics: InfographicMetadata[];
+}
+
+export interface GetInfographicResponse {
+  success: true;
+  infographic: InfographicMetadata;
+  tournaments: Tournament[];
+}
+
+export interface CreateInfographicBody {
+  tournaments: Tournament[];
+  // The filters the tournaments were chosen with, shown on the image
+  filters?: InfographicFilters;
+  // How many tournaments matched, when only the first of them are sent; defaults to the number sent
+  tournamentCount?: number;
+}
+
+export interface CreateInfographicResponse {
+  success: true;
+  job: Job;
+}
+
+export interface DeleteInfographicResponse {
+  success: true;
+  message: string;
+  trash: TrashBatch;
+}
+
+export interface GetTrashResponse {
+  success: true;
+  // Days until deleted items are purged
+  retentionDays: number;
+  tournaments: Tournament[];
+  infographics: InfographicMetadata[];
+}
+
+export interface RestoreFromTrashBody {
+  batch?: string;
+  tournamentIds?: string[];
+  infographicIds?: string[];
+}
+
+export interface RestoreFromTrashResponse {
+  success: true;
+  restored: {
+    tournaments: number;
+    infographics: number;
+  };
+}
+
+export interface EmptyTrashResponse {
+  success: true;
+  purged: {
+    tournaments: number;
+    infographics: number;
+  };
+}
+
+export interface ListJobsQuery {
+  // Job statuses, comma-separated
+  status?: JobStatus[];
+  type?: JobType;
+  limit?: number;
+}
+
+export interface ListJobsResponse {
+  success: true;
+  jobs: Job[];
+}
+
+export interface GetJobResponse {
+  success: true;
+  job: Job;
+}
+
+export interface CancelJobResponse {
+  success: true;
+  job: Job;
+}
+
+export interface RestoreBackupForm {
+  backup: Blob;
+}
+
+export interface RestoreBackupResponse {
+  success: true;
+  backupCreatedAt: string;
+  // Schema version of the backup, before it was migrated to this build's
+  schemaVersion: number;
+  counts: {
+    tournaments: number;
+    imports: number;
+    infographics: number;
+  };
+  images: number;
+  // Snapshot of the data the restore replaced
+  safetySnapshot: string;
+}
+
+export interface ListSnapshotsResponse {
+  success: true;
+  snapshots: SnapshotInfo[];
+}
+
+export interface CreateSnapshotResponse {
+  success: true;
+  snapshot: SnapshotInfo;
+}
+
+export interface RestoreSnapshotResponse {
+  success: true;
+  backupCreatedAt: string;
+  // Schema version of the backup, before it was migrated to this build's
+  schemaVersion: number;
+  counts: {
+    tournaments: number;
+    imports: number;
+    infographics: number;
+  };
+  images: number;
+  // Snapshot of the data the restore replaced
+  safetySnapshot: string;
+}
+
+export interface LoginBody {
+  username: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  success: true;
+  token: string;
+  expiresAt: string;
+  user: User;
+}
+
+export interface LogoutResponse {
+  success: true;
+}
+
+export interface GetCurrentUserResponse {
+  success: true;
+  user: Principal | null;
+}
+
+export interface ListUsersResponse {
+  success: true;
+  users: User[];
+}
+
+export interface CreateUserBody {
+  username: string;
+  password: string;
+  role: Role;
+}
+
+export interface CreateUserResponse {
+  success: true;
+  user: User;
+}
+
+export interface UpdateUserBody {
+  role?: Role;
+  password?: string;
+}
+
+export interface UpdateUserResponse {
+  success: true;
+  user: User;
+}
+
+export interface DeleteUserResponse {
+  success: true;
+}
+
+export interface ListApiKeysResponse {
+  success: true;
+  apiKeys: ApiKey[];
+}
+
+export interface CreateApiKeyBody {
+  name: string;
+  role: Role;
+}
+
+export interface CreateApiKeyResponse {
+  success: true;
+  apiKey: ApiKey;
+  key: string;
+}
+
+export interface RevokeApiKeyResponse {
+  success: true;
+}
+
+// ============ CLIENT ============
+
+// Thrown for every failed request; `issues` says what was wrong with a rejected (400) one
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public issues: RequestIssue[] = []) {
+    super(message);
+  }
+}
+
+let baseUrl = '';
+let getToken: () => string | null = () => null;
+let extraHeaders: Record<string, string> = {};
+
+// Where the API is, where to find the token sent as Authorization: Bearer, and headers for every request
+export function configureClient(options: { baseUrl?: string; token?: () => string | null; headers?: Record<string, string> }): void {
+  if (options.baseUrl !== undefined) baseUrl = options.baseUrl;
+  if (options.token) getToken = options.token;
+  if (options.headers) extraHeaders = options.headers;
+}
+
+type Fields = object;
+
+// Lists go comma-separated, which is how the server reads query strings and forms
+const textValue = (value: unknown) => Array.isArray(value) ? value.join(',') : String(value);
+
+async function request<T>(method: string, path: string, init: { query?: Fields; body?: unknown; form?: Fields } = {}): Promise<T> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(init.query ?? {})) {
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+    search.set(key, textValue(value));
+  }
+
+  const headers: Record<string, string> = { ...extraHeaders };
+  const token = getToken();
+  if (token) headers.Authorization = 'Bearer ' + token;
+
+  let body: BodyInit | undefined;
+  if (init.form) {
+    const form = new FormData();
+    for (const [key, value] of Object.entries(init.form)) {
+      if (value === undefined) continue;
+      if (value instanceof Blob) form.append(key, value, value instanceof File ? value.name : key);
+      else form.append(key, textValue(value));
+    }
+    body = form;
+  } else if (init.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+    body = JSON.stringify(init.body);
+  }
+
+  const query = search.toString();
+  const response = await fetch(baseUrl + path + (query ? '?' + query : ''), { method, headers, body });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data || data.success === false) {
+    throw new ApiError(data?.error || method + ' ' + path + ' failed with status ' + response.status, response.status, data?.issues);
+  }
+  return data as T;
+}
+
+// ============ OPERATIONS ============
+
+// What the server is, with every endpoint
+export function getApiInfo(): Promise<GetApiInfoResponse> {
+  return request('GET', '/');
+}
+
+// Health check
+export function getHealth(): Promise<GetHealthResponse> {
+  return request('GET', '/health');
+}
+
+// List tournaments matching the filters, sorted and paged; `total` counts every match. Ended tournaments are archived and left out unless archived=include|only; a season lists archived ones too
+export function listTournaments(query: ListTournamentsQuery = {}): Promise<ListTournamentsResponse> {
+  return request('GET', '/api/tournaments', { query });
+}
+
+// Distinct months, genders, grades, event types, counties, age groups and sections for the same season/archived switches, plus all seasons and total, archived and needs-review counts
+export function getTournamentFacets(query: GetTournamentFacetsQuery = {}): Promise<GetTournamentFacetsResponse> {
+  return request('GET', '/api/tournaments/facets', { query });
+}
+
+// Queue a calendar PDF for parsing and return its job; new tournaments are added, changed ones updated and both recorded in the change history. 400 when the file is not a PDF, 413 when it is over UPLOAD_MAX_MB, 409 when the same file is still imported or queued
+export function uploadCalendar(form: UploadCalendarForm): Promise<UploadCalendarResponse> {
+  return request('POST', '/api/tournaments/upload', { form });
+}
+
+// AI extraction of calendar text, cached by text hash. Nothing is saved; the extracted tournaments are returned
+export function extractTournaments(body: ExtractTournamentsBody): Promise<ExtractTournamentsResponse> {
+  return request('POST', '/api/extract', { body });
+}
+
+// Changes written by the most recent upload that changed anything
+export function getLatestChanges(): Promise<GetLatestChangesResponse> {
+  return request('GET', '/api/tournaments/changes');
+}
+
+// Raw calendar text of a tournament (page, offsets, field positions); source is null for rows stored before sources were kept
+export function getTournamentSource(id: string): Promise<GetTournamentSourceResponse> {
+  return request('GET', '/api/tournaments/' + encodeURIComponent(id) + '/source');
+}
+
+// Change history of a tournament, newest first
+export function getTournamentHistory(id: string): Promise<GetTournamentHistoryResponse> {
+  return request('GET', '/api/tournaments/' + encodeURIComponent(id) + '/history');
+}
+
+// Edit fields by hand, JSON body { field: value }; null reverts a field to its parsed value. Edits survive re-imports
+export function editTournament(id: string, body: EditTournamentBody): Promise<EditTournamentResponse> {
+  return request('PATCH', '/api/tournaments/' + encodeURIComponent(id), { body });
+}
+
+// Move a tournament to the trash; returns the batch that restores it
+export function deleteTournament(id: string): Promise<DeleteTournamentResponse> {
+  return request('DELETE', '/api/tournaments/' + encodeURIComponent(id));
+}
+
+// Move all tournaments to the trash as one batch (a snapshot is taken first)
+export function deleteAllTournaments(): Promise<DeleteAllTournamentsResponse> {
+  return request('DELETE', '/api/tournaments');
+}
+
+// Uploaded PDFs with their counts, newest first
+export function listImports(): Promise<ListImportsResponse> {
+  return request('GET', '/api/imports');
+}
+
+// An import with the tournaments it created or last changed and its change history
+export function getImport(id: number): Promise<GetImportResponse> {
+  return request('GET', '/api/imports/' + encodeURIComponent(id));
+}
+
+// Undo the latest import: move what it added to the trash and restore the parsed values it changed; hand edits stay
+export function rollbackImport(id: number): Promise<RollbackImportResponse> {
+  return request('POST', '/api/imports/' + encodeURIComponent(id) + '/rollback');
+}
+
+// Generated infographics, newest first
+export function listInfographics(): Promise<ListInfographicsResponse> {
+  return request('GET', '/api/infographics');
+}
+
+// An infographic with the tournaments it listed that are still stored
+export function getInfographic(id: string): Promise<GetInfographicResponse> {
+  return request('GET', '/api/infographics/' + encodeURIComponent(id));
+}
+
+// Queue an infographic for the given tournaments and return its job
+export function createInfographic(body: CreateInfographicBody): Promise<CreateInfographicResponse> {
+  return request('POST', '/api/infographics', { body });
+}
+
+// Move an infographic to the trash; returns the batch that restores it
+export function deleteInfographic(id: string): Promise<DeleteInfographicResponse> {
+  return request('DELETE', '/api/infographics/' + encodeURIComponent(id));
+}
+
+// Deleted tournaments and infographics, most recent first, with the retention in days
+export function getTrash(): Promise<GetTrashResponse> {
+  return request('GET', '/api/trash');
+}
+
+// Restore from the trash: a whole delete by batch, or single items by id
+export function restoreFromTrash(body: RestoreFromTrashBody = {}): Promise<RestoreFromTrashResponse> {
+  return request('POST', '/api/trash/restore', { body });
+}
+
+// Empty the trash permanently, including infographic images
+export function emptyTrash(): Promise<EmptyTrashResponse> {
+  return request('DELETE', '/api/trash');
+}
+
+// Recent uploads and infographics queued in the background, newest first
+export function listJobs(query: ListJobsQuery = {}): Promise<ListJobsResponse> {
+  return request('GET', '/api/jobs', { query });
+}
+
+// A job's status, progress and, once it succeeded, result
+export function getJob(id: string): Promise<GetJobResponse> {
+  return request('GET', '/api/jobs/' + encodeURIComponent(id));
+}
+
+// Cancel a job. A queued job is cancelled at once, a running one at its next page or request; 409 when it is already finished
+export function cancelJob(id: string): Promise<CancelJobResponse> {
+  return request('POST', '/api/jobs/' + encodeURIComponent(id) + '/cancel');
+}
+
+// Restore a backup archive; the current data is snapshotted first
+export function restoreBackup(form: RestoreBackupForm): Promise<RestoreBackupResponse> {
+  return request('POST', '/api/admin/restore', { form });
+}
+
+// Local snapshots, newest first
+export function listSnapshots(): Promise<ListSnapshotsResponse> {
+  return request('GET', '/api/admin/snapshots');
+}
+
+// Take a snapshot now
+export function createSnapshot(): Promise<CreateSnapshotResponse> {
+  return request('POST', '/api/admin/snapshots');
+}
+
+// Restore a snapshot
+export function restoreSnapshot(name: string): Promise<RestoreSnapshotResponse> {
+  return request('POST', '/api/admin/snapshots/' + encodeURIComponent(name) + '/restore');
+}
+
+// Sign in; returns a session token to send as Authorization: Bearer <token>. 429 after repeated wrong passwords
+export function login(body: LoginBody): Promise<LoginResponse> {
+  return request('POST', '/api/auth/login', { body });
+}
+
+// End the current session
+export function logout(): Promise<LogoutResponse> {
+  return request('POST', '/api/auth/logout');
+}
+
+// The signed-in user or API key and its role; null when anonymous
+export function getCurrentUser(): Promise<GetCurrentUserResponse> {
+  return request('GET', '/api/auth/me');
+}
+
+// List users
+export function listUsers(): Promise<ListUsersResponse> {
+  return request('GET', '/api/admin/users');
+}
+
+// Create a user; 409 when the username is taken
+export function createUser(body: CreateUserBody): Promise<CreateUserResponse> {
+  return request('POST', '/api/admin/users', { body });
+}
+
+// Change a user's role or password; a new password signs them out everywhere
+export function updateUser(username: string, body: UpdateUserBody): Promise<UpdateUserResponse> {
+  return request('PATCH', '/api/admin/users/' + encodeURIComponent(username), { body });
+}
+
+// Delete a user and their sessions
+export function deleteUser(username: string): Promise<DeleteUserResponse> {
+  return request('DELETE', '/api/admin/users/' + encodeURIComponent(username));
+}
+
+// List API keys (without the keys themselves)
+export function listApiKeys(): Promise<ListApiKeysResponse> {
+  return request('GET', '/api/admin/api-keys');
+}
+
+// Create an API key for scripts; the key is only returned once
+export function createApiKey(body: CreateApiKeyBody): Promise<CreateApiKeyResponse> {
+  return request('POST', '/api/admin/api-keys', { body });
+}
+
+// Revoke an API key
+export function revokeApiKey(id: number): Promise<RevokeApiKeyResponse> {
+  return request('DELETE', '/api/admin/api-keys/' + encodeURIComponent(id));
+}
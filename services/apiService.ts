@@ -1,153 +1,93 @@
-import { Tournament } from '../types';
+import { configureClient, login, logout, getCurrentUser, Principal, Job, JobStatus, DataChange } from './apiClient';
+
+// The typed client generated from the server's contract; every request goes through it
+export * from './apiClient';
 
 // API base URL - use environment variable or fallback to localhost
 const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
-export interface ApiResponse<T> {
-  success: boolean;
-  error?: string;
-  tournaments?: Tournament[];
-  count?: number;
-  parsed?: number;
-  added?: number;
-  skipped?: number;
-  total?: number;
-}
-
-export async function fetchTournaments(): Promise<Tournament[]> {
-  const response = await fetch(`${API_BASE}/api/tournaments`);
-  const data: ApiResponse<Tournament[]> = await response.json();
-
-  if (!data.success) {
-    throw new Error(data.error || 'Failed to fetch tournaments');
-  }
-
-  return data.tournaments || [];
-}
-
-export async function uploadPdf(file: File): Promise<{
-  tournaments: Tournament[];
-  parsed: number;
-  added: number;
-  skipped: number;
-  total: number;
-}> {
-  const formData = new FormData();
-  formData.append('pdf', file);
-
-  const response = await fetch(`${API_BASE}/api/tournaments/upload`, {
-    method: 'POST',
-    body: formData,
-  });
-
-  const data: ApiResponse<Tournament[]> = await response.json();
+// Session token from the last sign-in, sent with every request
+const SESSION_STORAGE_KEY = 'lta-session';
 
-  if (!data.success) {
-    throw new Error(data.error || 'Failed to upload PDF');
-  }
+// Sent with every request, so the live updates can say which changes this tab made itself
+export const CLIENT_ID = crypto.randomUUID();
 
-  return {
-    tournaments: data.tournaments || [],
-    parsed: data.parsed || 0,
-    added: data.added || 0,
-    skipped: data.skipped || 0,
-    total: data.total || 0,
-  };
-}
-
-export async function deleteTournament(id: string): Promise<void> {
-  const response = await fetch(`${API_BASE}/api/tournaments/${encodeURIComponent(id)}`, {
-    method: 'DELETE',
-  });
-
-  const data = await response.json();
-
-  if (!data.success) {
-    throw new Error(data.error || 'Failed to delete tournament');
-  }
-}
+configureClient({
+  baseUrl: API_BASE,
+  token: () => localStorage.getItem(SESSION_STORAGE_KEY),
+  headers: { 'X-Client-Id': CLIENT_ID },
+});
 
-export async function deleteAllTournaments(): Promise<void> {
-  const response = await fetch(`${API_BASE}/api/tournaments`, {
-    method: 'DELETE',
-  });
-
-  const data = await response.json();
-
-  if (!data.success) {
-    throw new Error(data.error || 'Failed to delete tournaments');
-  }
+export function getInfographicImageUrl(filename: string): string {
+  return `${API_BASE}/api/infographics/image/${filename}`;
 }
 
-export async function checkHealth(): Promise<{ status: string; tournamentCount: number }> {
-  const response = await fetch(`${API_BASE}/health`);
-  return response.json();
-}
+// ============ AUTH API ============
 
-// ============ INFOGRAPHIC API ============
-
-export interface InfographicMetadata {
-  id: string;
-  filename: string;
-  prompt: string;
-  filters: {
-    month?: string;
-    gender?: string;
-    grade?: string;
-    eventType?: string;
-    ageGroup?: string;
-  };
-  tournamentCount: number;
-  createdAt: string;
+// Keeps the session token for later requests
+export async function signIn(username: string, password: string): Promise<Principal> {
+  const { token, user } = await login({ username, password });
+  localStorage.setItem(SESSION_STORAGE_KEY, token);
+  return { name: user.username, role: user.role, via: 'session' };
 }
 
-export async function fetchInfographics(): Promise<InfographicMetadata[]> {
-  const response = await fetch(`${API_BASE}/api/infographics`);
-  const data = await response.json();
-
-  if (!data.success) {
-    throw new Error(data.error || 'Failed to fetch infographics');
+export async function signOut(): Promise<void> {
+  try {
+    await logout();
+  } finally {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
   }
-
-  return data.infographics || [];
 }
 
-export async function generateInfographic(
-  tournaments: Tournament[],
-  filters: InfographicMetadata['filters']
-): Promise<{ infographic: InfographicMetadata; imageUrl: string }> {
-  const response = await fetch(`${API_BASE}/api/infographics`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ tournaments, filters }),
-  });
-
-  const data = await response.json();
+// Null when not signed in; an expired session is forgotten
+export async function fetchCurrentUser(): Promise<Principal | null> {
+  if (!localStorage.getItem(SESSION_STORAGE_KEY)) return null;
 
-  if (!data.success) {
-    throw new Error(data.error || 'Failed to generate infographic');
+  const { user } = await getCurrentUser();
+  if (!user) {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
   }
-
-  return {
-    infographic: data.infographic,
-    imageUrl: `${API_BASE}${data.imageUrl}`,
-  };
+  return user;
 }
 
-export async function deleteInfographic(id: string): Promise<void> {
-  const response = await fetch(`${API_BASE}/api/infographics/${encodeURIComponent(id)}`, {
-    method: 'DELETE',
+// ============ JOBS ============
+
+const FINISHED_JOB_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+/**
+ * Follows a job's server-sent events until it is finished, calling `onUpdate`
+ * with each change. The browser reconnects by itself if the stream drops, e.g.
+ * while the server restarts; the job carries on from the queue.
+ */
+export function followJob(id: string, onUpdate: (job: Job) => void): Promise<Job> {
+  return new Promise((resolve, reject) => {
+    const events = new EventSource(`${API_BASE}/api/jobs/${encodeURIComponent(id)}/events`);
+    events.addEventListener('job', event => {
+      const job: Job = JSON.parse((event as MessageEvent).data);
+      onUpdate(job);
+      if (FINISHED_JOB_STATUSES.includes(job.status)) {
+        events.close();
+        resolve(job);
+      }
+    });
+    // Only a refused connection (the job is gone) closes the stream for good
+    events.addEventListener('error', () => {
+      if (events.readyState === EventSource.CLOSED) {
+        reject(new Error(`Lost track of job ${id}`));
+      }
+    });
   });
-
-  const data = await response.json();
-
-  if (!data.success) {
-    throw new Error(data.error || 'Failed to delete infographic');
-  }
 }
 
-export function getInfographicImageUrl(filename: string): string {
-  return `${API_BASE}/api/infographics/image/${filename}`;
+// ============ LIVE CHANGES ============
+
+/**
+ * Calls `onChange` with every change to tournaments and infographics until the
+ * returned function is called. The browser reconnects by itself and the server
+ * replays what was missed, or sends a "replaced" change when it can't.
+ */
+export function followChanges(onChange: (change: DataChange) => void): () => void {
+  const events = new EventSource(`${API_BASE}/api/changes`);
+  events.addEventListener('change', event => onChange(JSON.parse((event as MessageEvent).data)));
+  return () => events.close();
 }
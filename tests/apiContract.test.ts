@@ -0,0 +1,123 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { validate, enumValues, Schema } from '../server/schema.js';
+import { routes, openApiDocument, EditableFieldSchema, TournamentSchema, TournamentFacetsSchema, TournamentChangeSchema } from '../server/apiSchema.js';
+import { generateClient, CLIENT_FILE } from '../server/clientGenerator.js';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { parseTournamentsProgrammatically, DEFAULT_COUNTIES } from '../server/parser.js';
+import { makePdf } from './helpers/makePdf.js';
+import { useScratchDataDir } from './helpers/dataDir.js';
+
+useScratchDataDir('contract');
+process.env.ADMIN_TOKEN = 'contract-test';
+process.env.UPLOAD_MAX_MB = '1';
+let db: typeof import('../server/db.js');
+let jobs: typeof import('../server/jobService.js');
+let server: Server;
+let baseUrl: string;
+before(async () => {
+  db = await import('../server/db.js');
+  jobs = await import('../server/jobService.js');
+  const { app } = await import('../server/index.js');
+  server = app.listen(0);
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+after(() => server.close());
+
+// Posts a calendar upload as the admin token
+function upload(fields: Record<string, string | Blob>): Promise<Response> {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    if (value instanceof Blob) form.append(name, value, 'calendar.pdf');
+    else form.append(name, value);
+  }
+  return fetch(`${baseUrl}/api/tournaments/upload`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${process.env.ADMIN_TOKEN}` },
+    body: form,
+  });
+}
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const issuesOf = (target: Schema, value: unknown, coerce = false) => {
+  const result = validate(target, value, { coerce });
+  return 'issues' in result ? result.issues : [];
+};
+
+test('the committed API client is generated from the current contract', () => {
+  const committed = fs.readFileSync(path.join(root, CLIENT_FILE), 'utf-8');
+  assert.equal(committed, generateClient(), 'services/apiClient.ts is stale; run npm run generate:client');
+});
+
+test('requests are checked against the contract, with an issue for each bad field', () => {
+  const query = validate(routes.listTournaments.query, { status: 'open,closing_soon', limit: '20', needsReview: 'true', utm: 'x' }, { coerce: true });
+  assert.deepEqual(query, { ok: true, value: { status: ['open', 'closing_soon'], limit: 20, needsReview: true } });
+
+  assert.deepEqual(issuesOf(routes.listTournaments.query, { status: 'open,later', limit: '0', sort: '' }, true), [
+    { path: 'status[1]', message: 'must be one of open, closing_soon, entries_closed, withdrawal_closed' },
+    { path: 'limit', message: 'must be at least 1' },
+  ]);
+
+  const fields = enumValues(EditableFieldSchema).join(', ');
+  assert.deepEqual(issuesOf(routes.editTournament.body, {}), [{ path: '', message: 'needs at least 1 of ' + fields }]);
+  assert.deepEqual(issuesOf(routes.editTournament.body, { venue: 3, organiser: 'x' }), [
+    { path: 'venue', message: 'must be a string' },
+    { path: 'organiser', message: 'is not one of ' + fields },
+  ]);
+});
+
+test('what the database hands out matches the models, and every route is in the OpenAPI document', () => {
+  db.upsertTournaments(parseTournamentsProgrammatically(
+    '12 & U EVENTS - BOYS SUS-25-0200 Hove Open Male Singles 3 Sat 13 Sep Hove LTC BN3 7DE CD: 05/09/2025 18:00 WD: 08/09/2025 18:00 hove@tennis.org',
+    { counties: ['SUS'] }
+  ), ['SUS']);
+  db.editTournament('SUS-25-0200-Male-Singles-12U_Boys', { venue: 'Preston Park' });
+
+  const { tournaments } = db.queryTournaments({ archived: 'include' });
+  assert.equal(tournaments.length, 1);
+  for (const tournament of tournaments) {
+    assert.deepEqual(issuesOf(TournamentSchema, JSON.parse(JSON.stringify(tournament))), []);
+  }
+  assert.deepEqual(issuesOf(TournamentFacetsSchema, db.getTournamentFacets()), []);
+  for (const change of db.getLatestChanges()) {
+    assert.deepEqual(issuesOf(TournamentChangeSchema, change), []);
+  }
+
+  const document = openApiDocument() as { paths: Record<string, Record<string, { operationId: string }>> };
+  const operationIds = Object.values(document.paths).flatMap(methods => Object.values(methods).map(op => op.operationId));
+  assert.deepEqual(operationIds.sort(), Object.keys(routes).sort());
+});
+
+test('an upload without counties imports the default counties, not the whole calendar', async () => {
+  const pdf = makePdf([[
+    { x: 20, y: 500, text: '12 & U EVENTS - BOYS SUS-25-0300 Lewes Open Male Singles 3 Sat 20 Sep Lewes LTC BN7 1AA CD: 12/09/2025 18:00 WD: 15/09/2025 18:00 lewes@tennis.org' },
+    { x: 20, y: 480, text: '12 & U EVENTS - BOYS SUR-25-0300 Guildford Open Male Singles 3 Sat 20 Sep Guildford LTC GU1 1AA CD: 12/09/2025 18:00 WD: 15/09/2025 18:00 guildford@tennis.org' },
+  ]]);
+  const response = await upload({ pdf: new Blob([pdf], { type: 'application/pdf' }), mode: 'text' });
+  assert.equal(response.status, 202);
+  const { job } = await response.json();
+
+  await jobs.runQueuedJobs();
+  const finished = db.getJobById(job.id)!;
+  assert.equal(finished.status, 'succeeded', finished.error ?? undefined);
+  const result = finished.result as import('../server/db.js').ImportResult;
+  assert.deepEqual(result.counties, DEFAULT_COUNTIES);
+  assert.equal(result.parsed, 1);
+});
+
+
+test('uploads that are not PDFs or are over the size limit get a JSON error', async () => {
+  // The content type isn't trusted either way; the file's first bytes decide
+  const csv = await upload({ pdf: new Blob(['Tournament Code,Tournament Name\n'], { type: 'text/csv' }) });
+  assert.equal(csv.status, 400);
+  assert.match((await csv.json()).error, /not a PDF/);
+
+  const oversize = await upload({ pdf: new Blob([Buffer.alloc(1024 * 1024 + 1)], { type: 'application/pdf' }) });
+  assert.equal(oversize.status, 413);
+  assert.deepEqual(await oversize.json(), { success: false, error: 'The pdf file is over the size limit' });
+});
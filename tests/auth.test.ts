@@ -0,0 +1,94 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { useScratchDataDir } from './helpers/dataDir.js';
+
+useScratchDataDir('auth');
+process.env.ADMIN_USERNAME = 'conrad';
+process.env.ADMIN_PASSWORD = 'first-admin-password';
+process.env.ADMIN_TOKEN = 'backup-script-token';
+
+let db: typeof import('../server/db.js');
+let auth: typeof import('../server/authService.js');
+before(async () => {
+  db = await import('../server/db.js');
+  auth = await import('../server/authService.js');
+});
+
+test('the first admin comes from the environment, and sessions last until logout or expiry', () => {
+  assert.equal(auth.ensureInitialAdmin(), 'conrad');
+  assert.equal(auth.ensureInitialAdmin(), null);
+
+  assert.equal(auth.login('conrad', 'wrong password'), null);
+  assert.equal(auth.login('nobody', 'first-admin-password'), null);
+
+  const now = new Date('2026-03-01T10:00:00Z');
+  const session = auth.login('Conrad', 'first-admin-password', '', now)!;
+  assert.equal(session.user.role, 'admin');
+  assert.equal('passwordHash' in session.user, false);
+  assert.deepEqual(auth.authenticate(session.token, now), { name: 'conrad', role: 'admin', via: 'session' });
+
+  const expired = new Date(now.getTime() + (auth.SESSION_TTL_DAYS + 1) * 86400000);
+  assert.equal(auth.authenticate(session.token, expired), null);
+
+  const next = auth.login('conrad', 'first-admin-password')!;
+  assert.ok(auth.logout(next.token));
+  assert.equal(auth.authenticate(next.token), null);
+});
+
+test('roles rank viewer below editor below admin, and ADMIN_TOKEN still signs in as admin', () => {
+  db.createUser('coach', auth.hashPassword('coach-password'), 'viewer');
+  const viewer = auth.authenticate(auth.login('coach', 'coach-password')!.token);
+  assert.ok(auth.hasRole(viewer, 'viewer'));
+  assert.ok(!auth.hasRole(viewer, 'editor'));
+  assert.ok(!auth.hasRole(null, 'viewer'));
+
+  const admin = auth.authenticate('backup-script-token');
+  assert.equal(admin?.via, 'adminToken');
+  assert.ok(auth.hasRole(admin, 'editor'));
+
+  // A new password signs the user out everywhere
+  const session = auth.login('coach', 'coach-password')!;
+  db.updateUser('coach', { role: 'editor', passwordHash: auth.hashPassword('new-coach-password') });
+  assert.equal(auth.authenticate(session.token), null);
+  assert.equal(auth.login('coach', 'new-coach-password')!.user.role, 'editor');
+});
+
+test('API keys carry their own role until revoked, and only their hash is stored', () => {
+  const { apiKey, key } = auth.issueApiKey('nightly upload', 'editor');
+  assert.ok(key.startsWith(apiKey.prefix));
+  assert.equal(apiKey.lastUsedAt, null);
+
+  assert.deepEqual(auth.authenticate(key), { name: 'nightly upload', role: 'editor', via: 'apiKey' });
+  assert.ok(db.getApiKeys()[0].lastUsedAt);
+  assert.ok(!JSON.stringify(db.default.prepare('SELECT * FROM api_keys').all()).includes(key));
+
+  assert.ok(db.revokeApiKey(apiKey.id));
+  assert.equal(auth.authenticate(key), null);
+  assert.equal(db.revokeApiKey(apiKey.id), false);
+});
+
+test('repeated wrong passwords lock the username for a while, from that client only', () => {
+  db.createUser('target', auth.hashPassword('target-password'), 'editor');
+  const now = new Date('2026-03-01T10:00:00Z');
+  for (let i = 0; i < 5; i++) {
+    assert.equal(auth.login('target', 'guess', '203.0.113.9', now), null);
+  }
+  assert.throws(() => auth.login('TARGET', 'target-password', '203.0.113.9', now), auth.LoginThrottledError);
+  // The user still signs in from their own address
+  assert.ok(auth.login('target', 'target-password', '198.51.100.4', now));
+
+  const later = new Date(now.getTime() + 16 * 60000);
+  assert.ok(auth.login('target', 'target-password', '203.0.113.9', later));
+});
+
+test('wrong passwords spread over many addresses lock the username everywhere', () => {
+  db.createUser('spread', auth.hashPassword('spread-password'), 'editor');
+  const now = new Date('2026-03-02T10:00:00Z');
+  for (let i = 0; i < 20; i++) {
+    assert.equal(auth.login('spread', 'guess', `198.18.0.${i}`, now), null);
+  }
+  assert.throws(() => auth.login('spread', 'spread-password', '198.51.100.4', now), auth.LoginThrottledError);
+
+  const later = new Date(now.getTime() + 16 * 60000);
+  assert.ok(auth.login('spread', 'spread-password', '198.51.100.4', later));
+});
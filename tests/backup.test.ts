@@ -0,0 +1,121 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { parseTournamentsProgrammatically } from '../server/parser.js';
+import { readTar, extractTar, tarEntry, TAR_END } from '../server/tar.js';
+import { openDatabase } from '../server/migrations.js';
+import { useScratchDataDir } from './helpers/dataDir.js';
+
+const dataDir = useScratchDataDir('backup');
+process.env.BACKUP_RETENTION = '2';
+const imagesDir = path.join(dataDir, 'infographics');
+const archiveFile = path.join(dataDir, 'backup.tar.gz');
+
+let db: typeof import('../server/db.js');
+let backup: typeof import('../server/backupService.js');
+before(async () => {
+  db = await import('../server/db.js');
+  backup = await import('../server/backupService.js');
+
+  db.createImport({ filename: 'calendar.pdf', sha256: 'a', pageCount: 1, mode: 'text', counties: ['SUS'] }, parseTournamentsProgrammatically(
+    '12 & U EVENTS - BOYS SUS-25-0200 Hove Open Male Singles 3 Sat 13 Sep Hove LTC BN3 7DE CD: 05/09/2025 18:00 WD: 08/09/2025 18:00 hove@tennis.org',
+    { counties: ['SUS'] }
+  ));
+  db.saveInfographics([{
+    id: 'infographic_1', filename: 'infographic_1.png', prompt: 'Flyer', filters: {}, tournamentCount: 1,
+    tournamentIds: ['SUS-25-0200-Male-Singles-12U_Boys'], createdAt: '2025-09-01T10:00:00.000Z',
+  }]);
+  fs.writeFileSync(path.join(imagesDir, 'infographic_1.png'), 'png');
+});
+
+test('a backup restores tournaments, infographics and images after everything was deleted', async () => {
+  const manifest = await backup.writeBackup(archiveFile);
+  assert.deepEqual(manifest.counts, { tournaments: 1, imports: 1, infographics: 1 });
+  assert.deepEqual(manifest.images, ['infographic_1.png']);
+
+  db.createUser('conrad', 'scrypt$00$00', 'admin');
+  db.deleteAllTournaments();
+  db.deleteInfographicRecord('infographic_1');
+  fs.rmSync(path.join(imagesDir, 'infographic_1.png'));
+  fs.writeFileSync(path.join(imagesDir, 'stray.png'), 'png');
+
+  const result = await backup.restoreBackup(archiveFile);
+  assert.equal(result.schemaVersion, manifest.schemaVersion);
+  assert.ok(backup.getSnapshotPath(result.safetySnapshot));
+
+  assert.equal(db.getTournamentCount(), 1);
+  assert.equal(db.getTournamentById('SUS-25-0200-Male-Singles-12U_Boys')!.importId, db.getImports()[0].id);
+  assert.equal(db.queryTournaments({ search: 'hove' }).total, 1);
+  assert.deepEqual(db.getInfographicById('infographic_1')!.tournamentIds, ['SUS-25-0200-Male-Singles-12U_Boys']);
+  assert.deepEqual(fs.readdirSync(imagesDir), ['infographic_1.png']);
+  // The staged images were renamed into place, leaving nothing beside the folder
+  assert.deepEqual(fs.readdirSync(dataDir).filter(name => name.startsWith('infographics.')), []);
+  // Accounts made since the backup are kept
+  assert.deepEqual(db.getUsers().map(u => u.username), ['conrad']);
+});
+
+test('archives that are unreadable, incomplete or from a newer schema are rejected', async () => {
+  const writeArchive = (name: string, data: Buffer) => {
+    const file = path.join(dataDir, name);
+    fs.writeFileSync(file, data);
+    return file;
+  };
+  await assert.rejects(backup.restoreBackup(writeArchive('text.tar.gz', Buffer.from('not a backup'))), backup.BackupError);
+
+  const entries = readTar(zlib.gunzipSync(fs.readFileSync(archiveFile)));
+  const repack = (changed: { name: string; data: Buffer }[]) => writeArchive('repacked.tar.gz',
+    zlib.gzipSync(Buffer.concat([...changed.flatMap(e => [...tarEntry(e.name, e.data)]), TAR_END])));
+
+  const archive = zlib.gunzipSync(fs.readFileSync(archiveFile));
+  const truncated = writeArchive('truncated.tar.gz', zlib.gzipSync(archive.subarray(0, archive.length - 2048)));
+  await assert.rejects(backup.restoreBackup(truncated), /truncated/);
+
+  const withoutImage = entries.filter(e => !e.name.startsWith('infographics/'));
+  await assert.rejects(backup.restoreBackup(repack(withoutImage)), /missing 1 infographic images/);
+
+  // Bump the archived database and its manifest past this build's schema version
+  const dbFile = path.join(dataDir, 'future.db');
+  fs.writeFileSync(dbFile, entries.find(e => e.name === 'tournaments.db')!.data);
+  const future = openDatabase(dbFile);
+  future.prepare("INSERT INTO schema_version (version, name) VALUES (999, 'from the future')").run();
+  future.close();
+  const manifest = JSON.parse(entries.find(e => e.name === 'manifest.json')!.data.toString());
+  const newer = entries.map(e =>
+    e.name === 'tournaments.db' ? { ...e, data: fs.readFileSync(dbFile) }
+      : e.name === 'manifest.json' ? { ...e, data: Buffer.from(JSON.stringify({ ...manifest, schemaVersion: 999 })) }
+      : e
+  );
+  await assert.rejects(backup.restoreBackup(repack(newer)), /newer than this build/);
+
+  // Nothing was replaced
+  assert.equal(db.getTournamentCount(), 1);
+  assert.deepEqual(fs.readdirSync(imagesDir), ['infographic_1.png']);
+});
+
+test('archives are extracted as they stream in, whatever the chunk sizes', async () => {
+  const outDir = fs.mkdtempSync(path.join(dataDir, 'extract-'));
+  const data = Buffer.alloc(1500, 'x');
+  const archive = Buffer.concat([...tarEntry('a.txt', data), ...tarEntry('skipped.txt', Buffer.from('no')), ...tarEntry('b.txt', Buffer.from('b')), TAR_END]);
+  async function* chunks(size: number) {
+    for (let i = 0; i < archive.length; i += size) yield archive.subarray(i, i + size);
+  }
+
+  for (const size of [1, 100, 700, archive.length]) {
+    const names = await extractTar(chunks(size), name => name === 'skipped.txt' ? null : path.join(outDir, name));
+    assert.deepEqual(names, ['a.txt', 'b.txt'], `chunks of ${size}`);
+    assert.deepEqual(fs.readFileSync(path.join(outDir, 'a.txt')), data);
+    assert.equal(fs.readFileSync(path.join(outDir, 'b.txt'), 'utf8'), 'b');
+  }
+});
+
+test('snapshots are pruned to the retention count', async () => {
+  for (let i = 0; i < 3; i++) {
+    await backup.createSnapshot('manual');
+  }
+  const snapshots = backup.listSnapshots();
+  assert.equal(snapshots.length, 2);
+  assert.ok(snapshots[0].name > snapshots[1].name);
+  assert.equal(backup.getSnapshotPath('../tournaments.db'), null);
+});
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDeadline, getEntryStatus } from '../server/parser.js';
+
+test('deadlines in winter are GMT', () => {
+  assert.equal(parseDeadline('10/01/2026 10:00'), '2026-01-10T10:00:00.000Z');
+});
+
+test('deadlines in summer are BST', () => {
+  assert.equal(parseDeadline('01/09/2025 10:00'), '2025-09-01T09:00:00.000Z');
+});
+
+test('deadlines around the clock changes', () => {
+  // BST starts 01:00 UTC on 30 March 2025 and ends 01:00 UTC on 26 October 2025
+  assert.equal(parseDeadline('30/03/2025 00:30'), '2025-03-30T00:30:00.000Z');
+  assert.equal(parseDeadline('30/03/2025 02:30'), '2025-03-30T01:30:00.000Z');
+  assert.equal(parseDeadline('26/10/2025 00:30'), '2025-10-25T23:30:00.000Z');
+  assert.equal(parseDeadline('26/10/2025 02:00'), '2025-10-26T02:00:00.000Z');
+});
+
+test('unreadable deadlines are null', () => {
+  assert.equal(parseDeadline('N/A'), null);
+  assert.equal(parseDeadline('31/02/2025 10:00'), null);
+  assert.equal(parseDeadline('01/09/2025 25:00'), null);
+});
+
+test('entry status follows the closing and withdrawal deadlines', () => {
+  const tournament = {
+    deadlineCDAt: parseDeadline('05/09/2025 18:00'),
+    deadlineWDAt: parseDeadline('08/09/2025 18:00'),
+  };
+
+  assert.equal(getEntryStatus(tournament, new Date('2025-08-20T12:00:00Z')), 'open');
+  assert.equal(getEntryStatus(tournament, new Date('2025-09-03T12:00:00Z')), 'closing_soon');
+  assert.equal(getEntryStatus(tournament, new Date('2025-09-05T17:00:00Z')), 'entries_closed');
+  assert.equal(getEntryStatus(tournament, new Date('2025-09-08T17:00:00Z')), 'withdrawal_closed');
+});
+
+test('entry status is null without deadlines', () => {
+  assert.equal(getEntryStatus({ deadlineCDAt: null, deadlineWDAt: null }, new Date()), null);
+});
@@ -0,0 +1,16 @@
+import { after } from 'node:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Points DATA_DIR at a fresh temporary directory, removed after the file's
+ * tests, and returns it. db.ts opens its database on import, so call this at
+ * the top of a test file and import the server modules afterwards, in before().
+ */
+export function useScratchDataDir(prefix: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), `lta-${prefix}-`));
+  process.env.DATA_DIR = dir;
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
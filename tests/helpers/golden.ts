@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import * as serverParser from '../../server/parser.js';
+import * as browserParser from '../../services/parserService.js';
+import { extractLayoutFromPdf } from '../../server/pdfService.js';
+import { makePdf, PdfText } from './makePdf.js';
+import { Tournament } from '../../types.js';
+
+/**
+ * Golden-file cases for the calendar parsers.
+ *
+ * Each case in tests/fixtures/calendars is an input plus `<name>.expected.json`:
+ * - `<name>.txt`: extracted calendar text, fed to the keyword parser
+ * - `<name>.pdf.json`: a synthetic PDF layout, rendered with makePdf and run
+ *   through the positional extraction and row parser
+ */
+
+export const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'calendars');
+
+export type ParserVariant = 'server' | 'browser';
+export const PARSER_VARIANTS: ParserVariant[] = ['server', 'browser'];
+
+export interface GoldenCase {
+  name: string;
+  kind: 'text' | 'pdf';
+  inputPath: string;
+  expectedPath: string;
+}
+
+export interface GoldenExpectation {
+  options: serverParser.ParseOptions;
+  tournaments: Tournament[];
+}
+
+interface PdfFixture {
+  // x position of each table column
+  columns: Record<serverParser.CalendarColumn, number>;
+  pages: PdfFixtureLine[][];
+}
+
+type PdfFixtureLine =
+  | { y: number; header: true }
+  | { y: number; cells: serverParser.LayoutCells }
+  | { y: number; x: number; text: string; size?: number };
+
+const HEADER_TEXT: Record<serverParser.CalendarColumn, string> = {
+  code: 'Tournament Code',
+  name: 'Tournament Name',
+  gender: 'Gender',
+  eventType: 'Event Type',
+  grade: 'Grade',
+  date: 'Date',
+  venue: 'Venue',
+  deadlines: 'Closing & Withdrawal Deadline',
+  organiser: 'Tournament Organiser',
+};
+
+export function listGoldenCases(): GoldenCase[] {
+  return fs.readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.txt') || file.endsWith('.pdf.json'))
+    .sort()
+    .map(file => {
+      const kind = file.endsWith('.txt') ? 'text' as const : 'pdf' as const;
+      const name = file.replace(/\.txt$|\.pdf\.json$/, '');
+      return {
+        name,
+        kind,
+        inputPath: path.join(FIXTURES_DIR, file),
+        expectedPath: path.join(FIXTURES_DIR, `${name}.expected.json`),
+      };
+    });
+}
+
+export function readExpectation(goldenCase: GoldenCase): GoldenExpectation | null {
+  if (!fs.existsSync(goldenCase.expectedPath)) return null;
+  return JSON.parse(fs.readFileSync(goldenCase.expectedPath, 'utf-8'));
+}
+
+export function writeExpectation(goldenCase: GoldenCase, expectation: GoldenExpectation): void {
+  fs.writeFileSync(goldenCase.expectedPath, JSON.stringify(expectation, null, 2) + '\n');
+}
+
+export async function runParser(
+  goldenCase: GoldenCase,
+  variant: ParserVariant,
+  options: serverParser.ParseOptions
+): Promise<Tournament[]> {
+  const parser = variant === 'server' ? serverParser : browserParser;
+  const input = fs.readFileSync(goldenCase.inputPath, 'utf-8');
+
+  if (goldenCase.kind === 'text') {
+    return parser.parseTournamentsProgrammatically(input, options);
+  }
+
+  const layout = await extractLayoutFromPdf(makePdf(renderPdfFixture(JSON.parse(input))));
+  return parser.parseCalendarLines(layout.lines, options);
+}
+
+/**
+ * Compares parser output with the golden file field by field.
+ * Returns one readable line per difference; an empty list means a match.
+ */
+export function diffTournaments(actual: Tournament[], expected: Tournament[]): string[] {
+  const differences: string[] = [];
+  const actualById = new Map(actual.map(t => [t.id, t]));
+  const expectedById = new Map(expected.map(t => [t.id, t]));
+
+  for (const [id, expectedTournament] of expectedById) {
+    const actualTournament = actualById.get(id);
+    if (!actualTournament) {
+      differences.push(`${id}: missing from parser output`);
+      continue;
+    }
+
+    const fields = new Set([...Object.keys(expectedTournament), ...Object.keys(actualTournament)] as (keyof Tournament)[]);
+    for (const field of fields) {
+      const expectedValue = JSON.stringify(expectedTournament[field]);
+      const actualValue = JSON.stringify(actualTournament[field]);
+      if (expectedValue !== actualValue) {
+        differences.push(`${id}.${field}: expected ${expectedValue}, got ${actualValue}`);
+      }
+    }
+  }
+
+  for (const id of actualById.keys()) {
+    if (!expectedById.has(id)) {
+      differences.push(`${id}: not in golden file`);
+    }
+  }
+
+  const actualOrder = actual.map(t => t.id).join(',');
+  const expectedOrder = expected.map(t => t.id).join(',');
+  if (differences.length === 0 && actualOrder !== expectedOrder) {
+    differences.push('tournament order differs from golden file');
+  }
+
+  return differences;
+}
+
+export function renderPdfFixture(fixture: PdfFixture): PdfText[][] {
+  return fixture.pages.map(lines => lines.flatMap((line): PdfText[] => {
+    if ('header' in line) {
+      return (Object.keys(fixture.columns) as serverParser.CalendarColumn[])
+        .map(column => ({ x: fixture.columns[column], y: line.y, text: HEADER_TEXT[column] }));
+    }
+    if ('cells' in line) {
+      return (Object.entries(line.cells) as [serverParser.CalendarColumn, string][])
+        .map(([column, text]) => ({ x: fixture.columns[column], y: line.y, text }));
+    }
+    return [line];
+  }));
+}
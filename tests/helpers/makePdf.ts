@@ -0,0 +1,57 @@
+/**
+ * Minimal PDF writer for synthetic calendar fixtures.
+ * Places Helvetica text at absolute positions so the layout extraction
+ * sees the same transforms it would get from a real LTA calendar.
+ */
+
+export interface PdfText {
+  x: number;
+  y: number;
+  text: string;
+  size?: number;
+}
+
+// Landscape A4 in PDF points, like the LTA calendar
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+
+export function makePdf(pages: PdfText[][]): Buffer {
+  const objects: string[] = [];
+  const pageIds: number[] = [];
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+
+  let nextId = 4;
+  for (const items of pages) {
+    const content = items
+      .map(item => `BT /F1 ${item.size ?? 7} Tf ${item.x} ${item.y} Td (${escapePdfString(item.text)}) Tj ET`)
+      .join('\n');
+    const contentId = nextId++;
+    const pageId = nextId++;
+    objects[contentId] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${contentId} 0 R >>`;
+    pageIds.push(pageId);
+  }
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, 'latin1');
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/([()\\])/g, '\\$1');
+}
@@ -0,0 +1,156 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTextEntries } from '../server/parser.js';
+import {
+  parseHybrid,
+  withCache,
+  recordsToTournaments,
+  ExtractionProvider,
+  ExtractionCache,
+  AiTournamentRecord,
+} from '../server/extractionService.js';
+
+const CALENDAR = [
+  '12 & U EVENTS - BOYS',
+  'SUS-25-0200 Hove Open Male Singles 3 Sat 13 Sep Hove LTC BN3 7DE CD: 05/09/2025 18:00 WD: 08/09/2025 18:00 hove@tennis.org',
+  'SUS-25-0201 Winter Smash see website for details',
+].join(' ');
+
+const WINTER_SMASH: AiTournamentRecord[] = [
+  {
+    title: 'Winter Smash', gender: 'female', eventType: 'Singles', grade: 'Grade 4',
+    venue: 'Lewes LTC', postcode: 'BN7 1XS', ltaCode: 'SUS-25-0201', date: 'Sat 20 Sep',
+    month: 'September 2025', organiserEmail: 'lewes@tennis.org',
+    deadlineCD: '12/09/2025 10:00', deadlineWD: 'unknown',
+  },
+  {
+    title: 'Winter Smash', gender: 'Male', eventType: 'Doubles', grade: '5',
+    venue: 'Lewes LTC', ltaCode: 'SUS 25 0201', date: 'Sat 20 Sep',
+    month: 'September 2025', organiserEmail: 'lewes@tennis.org',
+    deadlineCD: '12/09/2025 10:00', deadlineWD: '15/09/2025 10:00',
+  },
+];
+
+// Local stand-in for Gemini that records what it was asked
+function stubProvider(records: AiTournamentRecord[]): ExtractionProvider & { requests: string[] } {
+  const requests: string[] = [];
+  return {
+    name: 'stub',
+    requests,
+    async extractTournaments(text: string) {
+      requests.push(text);
+      return records;
+    },
+  };
+}
+
+test('only low-confidence entries are sent to the provider', async () => {
+  const provider = stubProvider(WINTER_SMASH);
+  const result = await parseHybrid(parseTextEntries(CALENDAR), provider);
+
+  assert.equal(provider.requests.length, 1);
+  assert.ok(provider.requests[0].includes('SUS-25-0201'));
+  assert.ok(!provider.requests[0].includes('SUS-25-0200'));
+  assert.equal(result.aiEntries, 1);
+
+  const hove = result.tournaments.find(t => t.ltaCode === 'SUS-25-0200')!;
+  assert.equal(hove.id, 'SUS-25-0200-Male-Singles-12U_Boys');
+  assert.ok(Object.values(hove.diagnostics!.engines!).every(engine => engine === 'regex'));
+});
+
+test('defaulted fields are filled from the matching AI record and tagged', async () => {
+  const result = await parseHybrid(parseTextEntries(CALENDAR), stubProvider(WINTER_SMASH));
+  const smash = result.tournaments.find(t => t.id === 'SUS-25-0201-Female-Singles-12U_Boys')!;
+
+  assert.ok(smash);
+  assert.equal(smash.date, 'Sat 20 Sep');
+  assert.equal(smash.startDate, '2025-09-20');
+  assert.equal(smash.venue, 'Lewes LTC');
+  assert.equal(smash.postcode, 'BN7 1XS');
+  assert.equal(smash.grade, 'Grade 4');
+  assert.equal(smash.deadlineCDAt, '2025-09-12T09:00:00.000Z');
+
+  const { engines, defaulted } = smash.diagnostics!;
+  assert.equal(engines!.title, 'regex');
+  assert.equal(engines!.category, 'regex');
+  assert.equal(engines!.gender, 'stub');
+  assert.equal(engines!.venue, 'stub');
+  // An unreadable AI value leaves the field defaulted
+  assert.deepEqual(defaulted, ['deadlineWD']);
+});
+
+test('events only the AI found are added', async () => {
+  const result = await parseHybrid(parseTextEntries(CALENDAR), stubProvider(WINTER_SMASH));
+  const doubles = result.tournaments.find(t => t.id === 'SUS-25-0201-Male-Doubles-12U_Boys')!;
+
+  assert.ok(doubles);
+  assert.equal(doubles.grade, 'Grade 5');
+  assert.equal(doubles.category, '12U Boys');
+  assert.equal(doubles.diagnostics!.engines!.eventType, 'stub');
+  assert.equal(result.tournaments.length, 3);
+});
+
+test('provider failures keep the regex results', async () => {
+  const provider: ExtractionProvider = {
+    name: 'stub',
+    async extractTournaments() {
+      throw new Error('quota exceeded');
+    },
+  };
+  const result = await parseHybrid(parseTextEntries(CALENDAR), provider);
+
+  assert.equal(result.error, 'quota exceeded');
+  assert.deepEqual(result.tournaments.map(t => t.id), [
+    'SUS-25-0200-Male-Singles-12U_Boys',
+    'SUS-25-0201-Mixed-Singles-12U_Boys',
+  ]);
+});
+
+test('a cancelled parse aborts the request in flight and sends no more', async () => {
+  const controller = new AbortController();
+  const signals: (AbortSignal | undefined)[] = [];
+  const provider: ExtractionProvider = {
+    name: 'stub',
+    async extractTournaments(text, options) {
+      signals.push(options?.signal);
+      controller.abort();
+      options?.signal?.throwIfAborted();
+      return [];
+    },
+  };
+  // Two requests' worth of entries, all of them low-confidence
+  const calendar = Array.from({ length: 20 }, (_, i) => `SUS-25-${String(300 + i).padStart(4, '0')} Winter Smash`).join('\n');
+
+  await assert.rejects(parseHybrid(parseTextEntries(calendar), provider, { signal: controller.signal }), { name: 'AbortError' });
+  assert.deepEqual(signals, [controller.signal]);
+});
+
+test('cached providers answer repeated text without calling the provider', async () => {
+  const provider = stubProvider(WINTER_SMASH);
+  const store = new Map<string, AiTournamentRecord[]>();
+  const cache: ExtractionCache = {
+    get: (hash, name) => store.get(`${name}:${hash}`),
+    set: (hash, name, records) => { store.set(`${name}:${hash}`, records); },
+  };
+  const hits: boolean[] = [];
+  const cached = withCache(provider, cache, hit => hits.push(hit));
+
+  await cached.extractTournaments('SUS-25-0201 Winter Smash');
+  await cached.extractTournaments('SUS-25-0201 Winter Smash');
+  await cached.extractTournaments('SUS-25-0202 Spring Smash');
+
+  assert.equal(provider.requests.length, 2);
+  assert.deepEqual(hits, [false, true, false]);
+});
+
+test('AI records convert to tournaments on their own', () => {
+  const tournaments = recordsToTournaments([...WINTER_SMASH, { ...WINTER_SMASH[0], ltaCode: 'not a code' }], 'stub');
+
+  assert.deepEqual(tournaments.map(t => t.id), [
+    'SUS-25-0201-Female-Singles-Uncategorised',
+    'SUS-25-0201-Male-Doubles-Uncategorised',
+  ]);
+  assert.equal(tournaments[0].county, 'SUS');
+  assert.equal(tournaments[0].endDate, '2025-09-20');
+  assert.equal(tournaments[0].diagnostics!.engines!.venue, 'stub');
+});
@@ -0,0 +1,59 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { useScratchDataDir } from './helpers/dataDir.js';
+
+// The services open the database and import infographics.json on load, so set up DATA_DIR first
+const dataDir = useScratchDataDir('infographics');
+const legacyFile = path.join(dataDir, 'infographics.json');
+fs.writeFileSync(legacyFile, JSON.stringify([
+  {
+    id: 'infographic_1700000000000', filename: 'infographic_1700000000000.png', prompt: 'Sussex flyer',
+    filters: { month: 'September 2025' }, tournamentCount: 4, createdAt: '2023-11-14T22:13:20.000Z',
+  },
+]));
+
+let service: typeof import('../server/infographicService.js');
+let db: typeof import('../server/db.js');
+before(async () => {
+  service = await import('../server/infographicService.js');
+  db = await import('../server/db.js');
+});
+
+test('infographics.json is moved into the database on first start', () => {
+  const [legacy] = service.getAllInfographics();
+  assert.equal(legacy.id, 'infographic_1700000000000');
+  assert.deepEqual(legacy.filters, { month: 'September 2025' });
+  assert.deepEqual(legacy.tournamentIds, []);
+
+  assert.ok(!fs.existsSync(legacyFile));
+  assert.ok(fs.existsSync(`${legacyFile}.imported`));
+  // A second run finds nothing to import
+  assert.equal(service.importLegacyMetadata(legacyFile), 0);
+});
+
+test('infographics keep the tournaments they listed, in order', () => {
+  db.saveInfographics([{
+    id: 'infographic_2', filename: 'infographic_2.png', prompt: 'Autumn flyer', filters: {},
+    tournamentCount: 2, tournamentIds: ['SUS-25-0201-Female-Singles-12U_Girls', 'SUS-25-0200-Male-Singles-12U_Boys'],
+    createdAt: '2025-09-01T10:00:00.000Z',
+  }]);
+
+  const infographics = service.getAllInfographics();
+  assert.deepEqual(infographics.map(i => i.id), ['infographic_2', 'infographic_1700000000000']);
+  assert.deepEqual(infographics[0].tournamentIds, ['SUS-25-0201-Female-Singles-12U_Girls', 'SUS-25-0200-Male-Singles-12U_Boys']);
+});
+
+test('deleting an infographic moves it to the trash and keeps the image until it is purged', () => {
+  const image = path.join(dataDir, 'infographics', 'infographic_2.png');
+  fs.writeFileSync(image, 'png');
+
+  const trashed = service.deleteInfographic('infographic_2');
+  assert.equal(trashed?.infographics, 1);
+  assert.equal(service.getInfographic('infographic_2'), undefined);
+  assert.ok(fs.existsSync(image));
+  assert.equal(service.deleteInfographic('infographic_2'), null);
+
+  assert.deepEqual(db.getTrash().infographics.map(i => i.id), ['infographic_2']);
+});
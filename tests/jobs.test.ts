@@ -0,0 +1,108 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { useScratchDataDir } from './helpers/dataDir.js';
+
+const dataDir = useScratchDataDir('jobs');
+let db: typeof import('../server/db.js');
+let jobs: typeof import('../server/jobService.js');
+before(async () => {
+  db = await import('../server/db.js');
+  jobs = await import('../server/jobService.js');
+});
+
+// A promise with its resolve function, to hold a handler until the test lets it go
+function gate() {
+  let open!: () => void;
+  const opened = new Promise<void>(resolve => { open = resolve; });
+  return { open, opened };
+}
+
+test('a job runs off the queue, reports its progress and keeps its result', async () => {
+  jobs.registerJobHandler<{ pages: number }, { read: number }>('import', async ({ input, filePath, progress }) => {
+    assert.equal(fs.readFileSync(filePath!, 'utf-8'), '%PDF-1.4');
+    for (let page = 1; page <= input.pages; page++) {
+      progress({ stage: 'extracting', message: `Extracting page ${page} of ${input.pages}`, current: page, total: input.pages });
+    }
+    return { read: input.pages };
+  });
+
+  const upload = path.join(dataDir, 'calendar.pdf');
+  fs.writeFileSync(upload, '%PDF-1.4');
+  const job = jobs.enqueueJob('import', 'calendar.pdf', { pages: 3 }, upload);
+  const seen: string[] = [];
+  const unsubscribe = jobs.subscribeToJob(job.id, update => seen.push(`${update.status} ${update.message ?? ''}`.trim()));
+  assert.ok(fs.existsSync(path.join(jobs.JOBS_DIR, job.id)));
+  assert.ok(!fs.existsSync(upload));
+
+  await jobs.runQueuedJobs();
+  unsubscribe();
+
+  assert.deepEqual(seen, [
+    'running',
+    'running Extracting page 1 of 3',
+    'running Extracting page 2 of 3',
+    'running Extracting page 3 of 3',
+    'succeeded',
+  ]);
+  const finished = db.getJobById(job.id)!;
+  assert.deepEqual(finished.result, { read: 3 });
+  assert.equal(finished.attempts, 1);
+  assert.equal(finished.progress, null);
+  assert.ok(finished.finishedAt);
+  assert.ok(!fs.existsSync(path.join(jobs.JOBS_DIR, job.id)));
+});
+
+test('a failing job records why, and queued or running jobs can be cancelled', async () => {
+  const hold = gate();
+  jobs.registerJobHandler<{ fail?: boolean }, null>('infographic', async ({ input, progress }) => {
+    if (input.fail) throw new Error('No image generated in response');
+    progress({ stage: 'generating', message: 'Generating' });
+    await hold.opened;
+    progress({ stage: 'generating', message: 'Still generating' });
+    return null;
+  });
+
+  const failing = jobs.enqueueJob('infographic', 'failing', { fail: true });
+  const running = jobs.enqueueJob('infographic', 'running', {});
+  const queued = jobs.enqueueJob('infographic', 'queued', {});
+  await new Promise(resolve => setTimeout(resolve, 10));
+
+  assert.equal(db.getJobById(failing.id)!.status, 'failed');
+  assert.equal(db.getJobById(failing.id)!.error, 'No image generated in response');
+  assert.equal(db.getJobById(running.id)!.status, 'running');
+
+  assert.equal(jobs.cancelJob(queued.id)!.status, 'cancelled');
+  const cancelling = jobs.cancelJob(running.id)!;
+  assert.equal(cancelling.status, 'running');
+  assert.ok(cancelling.cancelRequested);
+
+  hold.open();
+  await jobs.runQueuedJobs();
+  assert.equal(db.getJobById(running.id)!.status, 'cancelled');
+  // Finished jobs stay as they are
+  assert.equal(jobs.cancelJob(failing.id)!.status, 'failed');
+  assert.equal(jobs.cancelJob('no-such-job'), undefined);
+
+  assert.deepEqual(db.getJobs({ type: 'infographic', statuses: ['cancelled'] }).map(job => job.label), ['queued', 'running']);
+});
+
+test('jobs interrupted by a restart run again, and old finished jobs are purged', async () => {
+  // Started but never finished, as if the server stopped mid-job
+  const interrupted = db.insertJob({ id: 'interrupted', type: 'import', label: 'restart.pdf', input: { pages: 2 } });
+  fs.writeFileSync(path.join(jobs.JOBS_DIR, interrupted.id), '%PDF-1.4');
+  assert.equal(db.startNextJob()!.id, interrupted.id);
+
+  clearInterval(jobs.startJobRunner());
+  await jobs.runQueuedJobs();
+
+  const finished = db.getJobById(interrupted.id)!;
+  assert.equal(finished.status, 'succeeded');
+  assert.equal(finished.attempts, 2);
+
+  const later = new Date(Date.now() + (jobs.JOB_RETENTION_DAYS + 1) * 86400000);
+  const count = db.getJobs().length;
+  assert.equal(jobs.purgeFinishedJobs(jobs.JOB_RETENTION_DAYS, later), count);
+  assert.deepEqual(db.getJobs(), []);
+});
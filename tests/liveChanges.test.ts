@@ -0,0 +1,64 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTournamentsProgrammatically } from '../server/parser.js';
+import { useScratchDataDir } from './helpers/dataDir.js';
+
+useScratchDataDir('sync');
+let db: typeof import('../server/db.js');
+let sync: typeof import('../server/syncService.js');
+before(async () => {
+  db = await import('../server/db.js');
+  sync = await import('../server/syncService.js');
+});
+
+const CALENDAR = [
+  '12 & U EVENTS - BOYS SUS-25-0200 Hove Open Male Singles 3 Sat 13 Sep Hove LTC BN3 7DE CD: 05/09/2025 18:00 WD: 08/09/2025 18:00 hove@tennis.org',
+  '14 & U EVENTS - GIRLS SUS-25-0201 Brighton Open Female Singles 4 Sun 14 Sep Brighton LTC BN1 1AA CD: 06/09/2025 18:00 WD: 09/09/2025 18:00 brighton@tennis.org',
+].join('\n');
+
+test('changes go out to subscribers with the rows as they are now', () => {
+  db.upsertTournaments(parseTournamentsProgrammatically(CALENDAR, { counties: ['SUS'] }), ['SUS']);
+  const [hove, brighton] = db.getAllTournaments();
+
+  const received: import('../server/db.js').DataChange[] = [];
+  const unsubscribe = sync.subscribeToChanges(change => received.push(change));
+
+  db.editTournament(hove.id, { venue: 'Preston Park' });
+  db.deleteTournament(brighton.id);
+  sync.publishChange(
+    { action: 'updated', tournaments: { updated: [hove.id, brighton.id] } },
+    { by: 'sam', clientId: 'tab-1' }
+  );
+  sync.publishChange({ action: 'deleted', tournaments: { deleted: [brighton.id] } });
+  // Nothing to tell anyone about
+  assert.equal(sync.publishChange({ action: 'updated', tournaments: { updated: [brighton.id] } }), null);
+  unsubscribe();
+
+  assert.equal(received.length, 2);
+  const [edit, removal] = received;
+  // The trashed tournament is gone by the time the edit is published
+  assert.deepEqual(edit.tournaments.updated.map(t => [t.id, t.venue]), [[hove.id, 'Preston Park']]);
+  assert.equal(edit.tournaments.updated[0].source, undefined);
+  assert.ok('entryStatus' in edit.tournaments.updated[0]);
+  assert.deepEqual([edit.by, edit.clientId], ['sam', 'tab-1']);
+  assert.deepEqual(removal.tournaments.deleted, [brighton.id]);
+  assert.deepEqual([removal.by, removal.clientId], [null, null]);
+});
+
+test('a tab that reconnects gets what it missed, or is told to reload', () => {
+  const first = sync.publishChange({ action: 'deleted', infographics: { deleted: ['a'] } })!;
+  const second = sync.publishChange({ action: 'deleted', infographics: { deleted: ['b'] } })!;
+  const third = sync.publishChange({ action: 'deleted', infographics: { deleted: ['c'] } })!;
+
+  assert.deepEqual(sync.changesSince(first.id).map(change => change.id), [second.id, third.id]);
+  assert.deepEqual(sync.changesSince(third.id), []);
+
+  // From before a restart, or not an id at all
+  const [epoch] = first.id.split('-');
+  for (const stale of ['0000-3', `${epoch}-999`, 'nonsense']) {
+    const [replaced, ...rest] = sync.changesSince(stale);
+    assert.equal(replaced.action, 'replaced', stale);
+    assert.equal(replaced.id, third.id);
+    assert.deepEqual(rest, []);
+  }
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { openDatabase, migrate, getSchemaStatus, LATEST_SCHEMA_VERSION } from '../server/migrations.js';
+
+// A database from before schema_version, with some of the later columns already added
+function legacyDatabase() {
+  const db = openDatabase(':memory:');
+  db.exec(`
+    CREATE TABLE tournaments (
+      id TEXT PRIMARY KEY, title TEXT NOT NULL, gender TEXT NOT NULL, eventType TEXT NOT NULL,
+      grade TEXT NOT NULL, venue TEXT NOT NULL, postcode TEXT, ltaCode TEXT NOT NULL,
+      date TEXT NOT NULL, month TEXT NOT NULL, category TEXT NOT NULL, organiserEmail TEXT,
+      deadlineCD TEXT, deadlineWD TEXT, createdAt TEXT, updatedAt TEXT,
+      county TEXT NOT NULL DEFAULT 'SUS', diagnostics TEXT
+    )
+  `);
+  db.prepare(`
+    INSERT INTO tournaments (id, title, gender, eventType, grade, venue, ltaCode, date, month, category, deadlineCD, deadlineWD)
+    VALUES ('SUS-25-0200-Male-Singles-12U_Boys', 'Hove Open', 'Male', 'Singles', 'Grade 3', 'Hove LTC',
+      'SUS-25-0200', 'Sat 13 Sep', 'September 2025', '12U Boys', '05/09/2025 18:00', '08/09/2025 18:00')
+  `).run();
+  return db;
+}
+
+function columnsOf(db: ReturnType<typeof openDatabase>): string[] {
+  return (db.prepare('PRAGMA table_info(tournaments)').all() as { name: string }[]).map(c => c.name);
+}
+
+test('a new database is created at the latest version', () => {
+  const db = openDatabase(':memory:');
+  const result = migrate(db);
+
+  assert.equal(result.from, 0);
+  assert.equal(result.to, LATEST_SCHEMA_VERSION);
+  assert.deepEqual(getSchemaStatus(db).pending, []);
+  assert.ok(columnsOf(db).includes('ballColour'));
+});
+
+test('legacy databases are upgraded and their rows backfilled', () => {
+  const db = legacyDatabase();
+  migrate(db);
+
+  const row = db.prepare('SELECT * FROM tournaments').get() as Record<string, string>;
+  assert.equal(row.county, 'SUS');
+  assert.equal(row.startDate, '2025-09-13');
+  assert.equal(row.deadlineCDAt, '2025-09-05T17:00:00.000Z');
+  assert.equal(row.ageGroup, '12U');
+  assert.equal(row.genderGroup, 'Boys');
+  assert.equal(row.season, '2025/26');
+});
+
+test('migrating twice applies nothing', () => {
+  const db = openDatabase(':memory:');
+  migrate(db);
+  const again = migrate(db);
+
+  assert.deepEqual(again.applied, []);
+  assert.equal(again.to, LATEST_SCHEMA_VERSION);
+});
+
+test('dry runs report pending migrations and leave the database unchanged', () => {
+  const db = legacyDatabase();
+  const before = columnsOf(db);
+  const result = migrate(db, { dryRun: true });
+
+  assert.equal(result.applied.length, LATEST_SCHEMA_VERSION);
+  assert.equal(result.to, 0);
+  assert.deepEqual(columnsOf(db), before);
+  assert.equal(getSchemaStatus(db).current, 0);
+});
+
+test('databases from a newer build are rejected', () => {
+  const db = openDatabase(':memory:');
+  migrate(db);
+  db.prepare("INSERT INTO schema_version (version, name) VALUES (?, 'from the future')").run(LATEST_SCHEMA_VERSION + 1);
+
+  assert.throws(() => migrate(db), /newer than this build/);
+});
@@ -0,0 +1,55 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTournamentsProgrammatically } from '../server/parser.js';
+import { useScratchDataDir } from './helpers/dataDir.js';
+
+useScratchDataDir('overrides');
+let db: typeof import('../server/db.js');
+before(async () => {
+  db = await import('../server/db.js');
+});
+
+const ID = 'SUS-25-0200-Male-Singles-12U_Boys';
+const calendar = (venue: string, date: string) => parseTournamentsProgrammatically(
+  `12 & U EVENTS - BOYS SUS-25-0200 Hove Open Male Singles 3 ${date} ${venue} BN3 7DE CD: 05/09/2025 18:00 WD: 08/09/2025 18:00 hove@tennis.org`,
+  { counties: ['SUS'] }
+);
+
+test('hand edits replace the parsed values and update the fields derived from them', () => {
+  db.upsertTournaments(calendar('Hove LTC', 'Sat 13 Sep'), ['SUS']);
+
+  const edited = db.editTournament(ID, { venue: 'Preston Park', date: 'Sun 14 Sep' })!;
+  assert.equal(edited.venue, 'Preston Park');
+  assert.equal(edited.startDate, '2025-09-14');
+  assert.equal(edited.month, 'September 2025');
+  assert.equal(edited.overrides!.venue!.parsed, 'Hove LTC BN3 7DE');
+  assert.equal(edited.overrides!.date!.parsed, 'Sat 13 Sep');
+  assert.equal(db.getTournamentById(ID)!.parsed!.venue, 'Hove LTC BN3 7DE');
+
+  assert.equal(db.editTournament('SUS-99-0000-Male-Singles-12U_Boys', { venue: 'Nowhere' }), undefined);
+});
+
+test('re-importing keeps hand edits and records what the calendar now says', () => {
+  const summary = db.upsertTournaments(calendar('Hove Lawn Tennis Club', 'Sat 13 Sep'), ['SUS']);
+  assert.equal(summary.updated, 1);
+
+  const stored = db.getTournamentById(ID)!;
+  assert.equal(stored.venue, 'Preston Park');
+  assert.equal(stored.overrides!.venue!.parsed, 'Hove Lawn Tennis Club BN3 7DE');
+  assert.equal(stored.parsed!.venue, 'Hove Lawn Tennis Club BN3 7DE');
+
+  // Nothing changed in the calendar since, so the edits don't count as changes
+  assert.equal(db.upsertTournaments(calendar('Hove Lawn Tennis Club', 'Sat 13 Sep'), ['SUS']).unchanged, 1);
+});
+
+test('reverting a field restores the parsed value, and edits the calendar catches up with are dropped', () => {
+  const reverted = db.editTournament(ID, { venue: null })!;
+  assert.equal(reverted.venue, 'Hove Lawn Tennis Club BN3 7DE');
+  assert.deepEqual(Object.keys(reverted.overrides!), ['date']);
+
+  db.upsertTournaments(calendar('Hove Lawn Tennis Club', 'Sun 14 Sep'), ['SUS']);
+  const stored = db.getTournamentById(ID)!;
+  assert.equal(stored.date, 'Sun 14 Sep');
+  assert.equal(stored.overrides, null);
+  assert.equal(stored.parsed, null);
+});
@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  listGoldenCases,
+  readExpectation,
+  runParser,
+  diffTournaments,
+  PARSER_VARIANTS,
+} from './helpers/golden.js';
+
+// Regenerate the expected files with `npm run test:update-golden` when a parser change is intentional
+for (const goldenCase of listGoldenCases()) {
+  for (const variant of PARSER_VARIANTS) {
+    test(`${goldenCase.name} (${goldenCase.kind}, ${variant} parser)`, async () => {
+      const expectation = readExpectation(goldenCase);
+      assert.ok(expectation, `Missing golden file ${goldenCase.expectedPath}`);
+
+      const actual = await runParser(goldenCase, variant, expectation.options);
+      const differences = diffTournaments(actual, expectation.tournaments);
+
+      assert.equal(differences.length, 0, `Parser output differs from golden file:\n${differences.join('\n')}`);
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseCalendarPdf, CalendarParse } from '../server/pdfPool.js';
+import { PdfError } from '../server/pdfService.js';
+import { DEFAULT_COUNTIES } from '../server/parser.js';
+import { listGoldenCases, readExpectation, renderPdfFixture, diffTournaments } from './helpers/golden.js';
+import { makePdf } from './helpers/makePdf.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lta-pdf-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function writePdf(name: string, data: Buffer | string): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, data);
+  return file;
+}
+
+// Password protected: the standard handler with a user password that isn't empty
+function encryptedPdf(): Buffer {
+  const key = (bytes: number) => `<${'ab'.repeat(bytes)}>`;
+  const plain = makePdf([[{ x: 50, y: 500, text: 'Sussex Open' }]]).toString('latin1');
+  return Buffer.from(plain.replace(
+    '/Root 1 0 R >>',
+    `/Root 1 0 R /Encrypt << /Filter /Standard /V 1 /R 2 /O ${key(32)} /U ${key(32)} /P -4 >> /ID [${key(16)} ${key(16)}] >>`
+  ), 'latin1');
+}
+
+const failsWith = (code: PdfError['code']) => (error: unknown) => error instanceof PdfError && error.code === code;
+
+test('a worker extracts and parses a calendar page by page, as the main thread would', async () => {
+  const goldenCase = listGoldenCases().find(c => c.name === 'layout-two-pages')!;
+  const expectation = readExpectation(goldenCase)!;
+  const file = writePdf('calendar.pdf', makePdf(renderPdfFixture(JSON.parse(fs.readFileSync(goldenCase.inputPath, 'utf-8')))));
+  const counties = expectation.options.counties ?? DEFAULT_COUNTIES;
+
+  const pages: string[] = [];
+  const layout = await parseCalendarPdf(file, { mode: 'layout', counties, onPage: (page, pageCount) => pages.push(`${page}/${pageCount}`) });
+  assert.deepEqual(pages, ['1/2', '2/2']);
+  assert.equal(layout.mode, 'layout');
+  assert.deepEqual(diffTournaments((layout as Extract<CalendarParse, { mode: 'layout' }>).tournaments, expectation.tournaments), []);
+
+  // Hybrid parsing stops at the entries, which the AI pass takes from there
+  const hybrid = await parseCalendarPdf(file, { mode: 'hybrid', counties });
+  assert.equal(hybrid.mode, 'hybrid');
+  assert.equal((hybrid as Extract<CalendarParse, { mode: 'hybrid' }>).entries.length, expectation.tournaments.length);
+});
+
+test('unreadable PDFs fail with the reason instead of a generic error', async () => {
+  const calendar = makePdf([[{ x: 50, y: 500, text: 'Sussex Open' }], [{ x: 50, y: 500, text: 'Hove Open' }]]);
+  const cases: [string, Buffer | string, PdfError['code']][] = [
+    ['encrypted.pdf', encryptedPdf(), 'encrypted'],
+    ['truncated.pdf', calendar.subarray(0, 200), 'corrupt'],
+    ['not-a.pdf', 'Tournament Code,Tournament Name\n', 'corrupt'],
+    ['scanned.pdf', makePdf([[], []]), 'no_text'],
+  ];
+
+  for (const [name, data, code] of cases) {
+    await assert.rejects(parseCalendarPdf(writePdf(name, data), { mode: 'text', counties: 'all' }), failsWith(code), name);
+  }
+  await assert.rejects(
+    parseCalendarPdf(writePdf('long.pdf', calendar), { mode: 'layout', counties: 'all', maxPages: 1 }),
+    failsWith('too_many_pages')
+  );
+});
+
+test('a worker is stopped when its job is cancelled or it runs out of time', async () => {
+  const file = writePdf('slow.pdf', makePdf([[{ x: 50, y: 500, text: 'Sussex Open' }], [{ x: 50, y: 500, text: 'Hove Open' }]]));
+
+  const controller = new AbortController();
+  const cancelled = parseCalendarPdf(file, { mode: 'layout', counties: 'all', signal: controller.signal, onPage: () => controller.abort() });
+  await assert.rejects(cancelled, { name: 'AbortError' });
+
+  await assert.rejects(parseCalendarPdf(file, { mode: 'layout', counties: 'all', timeoutSeconds: 0.001 }), failsWith('timeout'));
+
+  // The slot freed by the stopped workers is taken by the next PDF
+  const parsed = await parseCalendarPdf(file, { mode: 'text', counties: 'all' });
+  assert.equal(parsed.pageCount, 2);
+});
@@ -0,0 +1,112 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTournamentsProgrammatically } from '../server/parser.js';
+import { useScratchDataDir } from './helpers/dataDir.js';
+
+useScratchDataDir('reimport');
+let db: typeof import('../server/db.js');
+before(async () => {
+  db = await import('../server/db.js');
+});
+
+const HOVE = 'SUS-25-0200 Hove Open Male Singles 3 Sat 13 Sep Hove LTC BN3 7DE CD: 05/09/2025 18:00 WD: 08/09/2025 18:00 hove@tennis.org';
+const LEWES = 'SUS-25-0201 Lewes Open Female Singles 4 Sat 20 Sep Lewes LTC BN7 1XS CD: 12/09/2025 10:00 WD: 15/09/2025 10:00 lewes@tennis.org';
+
+function calendar(...rows: string[]) {
+  return parseTournamentsProgrammatically(['12 & U EVENTS - BOYS', ...rows].join(' '), { counties: ['SUS'] });
+}
+
+test('re-imports update changed rows, record the old values and report missing tournaments', () => {
+  const first = db.upsertTournaments(calendar(HOVE, LEWES), ['SUS']);
+  assert.equal(first.added, 2);
+
+  const moved = HOVE.replace('Sat 13 Sep', 'Sun 14 Sep').replace('Hove LTC', 'Preston Park');
+  const second = db.upsertTournaments(calendar(moved), ['SUS']);
+  assert.deepEqual(
+    { added: second.added, updated: second.updated, unchanged: second.unchanged, disappeared: second.disappeared },
+    { added: 0, updated: 1, unchanged: 0, disappeared: 1 }
+  );
+
+  const hove = db.getTournamentById('SUS-25-0200-Male-Singles-12U_Boys')!;
+  assert.equal(hove.startDate, '2025-09-14');
+  assert.equal(hove.venue, 'Preston Park BN3 7DE');
+
+  const [latest] = db.getTournamentHistory(hove.id);
+  assert.equal(latest.changeType, 'updated');
+  assert.deepEqual(latest.changes, [
+    { field: 'venue', from: 'Hove LTC BN3 7DE', to: 'Preston Park BN3 7DE' },
+    { field: 'date', from: 'Sat 13 Sep', to: 'Sun 14 Sep' },
+  ]);
+
+  // Missing tournaments are reported but kept
+  assert.ok(db.getTournamentById('SUS-25-0201-Female-Singles-12U_Boys'));
+  assert.deepEqual(db.getLatestChanges().map(c => c.changeType), ['updated', 'disappeared']);
+});
+
+test('identical re-imports change nothing', () => {
+  const rows = calendar(HOVE.replace('Sat 13 Sep', 'Sun 14 Sep').replace('Hove LTC', 'Preston Park'));
+  const summary = db.upsertTournaments(rows, null);
+
+  assert.equal(summary.unchanged, 1);
+  assert.equal(summary.updated, 0);
+  assert.equal(db.getTournamentHistory(rows[0].id).length, 2);
+});
+
+test('rolling back an import removes what it added and restores what it changed', () => {
+  const worthing = 'SUS-25-0300 Worthing Open Male Singles 4 Sat 04 Oct Worthing LTC BN11 1AA CD: 26/09/2025 18:00 WD: 29/09/2025 18:00 w@tennis.org';
+  const meta = { filename: 'calendar.pdf', pageCount: 1, mode: 'text', counties: ['SUS'] };
+
+  const first = db.createImport({ ...meta, sha256: 'a' }, calendar(worthing));
+  const worthingId = first.summary.changes[0].tournamentId;
+  assert.equal(db.getTournamentById(worthingId)!.importId, first.import.id);
+
+  const extended = worthing.replace('CD: 26/09/2025', 'CD: 28/09/2025');
+  const second = db.createImport({ ...meta, sha256: 'b' }, calendar(extended, LEWES.replace('0201', '0301')));
+  assert.deepEqual([second.import.added, second.import.updated], [1, 1]);
+  assert.equal(db.getLatestActiveImport()!.id, second.import.id);
+
+  const { trash, ...counts } = db.rollbackImport(second.import.id);
+  assert.deepEqual(counts, { removed: 1, restored: 1 });
+  assert.equal(trash.tournaments, 1);
+
+  const restored = db.getTournamentById(worthingId)!;
+  assert.equal(restored.deadlineCD, '26/09/2025 18:00');
+  assert.equal(restored.deadlineCDAt, '2025-09-26T17:00:00.000Z');
+  assert.equal(restored.importId, first.import.id);
+  assert.equal(db.getTournamentById('SUS-25-0301-Female-Singles-12U_Boys'), undefined);
+  assert.deepEqual(db.getTournamentHistory(worthingId).map(c => c.changeType), ['added']);
+
+  assert.ok(db.getImportById(second.import.id)!.rolledBackAt);
+  assert.equal(db.findActiveImportBySha('b'), undefined);
+  assert.equal(db.getLatestActiveImport()!.id, first.import.id);
+});
+
+test('a rollback keeps hand edits made since the import, and its removals can be undone', () => {
+  const brighton = 'SUS-25-0400 Brighton Open Male Singles 4 Sat 11 Oct Brighton LTC BN1 1AA CD: 03/10/2025 18:00 WD: 06/10/2025 18:00 b@tennis.org';
+  const shoreham = 'SUS-25-0401 Shoreham Open Female Singles 4 Sun 12 Oct Shoreham LTC BN43 5AA CD: 04/10/2025 18:00 WD: 07/10/2025 18:00 s@tennis.org';
+  const meta = { filename: 'october.pdf', pageCount: 1, mode: 'text', counties: ['SUS'] };
+
+  const first = db.createImport({ ...meta, sha256: 'c' }, calendar(brighton));
+  const brightonId = first.summary.changes[0].tournamentId;
+  const second = db.createImport(
+    { ...meta, sha256: 'd' },
+    calendar(brighton.replace('CD: 03/10/2025', 'CD: 05/10/2025'), shoreham)
+  );
+  const shorehamId = second.summary.changes.find(c => c.changeType === 'added')!.tournamentId;
+
+  // Edited by hand after the import
+  const parsedVenue = db.getTournamentById(brightonId)!.venue;
+  db.editTournament(brightonId, { venue: 'Preston Park' });
+  db.editTournament(shorehamId, { venue: 'Buckingham Park' });
+
+  const { trash } = db.rollbackImport(second.import.id);
+  const restored = db.getTournamentById(brightonId)!;
+  assert.equal(restored.deadlineCD, '03/10/2025 18:00');
+  assert.equal(restored.venue, 'Preston Park');
+  assert.equal(restored.overrides!.venue!.parsed, parsedVenue);
+
+  // The added tournament is in the trash with its edit, not deleted
+  assert.equal(db.getTournamentById(shorehamId), undefined);
+  assert.deepEqual(db.restoreFromTrash({ batch: trash.batch }), { tournaments: 1, infographics: 0 });
+  assert.equal(db.getTournamentById(shorehamId)!.venue, 'Buckingham Park');
+});
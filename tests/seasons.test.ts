@@ -0,0 +1,63 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTournamentsProgrammatically, seasonOf } from '../server/parser.js';
+import { useScratchDataDir } from './helpers/dataDir.js';
+
+useScratchDataDir('seasons');
+let db: typeof import('../server/db.js');
+let archive: typeof import('../server/archiveService.js');
+let sync: typeof import('../server/syncService.js');
+before(async () => {
+  db = await import('../server/db.js');
+  archive = await import('../server/archiveService.js');
+  sync = await import('../server/syncService.js');
+  db.upsertTournaments(parseTournamentsProgrammatically([
+    '12 & U EVENTS - BOYS',
+    'SUS-24-0410 Hove Spring Male Singles 3 Sat 12 Apr Hove LTC BN3 7DE CD: 04/04/2025 18:00 WD: 07/04/2025 18:00 hove@tennis.org',
+    'SUS-25-0200 Hove Open Male Singles 3 Sat 13 Sep Hove LTC BN3 7DE CD: 05/09/2025 18:00 WD: 08/09/2025 18:00 hove@tennis.org',
+    'SUS-25-0300 Hove Winter Male Singles 4 Sat 10 Jan - Sun 11 Jan Hove LTC BN3 7DE CD: 02/01/2026 18:00 WD: 05/01/2026 18:00 hove@tennis.org',
+  ].join(' '), { counties: ['SUS'] }), ['SUS']);
+});
+
+const codes = (page: { tournaments: { ltaCode: string }[] }) => page.tournaments.map(t => t.ltaCode);
+
+test('the season comes from the year in the code', () => {
+  assert.equal(seasonOf('SUS-25-0455'), '2025/26');
+  assert.equal(seasonOf('KEN-99-0001'), '2099/00');
+  assert.equal(seasonOf('TBD'), null);
+  assert.equal(db.getTournamentById('SUS-25-0300-Male-Singles-12U_Boys')!.season, '2025/26');
+});
+
+test('tournaments are archived the day after their last day, UK time', () => {
+  // 23:30 UTC on 11 January is still 11 January in London
+  assert.deepEqual(db.archiveEndedTournaments(new Date('2025-09-13T22:30:00Z')), { archived: ['SUS-24-0410-Male-Singles-12U_Boys'], unarchived: [] });
+  assert.deepEqual(db.archiveEndedTournaments(new Date('2026-01-11T23:30:00Z')), { archived: ['SUS-25-0200-Male-Singles-12U_Boys'], unarchived: [] });
+  assert.deepEqual(db.archiveEndedTournaments(new Date('2026-01-12T00:30:00Z')), { archived: ['SUS-25-0300-Male-Singles-12U_Boys'], unarchived: [] });
+  assert.equal(db.getTournamentCount(), 3);
+  assert.equal(db.queryTournaments({}).total, 0);
+
+  // A corrected date brings a tournament back, and open tabs are told
+  const winter = db.getTournamentById('SUS-25-0300-Male-Singles-12U_Boys')!;
+  db.upsertTournaments([{ ...winter, date: 'Sat 07 Feb - Sun 08 Feb', month: 'February 2026', startDate: '2026-02-07', endDate: '2026-02-08' }], null);
+  const published: import('../server/db.js').DataChange[] = [];
+  const unsubscribe = sync.subscribeToChanges(change => published.push(change));
+  assert.deepEqual(archive.archiveEnded(new Date('2026-01-12T00:30:00Z')), { archived: 0, unarchived: 1 });
+  assert.deepEqual(archive.archiveEnded(new Date('2026-01-12T00:30:00Z')), { archived: 0, unarchived: 0 });
+  unsubscribe();
+  assert.deepEqual(published.map(change => change.tournaments.added.map(t => t.id)), [[winter.id]]);
+  assert.deepEqual(codes(db.queryTournaments({})), ['SUS-25-0300']);
+});
+
+test('seasons and the archive switch choose what lists and facets cover', () => {
+  assert.deepEqual(codes(db.queryTournaments({ season: '2025/26' })), ['SUS-25-0200', 'SUS-25-0300']);
+  assert.deepEqual(codes(db.queryTournaments({ season: '2025/26', archived: 'exclude' })), ['SUS-25-0300']);
+  assert.deepEqual(codes(db.queryTournaments({ archived: 'only' })), ['SUS-24-0410', 'SUS-25-0200']);
+  assert.equal(db.queryTournaments({ archived: 'include' }).total, 3);
+
+  const upcoming = db.getTournamentFacets();
+  assert.deepEqual(upcoming.months, ['February 2026']);
+  assert.deepEqual(upcoming.seasons, ['2025/26', '2024/25']);
+  assert.equal(upcoming.archived, 2);
+  assert.equal(upcoming.total, 3);
+  assert.deepEqual(db.getTournamentFacets({ season: '2024/25' }).months, ['April 2025']);
+});
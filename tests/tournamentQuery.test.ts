@@ -0,0 +1,63 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTournamentsProgrammatically } from '../server/parser.js';
+import { useScratchDataDir } from './helpers/dataDir.js';
+
+useScratchDataDir('query');
+let db: typeof import('../server/db.js');
+before(async () => {
+  db = await import('../server/db.js');
+  db.upsertTournaments(parseTournamentsProgrammatically([
+    '12 & U EVENTS - BOYS',
+    'SUS-25-0200 Hove Open Male Singles 3 Sat 13 Sep Hove LTC BN3 7DE CD: 05/09/2025 18:00 WD: 08/09/2025 18:00 hove@tennis.org',
+    'SUS-25-0201 Lewes Autumn Female Singles 4 Sat 20 Sep Lewes LTC BN7 1XS CD: 12/09/2025 10:00 WD: 15/09/2025 10:00 lewes@tennis.org',
+    '35 & OVER EVENTS - MEN',
+    "SUS-25-0300 Brighton Vets Male Doubles 5 Sun 05 Oct St Ann's Well Gardens BN3 1RP CD: 26/09/2025 18:00 WD: 29/09/2025 18:00 stanns@tennis.org",
+  ].join(' '), { counties: ['SUS'] }), ['SUS']);
+});
+
+const codes = (page: { tournaments: { ltaCode: string }[] }) => page.tournaments.map(t => t.ltaCode);
+
+test('filters combine and the total counts every match', () => {
+  assert.deepEqual(codes(db.queryTournaments({ gender: 'Male' })), ['SUS-25-0200', 'SUS-25-0300']);
+  assert.deepEqual(codes(db.queryTournaments({ gender: 'Male', ageGroup: 'Adults' })), ['SUS-25-0300']);
+  assert.deepEqual(codes(db.queryTournaments({ from: '2025-09-14', to: '2025-09-30' })), ['SUS-25-0201']);
+  assert.deepEqual(codes(db.queryTournaments({ venue: 'stann' })), ['SUS-25-0300']);
+  assert.equal(db.queryTournaments({ county: 'KEN' }).total, 0);
+});
+
+test('search matches word prefixes in title, venue and organiser', () => {
+  assert.deepEqual(codes(db.queryTournaments({ search: 'autum' })), ['SUS-25-0201']);
+  assert.deepEqual(codes(db.queryTournaments({ search: 'well gard' })), ['SUS-25-0300']);
+  assert.deepEqual(codes(db.queryTournaments({ search: 'hove@tennis.org' })), ['SUS-25-0200']);
+  // FTS syntax in user input is treated as plain words
+  assert.deepEqual(codes(db.queryTournaments({ search: 'lewes" OR "hove' })), []);
+});
+
+test('sorting and paging', () => {
+  const page = db.queryTournaments({ sort: 'grade', order: 'desc', limit: 2, offset: 1 });
+  assert.equal(page.total, 3);
+  assert.deepEqual(codes(page), ['SUS-25-0201', 'SUS-25-0200']);
+});
+
+test('entry status is evaluated at the given time', () => {
+  const now = new Date('2025-09-10T12:00:00Z');
+  assert.deepEqual(codes(db.queryTournaments({ status: ['entries_closed', 'withdrawal_closed'] }, now)), ['SUS-25-0200']);
+  assert.deepEqual(codes(db.queryTournaments({ status: ['closing_soon'] }, now)), ['SUS-25-0201']);
+  assert.deepEqual(codes(db.queryTournaments({ status: ['open'] }, now)), ['SUS-25-0300']);
+});
+
+test('the search index follows updates and deletes', () => {
+  db.deleteTournament(db.queryTournaments({ search: 'lewes' }).tournaments[0].id);
+  assert.equal(db.queryTournaments({ search: 'lewes' }).total, 0);
+
+  const hove = db.getTournamentById('SUS-25-0200-Male-Singles-12U_Boys')!;
+  db.upsertTournaments([{ ...hove, title: 'Hove Classic' }], null);
+  assert.deepEqual(codes(db.queryTournaments({ search: 'classic' })), ['SUS-25-0200']);
+  assert.equal(db.queryTournaments({ search: 'hove open' }).total, 0);
+
+  const facets = db.getTournamentFacets();
+  assert.equal(facets.total, 2);
+  assert.deepEqual(facets.months, ['September 2025', 'October 2025']);
+  assert.deepEqual(facets.ageGroups, ['12U', '35+']);
+});
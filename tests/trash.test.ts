@@ -0,0 +1,86 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { parseTournamentsProgrammatically } from '../server/parser.js';
+import { useScratchDataDir } from './helpers/dataDir.js';
+
+const dataDir = useScratchDataDir('trash');
+const imagesDir = path.join(dataDir, 'infographics');
+
+const CALENDAR = [
+  '12 & U EVENTS - BOYS SUS-25-0200 Hove Open Male Singles 3 Sat 13 Sep Hove LTC BN3 7DE CD: 05/09/2025 18:00 WD: 08/09/2025 18:00 hove@tennis.org',
+  '12 & U EVENTS - GIRLS SUS-25-0201 Lewes Junior Female Singles 4 Sun 14 Sep Lewes LTC BN7 1AA CD: 11/09/2025 18:00 WD: 12/09/2025 18:00 lewes@tennis.org',
+].join('\n');
+const HOVE = 'SUS-25-0200-Male-Singles-12U_Boys';
+
+let db: typeof import('../server/db.js');
+let trash: typeof import('../server/trashService.js');
+before(async () => {
+  db = await import('../server/db.js');
+  trash = await import('../server/trashService.js');
+  db.upsertTournaments(parseTournamentsProgrammatically(CALENDAR, { counties: ['SUS'] }), ['SUS']);
+});
+
+test('deleted tournaments leave every list and come back with their batch', () => {
+  const trashed = db.deleteTournament(HOVE)!;
+  assert.equal(trashed.tournaments, 1);
+  assert.equal(db.getTournamentById(HOVE), undefined);
+  assert.equal(db.getTournamentCount(), 1);
+  assert.equal(db.queryTournaments({ search: 'hove' }).total, 0);
+  assert.equal(db.getTournamentFacets().genders.includes('Male'), false);
+  assert.deepEqual(db.getTrash().tournaments.map(t => t.id), [HOVE]);
+
+  assert.deepEqual(db.restoreFromTrash({ batch: trashed.batch }), { tournaments: 1, infographics: 0 });
+  assert.equal(db.getTournamentById(HOVE)!.deletedAt, null);
+  assert.equal(db.getTrash().tournaments.length, 0);
+  // Restoring twice finds nothing
+  assert.deepEqual(db.restoreFromTrash({ batch: trashed.batch }), { tournaments: 0, infographics: 0 });
+});
+
+test('deleting everything is one batch, and a re-upload restores trashed tournaments with their edits', () => {
+  db.editTournament(HOVE, { venue: 'Preston Park' });
+  const trashed = db.deleteAllTournaments();
+  assert.equal(trashed.tournaments, 2);
+  assert.equal(db.getTournamentCount(), 0);
+
+  // The calendar lists Hove again; Lewes stays in the trash
+  const { import: reimport, summary } = db.createImport(
+    { filename: 'calendar.pdf', sha256: 'hove', pageCount: 1, mode: 'text', counties: ['SUS'] },
+    parseTournamentsProgrammatically(CALENDAR.split('\n')[0], { counties: ['SUS'] })
+  );
+  assert.deepEqual([summary.added, summary.updated, summary.disappeared], [0, 1, 0]);
+  assert.deepEqual(db.getImportRestoredTournamentIds(reimport.id), [HOVE]);
+  const hove = db.getTournamentById(HOVE)!;
+  assert.equal(hove.deletedAt, null);
+  assert.equal(hove.venue, 'Preston Park');
+  assert.equal(db.getTrash().tournaments.length, 1);
+
+  // Rolling the import back puts Hove back in the trash, in its batch
+  db.rollbackImport(reimport.id);
+  assert.equal(db.getTournamentById(HOVE), undefined);
+  assert.deepEqual(db.restoreFromTrash({ batch: trashed.batch }), { tournaments: 2, infographics: 0 });
+  assert.equal(db.getTournamentCount(), 2);
+  assert.equal(db.getTournamentById(HOVE)!.venue, 'Preston Park');
+});
+
+test('expired trash is purged with its infographic images', () => {
+  db.saveInfographics([{
+    id: 'infographic_1', filename: 'infographic_1.png', prompt: 'Flyer', filters: {}, tournamentCount: 1,
+    tournamentIds: [HOVE], createdAt: '2025-09-01T10:00:00.000Z',
+  }]);
+  const image = path.join(imagesDir, 'infographic_1.png');
+  fs.writeFileSync(image, 'png');
+  db.deleteInfographicRecord('infographic_1');
+  db.deleteTournament(HOVE);
+
+  // Still within the retention period
+  assert.deepEqual(trash.purgeExpiredTrash(30), { tournaments: 0, infographics: 0 });
+  assert.ok(fs.existsSync(image));
+
+  const later = new Date(Date.now() + 31 * 86400000);
+  assert.deepEqual(trash.purgeExpiredTrash(30, later), { tournaments: 1, infographics: 1 });
+  assert.ok(!fs.existsSync(image));
+  assert.deepEqual(db.getTrash(), { tournaments: [], infographics: [] });
+  assert.equal(db.getTournamentCount(), 1);
+});
@@ -0,0 +1,36 @@
+import {
+  listGoldenCases,
+  readExpectation,
+  writeExpectation,
+  runParser,
+  diffTournaments,
+} from './helpers/golden.js';
+
+/**
+ * Rewrites every golden file from the current server parser output.
+ * Only run this when a behaviour change is intended, then review the JSON diff.
+ * The browser copy must produce the same output, so any mismatch is reported.
+ */
+let mismatches = 0;
+
+for (const goldenCase of listGoldenCases()) {
+  const previous = readExpectation(goldenCase);
+  const options = previous?.options || {};
+
+  const tournaments = await runParser(goldenCase, 'server', options);
+  const changes = previous ? diffTournaments(tournaments, previous.tournaments) : ['new golden file'];
+  writeExpectation(goldenCase, { options, tournaments });
+  console.log(`${goldenCase.name}: ${tournaments.length} tournaments, ${changes.length} changes`);
+  changes.forEach(change => console.log(`  ${change}`));
+
+  const browserDifferences = diffTournaments(await runParser(goldenCase, 'browser', options), tournaments);
+  if (browserDifferences.length > 0) {
+    mismatches++;
+    console.error(`${goldenCase.name}: browser parser differs from server parser`);
+    browserDifferences.forEach(difference => console.error(`  ${difference}`));
+  }
+}
+
+if (mismatches > 0) {
+  process.exitCode = 1;
+}
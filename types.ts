@@ -1,20 +1,37 @@
-
-export interface Tournament {
-  id: string;
-  title: string;
-  gender: string;
-  eventType: string;
-  grade: string;
-  venue: string;
-  postcode: string;
-  ltaCode: string;
-  date: string;
-  month: string;
-  category: string;
-  organiserEmail: string;
-  deadlineCD: string;
-  deadlineWD: string;
-}
+// Everything the API sends or accepts is generated from the server's contract (server/apiSchema.ts)
+export type {
+  Tournament,
+  ParseDiagnostics,
+  ParseWarnings,
+  EntryStatus,
+  GenderGroup,
+  BallColour,
+  CategoryGroups,
+  AiExtractionSummary,
+  SourceSpan,
+  TournamentSource,
+  EditableField,
+  FieldOverride,
+  ChangeType,
+  FieldChange,
+  TournamentChange,
+  ImportRecord,
+  InfographicMetadata,
+  TrashBatch,
+  TournamentSort,
+  ArchiveFilter,
+  TournamentFacets,
+  Role,
+  Principal,
+  Job,
+  JobStatus,
+  ImportResult,
+  InfographicResult,
+  DataChange,
+  ListTournamentsQuery as TournamentQuery,
+  GetTournamentFacetsQuery as TournamentScope,
+  GetTrashResponse as Trash
+} from './services/apiClient';
 
 export interface LogEntry {
   timestamp: string;